@@ -1,21 +1,186 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { MapComponent } from './components/MapComponent';
 import { ControlPanel } from './components/ControlPanel';
-import { findOptimalLoopRoute } from './services/mapService';
-import type { GeneratedCourse, RouteStats, OptimalRouteData, LatLngLiteral } from './types';
-import { DEFAULT_LATITUDE, DEFAULT_LONGITUDE, DEFAULT_ZOOM, DEFAULT_PACE_MIN_PER_KM } from './constants';
+import { CourseLibrary } from './components/CourseLibrary';
+import { ServiceDiagnostics } from './components/ServiceDiagnostics';
+import { RouteConstraintsPanel } from './components/RouteConstraintsPanel';
+import { StartLocationPanel } from './components/StartLocationPanel';
+import { RunAlongPanel } from './components/RunAlongPanel';
+import { PrintableCourse } from './components/CueSheet';
+import { ActivityImportPanel } from './components/ActivityImportPanel';
+import { TrainingPlanPanel } from './components/TrainingPlanPanel';
+import { WorkoutPanel } from './components/WorkoutPanel';
+import { findCandidateRoutes, isAbortError } from './services/mapService';
+import { EMPTY_GENERATION_PROGRESS, applyProgressEvent } from './services/generationProgress';
+import { toGenerationError } from './services/generationDiagnostics';
+import { createGeocoder, createManagedProviders, createProviders, providerConfigFromEnv, type ManagedProviders } from './services/providers';
+import {
+  formatCoordinates,
+  isFavouriteStart,
+  loadStartLocations,
+  recordRecentStart,
+  removeStartLocation,
+  saveStartLocations,
+  toggleFavouriteStart,
+} from './services/startLocations';
+import { INITIAL_RUN_STATE, advanceRun, describeRun, prepareRunCourse, rejoinPoint, type RunCourse } from './services/runTracker';
+import { buildCueSheet } from './services/cueSheet';
+import { activityFixes, createReplayPositionSource, geolocationPositionSource } from './services/positionSources';
+import { parseActivityFile } from './services/activityImport';
+import { buildCourseFromActivity, compareActivity } from './services/activityAnalysis';
+import { downloadCourse, downloadCourses } from './services/exportService';
+import { buildWorkoutOverlay, loadWorkoutStructure, saveWorkoutStructure } from './services/workoutOverlay';
+import { generateTrainingPlan, loadTrainingPlan, planTotals, saveTrainingPlan, workoutOptions, workoutTitle } from './services/trainingPlan';
+import { computeBounds, computeOffset } from './services/geo';
+import { locationAtDistance, nearestProfileDistance } from './services/elevationProfile';
+import { buildGradeSegments, detectSteepSections } from './services/gradeAnalysis';
+import { createSavedCourse, deleteSavedCourse, listSavedCourses, saveCourse, updateSavedCourse } from './services/courseLibrary';
+import { buildGeneratedCourse } from './services/courseBuilder';
+import { EMPTY_EDIT_HISTORY, insertViaPoint, moveViaPoint, removeViaPoint, rerouteCourse, type EditHistory } from './services/courseEditor';
+import {
+  EMPTY_ROUTE_CONSTRAINTS,
+  constraintWarnings,
+  createAvoidZone,
+  createMustPassPoint,
+  deleteAvoidZone,
+  deleteMustPassPoint,
+  loadRouteConstraints,
+  saveAvoidZone,
+  saveMustPassPoint,
+} from './services/routeConstraints';
+import { applyPaceProfile, estimateCourseTime, loadPaceProfiles, savePaceProfiles } from './services/paceModel';
+import { buildShareSearch, parseShareSearch, type ShareState } from './services/shareLink';
+import type { GeneratedCourse, RankedCandidate, LatLngLiteral, ExportFormat, GenerationOptions, SteepSectionThresholds, SavedCourse, PaceProfile, RouteConstraints, AvoidZone, MustPassPoint, ServiceDiagnostics as ServiceDiagnosticsData, GenerationProgress, GenerationDiagnostics, Geocoder, PlaceSuggestion, StartLocation, PositionSource, RunState, RecordedActivity, PlanWorkout, PlannedWorkout, WorkoutMarker, WorkoutSegment } from './types';
+import {
+  DEFAULT_LATITUDE,
+  DEFAULT_LONGITUDE,
+  DEFAULT_ZOOM,
+  DEFAULT_GENERATION_OPTIONS,
+  DEFAULT_STEEP_SECTION_THRESHOLDS,
+  MAX_COMPARED_CANDIDATES,
+  CANDIDATE_ROUTE_COLORS,
+} from './constants';
+
+// Ranked routes from the last generation, with the settings they were generated for
+interface CandidateSet {
+  candidates: RankedCandidate[];
+  startPoint: LatLngLiteral;
+  desiredDistanceKm: number;
+  options: GenerationOptions;
+}
+
+// The settings the shown course was generated, saved or shared with; the form may have changed since
+interface CourseSettings {
+  desiredDistanceKm: number;
+  options: GenerationOptions;
+}
+
+// Stable empties for the map while no workout is shown, so its overlay effects don't rerun every render
+const NO_WORKOUT_SEGMENTS: WorkoutSegment[] = [];
+const NO_WORKOUT_MARKERS: WorkoutMarker[] = [];
 
 const App: React.FC = () => {
   const [isGoogleMapsApiLoaded, setIsGoogleMapsApiLoaded] = useState(false);
   const [currentMapCenter, setCurrentMapCenter] = useState<LatLngLiteral>({ lat: DEFAULT_LATITUDE, lng: DEFAULT_LONGITUDE });
-  const [userStartPoint, setUserStartPoint] = useState<google.maps.LatLng | null>(null);
+  const [userStartPoint, setUserStartPoint] = useState<LatLngLiteral | null>(null);
+  const [startLabel, setStartLabel] = useState<string | null>(null);
+  const [startLocations, setStartLocations] = useState<StartLocation[]>(loadStartLocations);
+  const [startLocationError, setStartLocationError] = useState<string | null>(null);
   const [desiredDistanceKm, setDesiredDistanceKm] = useState<number>(5);
+  const [generationOptions, setGenerationOptions] = useState<GenerationOptions>(DEFAULT_GENERATION_OPTIONS);
+  const [courseSettings, setCourseSettings] = useState<CourseSettings | null>(null);
   const [generatedCourse, setGeneratedCourse] = useState<GeneratedCourse | null>(null);
+  const [candidateSet, setCandidateSet] = useState<CandidateSet | null>(null);
+  const [isEditingRoute, setIsEditingRoute] = useState(false);
+  const [isRerouting, setIsRerouting] = useState(false);
+  const [editHistory, setEditHistory] = useState<EditHistory>(EMPTY_EDIT_HISTORY);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [highlightedDistanceM, setHighlightedDistanceM] = useState<number | null>(null);
+  const [steepSectionThresholds, setSteepSectionThresholds] = useState<SteepSectionThresholds>(DEFAULT_STEEP_SECTION_THRESHOLDS);
+  const [savedCourses, setSavedCourses] = useState<SavedCourse[]>([]);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  const [paceSettings, setPaceSettings] = useState(loadPaceProfiles);
+  const [routeConstraints, setRouteConstraints] = useState<RouteConstraints>(EMPTY_ROUTE_CONSTRAINTS);
+  const [constraintsError, setConstraintsError] = useState<string | null>(null);
+  const [serviceDiagnostics, setServiceDiagnostics] = useState<ServiceDiagnosticsData | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
+  const [generationDiagnostics, setGenerationDiagnostics] = useState<GenerationDiagnostics | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [runState, setRunState] = useState<RunState | null>(null);
+  const [runSourceName, setRunSourceName] = useState<string | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [routeBackPath, setRouteBackPath] = useState<LatLngLiteral[]>([]);
+  const [isRoutingBack, setIsRoutingBack] = useState(false);
+  const [importedActivity, setImportedActivity] = useState<RecordedActivity | null>(null);
+  const [activityError, setActivityError] = useState<string | null>(null);
+  const [isBuildingCourse, setIsBuildingCourse] = useState(false);
+  const [planWorkouts, setPlanWorkouts] = useState<PlanWorkout[]>(loadTrainingPlan);
+  const [plannedWorkouts, setPlannedWorkouts] = useState<PlannedWorkout[] | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [planError, setPlanError] = useState<string | null>(null);
+  const [workoutStructure, setWorkoutStructure] = useState(loadWorkoutStructure);
+  const [isWorkoutShown, setIsWorkoutShown] = useState(false);
   
   const mapRef = useRef<google.maps.Map | null>(null);
+  const providersRef = useRef<ManagedProviders | null>(null);
+  const geocoderRef = useRef<Geocoder | null>(null);
+  // A start point whose name is already known (picked from search or the saved starts), so it isn't looked up again
+  const labelledStartRef = useRef<LatLngLiteral | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const planAbortRef = useRef<AbortController | null>(null);
+  const runCourseRef = useRef<RunCourse | null>(null);
+  const stopRunRef = useRef<(() => void) | null>(null);
+
+  const activePaceProfile = useMemo(
+    () => paceSettings.profiles.find((p) => p.id === paceSettings.activeId) ?? paceSettings.profiles[0],
+    [paceSettings]
+  );
+  // Read by callbacks that must stay stable (generation, share links, the library)
+  const paceProfileRef = useRef(activePaceProfile);
+  paceProfileRef.current = activePaceProfile;
+  const routeConstraintsRef = useRef(routeConstraints);
+  routeConstraintsRef.current = routeConstraints;
+
+  // Providers are created on first use (the Google providers need the Maps API loaded) and wrapped with
+  // the cache, budgets and retries of the managed service layer
+  const getProviders = useCallback((): ManagedProviders => {
+    if (!providersRef.current) {
+      providersRef.current = createManagedProviders(createProviders(providerConfigFromEnv()));
+      setServiceDiagnostics(providersRef.current.getDiagnostics());
+      providersRef.current.subscribe(setServiceDiagnostics);
+    }
+    return providersRef.current;
+  }, []);
+
+  const getGeocoder = useCallback((): Geocoder => {
+    if (!geocoderRef.current) {
+      geocoderRef.current = createGeocoder(providerConfigFromEnv());
+    }
+    return geocoderRef.current;
+  }, []);
+
+  // The geocoder can be created once the Maps API is loaded; a misconfigured backend reports its error on search
+  const isPlaceAutocompleteEnabled = useMemo(() => {
+    if (!isGoogleMapsApiLoaded) return false;
+    try {
+      return getGeocoder().autocomplete;
+    } catch {
+      return false;
+    }
+  }, [isGoogleMapsApiLoaded, getGeocoder]);
+
+  const handleClearServiceCache = useCallback(() => {
+    void getProviders().clearCache();
+  }, [getProviders]);
+
+  // Edit history belongs to one course; call whenever a different course is shown (or none)
+  const resetCourseEditing = useCallback(() => {
+    setEditHistory(EMPTY_EDIT_HISTORY);
+    setIsEditingRoute(false);
+    setEditError(null);
+  }, []);
 
   useEffect(() => {
     const checkApiInterval = setInterval(() => {
@@ -27,8 +192,317 @@ const App: React.FC = () => {
     return () => clearInterval(checkApiInterval);
   }, []);
 
+  useEffect(() => {
+    listSavedCourses()
+      .then(setSavedCourses)
+      .catch((err) => setLibraryError(err instanceof Error ? err.message : "Could not load saved courses."));
+  }, []);
+
+  useEffect(() => {
+    loadRouteConstraints()
+      .then(setRouteConstraints)
+      .catch((err) => setConstraintsError(err instanceof Error ? err.message : "Could not load avoidance zones and pins."));
+  }, []);
+
+  // Persist pace profiles and re-estimate the shown course whenever the active profile changes
+  useEffect(() => {
+    savePaceProfiles(paceSettings.profiles, paceSettings.activeId);
+  }, [paceSettings]);
+
+  useEffect(() => {
+    setGeneratedCourse((course) => course && applyPaceProfile(course, activePaceProfile));
+  }, [activePaceProfile]);
+
+  const handlePaceProfileSelect = useCallback((activeId: string) => {
+    setPaceSettings((settings) => ({ ...settings, activeId }));
+  }, []);
+
+  const handlePaceProfilesChange = useCallback((profiles: PaceProfile[], activeId: string) => {
+    setPaceSettings({ profiles, activeId });
+  }, []);
+
+  const handleMarkerDragEnd = useCallback((newPosition: LatLngLiteral) => {
+    setUserStartPoint(newPosition);
+    setGeneratedCourse(null); // Clear previous course on marker move
+    resetCourseEditing();
+    setError(null);
+  }, [resetCourseEditing]);
+
+  // Name the start point; a slow lookup for an earlier start must not overwrite the current one
+  useEffect(() => {
+    if (!userStartPoint) {
+      setStartLabel(null);
+      return;
+    }
+    if (labelledStartRef.current === userStartPoint) return;
+    let isCurrent = true;
+    setStartLabel(null);
+    Promise.resolve()
+      .then(() => getGeocoder().reverseGeocode(userStartPoint))
+      .then((label) => {
+        if (isCurrent) setStartLabel(label);
+      })
+      .catch(() => {
+        // Unnamed starts are shown by their coordinates
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [userStartPoint, getGeocoder]);
+
+  useEffect(() => {
+    saveStartLocations(startLocations);
+  }, [startLocations]);
+
+  useEffect(() => {
+    saveTrainingPlan(planWorkouts);
+  }, [planWorkouts]);
+
+  useEffect(() => {
+    saveWorkoutStructure(workoutStructure);
+  }, [workoutStructure]);
+
+  // Moves the start to a place whose name is already known and brings it into view
+  const selectNamedStart = useCallback((location: LatLngLiteral, label: string) => {
+    labelledStartRef.current = location;
+    setStartLabel(label);
+    setStartLocationError(null);
+    handleMarkerDragEnd(location);
+    setCurrentMapCenter(location);
+    mapRef.current?.panTo(location);
+  }, [handleMarkerDragEnd]);
+
+  const handleSearchPlaces = useCallback(
+    async (query: string): Promise<PlaceSuggestion[]> => getGeocoder().suggest(query, mapRef.current?.getCenter()?.toJSON()),
+    [getGeocoder]
+  );
+
+  const handleSelectSuggestion = useCallback(async (suggestion: PlaceSuggestion) => {
+    try {
+      const place = await getGeocoder().resolveSuggestion(suggestion);
+      if (!place) {
+        setStartLocationError(`Could not find "${suggestion.label}".`);
+        return;
+      }
+      selectNamedStart(place.location, place.label);
+    } catch (err) {
+      setStartLocationError(err instanceof Error ? err.message : "Could not look up the place.");
+    }
+  }, [getGeocoder, selectNamedStart]);
+
+  const handleSelectStartLocation = useCallback((location: StartLocation) => {
+    selectNamedStart(location.location, location.label);
+  }, [selectNamedStart]);
+
+  const handleToggleFavouriteStart = useCallback(() => {
+    if (userStartPoint) {
+      setStartLocations((locations) => toggleFavouriteStart(locations, userStartPoint, startLabel));
+    }
+  }, [userStartPoint, startLabel]);
+
+  const handleRemoveStartLocation = useCallback((id: string) => {
+    setStartLocations((locations) => removeStartLocation(locations, id));
+  }, []);
+
+  const handleFinishMarkerDragEnd = useCallback((newPosition: LatLngLiteral) => {
+    setGenerationOptions((options) => ({ ...options, finishPoint: newPosition }));
+    setGeneratedCourse(null);
+    resetCourseEditing();
+    setError(null);
+  }, [resetCourseEditing]);
+
+  const handleDistanceChange = useCallback((newDistance: number) => {
+    setDesiredDistanceKm(newDistance);
+  }, []);
+
+  const handleGenerationOptionsChange = useCallback((options: GenerationOptions) => {
+    // Drop an initial finish marker east of the start when switching to point-to-point
+    if (options.mode === 'point-to-point' && !options.finishPoint && userStartPoint) {
+      options = { ...options, finishPoint: computeOffset(userStartPoint, (desiredDistanceKm * 1000) / 2, 90) };
+    }
+    setGenerationOptions(options);
+  }, [userStartPoint, desiredDistanceKm]);
+
+  // Generates a course and shows it. The URL is updated so the course can be shared and so
+  // back/forward moves between generated courses ('push'), or corrected in place ('replace').
+  // The best route so far is shown while candidates are still being evaluated; starting another
+  // generation or cancelling stops this one, and a cancelled run keeps the best route found so far.
+  const runGeneration = useCallback(async (
+    startPoint: LatLngLiteral,
+    distanceKm: number,
+    options: GenerationOptions,
+    historyMode: 'push' | 'replace'
+  ) => {
+    generationAbortRef.current?.abort();
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    const { signal } = controller;
+
+    setIsLoading(true);
+    setError(null);
+    setGeneratedCourse(null);
+    setCourseSettings({ desiredDistanceKm: distanceKm, options });
+    setCandidateSet(null);
+    setGenerationProgress(EMPTY_GENERATION_PROGRESS);
+    setGenerationDiagnostics(null);
+    setHighlightedDistanceM(null);
+    resetCourseEditing();
+
+    const showCourse = (course: GeneratedCourse) => {
+      const search = buildShareSearch(startPoint, distanceKm, options, course);
+      if (historyMode === 'push') {
+        window.history.pushState(null, '', search);
+      } else {
+        window.history.replaceState(null, '', search);
+      }
+      if (mapRef.current) {
+         mapRef.current.fitBounds(course.route.bounds);
+      }
+    };
+
+    let bestSoFar: GeneratedCourse | null = null;
+    try {
+      const result = await findCandidateRoutes(
+        startPoint,
+        distanceKm,
+        getProviders(),
+        options,
+        routeConstraintsRef.current,
+        {
+          signal,
+          onProgress: (event) => {
+            if (!signal.aborted) setGenerationProgress((progress) => progress && applyProgressEvent(progress, event));
+          },
+          onBestSoFar: (route) => {
+            if (signal.aborted) return;
+            bestSoFar = buildGeneratedCourse(route, startPoint, distanceKm, options, paceProfileRef.current);
+            setGeneratedCourse(bestSoFar);
+          },
+        }
+      );
+      setGenerationDiagnostics(result.diagnostics);
+
+      if (result.ok) {
+        const { candidates } = result;
+        const course = buildGeneratedCourse(candidates[0].route, startPoint, distanceKm, options, paceProfileRef.current);
+        setGeneratedCourse(course);
+        setCandidateSet({ candidates: candidates.slice(0, MAX_COMPARED_CANDIDATES), startPoint, desiredDistanceKm: distanceKm, options });
+        showCourse(course);
+      } else {
+        // A run stopped by the request budget may still have found a usable route
+        if (bestSoFar) showCourse(bestSoFar);
+        setError(result.error.message);
+      }
+    } catch (err) {
+      if (isAbortError(err)) {
+        // Superseded by a newer generation: that one owns the state now
+        if (generationAbortRef.current !== controller) return;
+        if (bestSoFar) showCourse(bestSoFar);
+      } else {
+        console.error("Course generation error:", err);
+        setGeneratedCourse(null);
+        setError(toGenerationError(err).message);
+      }
+    } finally {
+      if (generationAbortRef.current === controller) {
+        generationAbortRef.current = null;
+        setIsLoading(false);
+        setGenerationProgress(null);
+      }
+    }
+  }, [resetCourseEditing, getProviders]);
+
+  const handleCancelGeneration = useCallback(() => {
+    generationAbortRef.current?.abort();
+  }, []);
+
+  // The comparison only applies while the shown course is one of the last generation's candidates
+  // (not after opening a saved course or a share link, or moving the start)
+  const selectedCandidateRank = useMemo(
+    () => candidateSet?.candidates.find((c) => c.route.route === generatedCourse?.route)?.rank ?? null,
+    [candidateSet, generatedCourse]
+  );
+  const comparedCandidates = useMemo(
+    () => (selectedCandidateRank !== null && candidateSet ? candidateSet.candidates : []),
+    [candidateSet, selectedCandidateRank]
+  );
+
+  const alternativeRoutes = useMemo(
+    () => comparedCandidates
+      .map((c, i) => ({ rank: c.rank, route: c.route.route, color: CANDIDATE_ROUTE_COLORS[i % CANDIDATE_ROUTE_COLORS.length] }))
+      .filter((c) => c.rank !== selectedCandidateRank),
+    [comparedCandidates, selectedCandidateRank]
+  );
+
+  const handleSelectCandidate = useCallback((rank: number) => {
+    const candidate = candidateSet?.candidates.find((c) => c.rank === rank);
+    if (!candidateSet || !candidate) return;
+    const { startPoint, desiredDistanceKm: distanceKm, options } = candidateSet;
+    const course = buildGeneratedCourse(candidate.route, startPoint, distanceKm, options, paceProfileRef.current);
+    setGeneratedCourse(course);
+    setCourseSettings({ desiredDistanceKm: distanceKm, options });
+    setHighlightedDistanceM(null);
+    resetCourseEditing();
+    window.history.replaceState(null, '', buildShareSearch(startPoint, distanceKm, options, course));
+  }, [candidateSet, resetCourseEditing]);
+
+  const handleGenerateCourse = useCallback(async () => {
+    if (!userStartPoint) {
+      setError("Please set a start point: search for a place or pick it on the map.");
+      return;
+    }
+    if (desiredDistanceKm <= 0) {
+      setError("Please enter a valid distance greater than 0 km.");
+      return;
+    }
+    setStartLocations((locations) => recordRecentStart(locations, userStartPoint, startLabel));
+    await runGeneration(userStartPoint, desiredDistanceKm, generationOptions, 'push');
+  }, [userStartPoint, startLabel, desiredDistanceKm, generationOptions, runGeneration]);
+
+  // Restores a course (or, without geometry, its settings followed by a fresh generation) from a share link
+  const applyShareState = useCallback((state: ShareState) => {
+    setUserStartPoint(state.startPoint);
+    setCurrentMapCenter(state.startPoint);
+    setDesiredDistanceKm(state.desiredDistanceKm);
+    setGenerationOptions(state.generationOptions);
+    setHighlightedDistanceM(null);
+    setError(null);
+    resetCourseEditing();
+    if (state.course) {
+      setGeneratedCourse(applyPaceProfile(state.course, paceProfileRef.current));
+      setCourseSettings({ desiredDistanceKm: state.desiredDistanceKm, options: state.generationOptions });
+      if (mapRef.current) {
+        mapRef.current.fitBounds(state.course.route.bounds);
+      }
+    } else {
+      void runGeneration(state.startPoint, state.desiredDistanceKm, state.generationOptions, 'replace');
+    }
+  }, [runGeneration, resetCourseEditing]);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = parseShareSearch(window.location.search);
+      if (state) {
+        applyShareState(state);
+      } else {
+        setGeneratedCourse(null);
+        setHighlightedDistanceM(null);
+        resetCourseEditing();
+      }
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [applyShareState, resetCourseEditing]);
+
   const initializeMapAndMarker = useCallback((map: google.maps.Map) => {
     mapRef.current = map;
+    // A share link takes precedence over the current location
+    const sharedState = parseShareSearch(window.location.search);
+    if (sharedState) {
+      map.setCenter(sharedState.startPoint);
+      applyShareState(sharedState);
+      return;
+    }
     // Attempt to get user's current location first
     if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
@@ -38,78 +512,425 @@ const App: React.FC = () => {
             lng: position.coords.longitude,
           };
           setCurrentMapCenter(newCenter);
-          const initialStartPoint = new window.google.maps.LatLng(newCenter.lat, newCenter.lng);
-          setUserStartPoint(initialStartPoint);
+          setUserStartPoint(newCenter);
           map.setCenter(newCenter);
           map.setZoom(DEFAULT_ZOOM + 2); // Zoom in a bit more for current location
         },
         () => { // Error or permission denied
-          const defaultLatLng = new window.google.maps.LatLng(DEFAULT_LATITUDE, DEFAULT_LONGITUDE);
+          const defaultLatLng = { lat: DEFAULT_LATITUDE, lng: DEFAULT_LONGITUDE };
           setUserStartPoint(defaultLatLng);
           map.setCenter(defaultLatLng); // Fallback to default
         }
       );
     } else { // Geolocation not supported
-      const defaultLatLng = new window.google.maps.LatLng(DEFAULT_LATITUDE, DEFAULT_LONGITUDE);
+      const defaultLatLng = { lat: DEFAULT_LATITUDE, lng: DEFAULT_LONGITUDE };
       setUserStartPoint(defaultLatLng);
       map.setCenter(defaultLatLng);
     }
+  }, [applyShareState]);
+
+  const handleCopyShareLink = useCallback(async () => {
+    if (!generatedCourse || !courseSettings) return;
+    const search = buildShareSearch(generatedCourse.startPoint, courseSettings.desiredDistanceKm, courseSettings.options, generatedCourse);
+    const url = `${window.location.origin}${window.location.pathname}${search}`;
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch {
+      window.prompt("Copy this link / このリンクをコピー", url);
+    }
+  }, [generatedCourse, courseSettings]);
+
+  const handleExportCourse = useCallback((format: ExportFormat) => {
+    if (generatedCourse) {
+      downloadCourse(generatedCourse, format);
+    }
+  }, [generatedCourse]);
+
+  const handleRouteClick = useCallback((location: LatLngLiteral) => {
+    if (generatedCourse) {
+      setHighlightedDistanceM(nearestProfileDistance(generatedCourse.elevationProfile, location));
+    }
+  }, [generatedCourse]);
+
+  const highlightedPoint = useMemo(
+    () => generatedCourse && highlightedDistanceM !== null
+      ? locationAtDistance(generatedCourse.elevationProfile, highlightedDistanceM)
+      : null,
+    [generatedCourse, highlightedDistanceM]
+  );
+
+  const stopRun = useCallback(() => {
+    stopRunRef.current?.();
+    stopRunRef.current = null;
+    runCourseRef.current = null;
+    setRunState(null);
+    setRunSourceName(null);
+    setRouteBackPath([]);
   }, []);
 
+  // Follows the shown course with positions from `source`; the planned splits use the active pace profile
+  const startRun = useCallback((source: PositionSource) => {
+    if (!generatedCourse) return;
+    stopRun();
+    runCourseRef.current = prepareRunCourse(generatedCourse, paceProfileRef.current);
+    setIsEditingRoute(false);
+    setRunError(null);
+    setRunState(INITIAL_RUN_STATE);
+    setRunSourceName(source.name);
+    stopRunRef.current = source.watch(
+      (fix) => setRunState((state) => (state && runCourseRef.current ? advanceRun(state, fix, runCourseRef.current) : state)),
+      setRunError
+    );
+  }, [generatedCourse, stopRun]);
 
-  const handleMarkerDragEnd = useCallback((newPosition: google.maps.LatLng) => {
-    setUserStartPoint(newPosition);
-    setGeneratedCourse(null); // Clear previous course on marker move
+  const handleStartRun = useCallback(() => {
+    startRun(geolocationPositionSource);
+  }, [startRun]);
+
+  const handleReplayRun = useCallback(async (file: File, speed: number) => {
+    try {
+      const activity = parseActivityFile(file.name, await file.arrayBuffer());
+      startRun(createReplayPositionSource(activityFixes(activity), speed));
+    } catch (err) {
+      setRunError(err instanceof Error ? err.message : "Could not read the recording.");
+    }
+  }, [startRun]);
+
+  // A run follows one course; showing a different route ends it
+  const courseRoute = generatedCourse?.route;
+  useEffect(() => stopRun, [courseRoute, stopRun]);
+
+  // Alert once when the runner leaves the course; a route back is dropped once they are on it again
+  const isOffCourse = runState?.isOffCourse ?? false;
+  useEffect(() => {
+    if (isOffCourse) {
+      navigator.vibrate?.([300, 150, 300]);
+    } else {
+      setRouteBackPath([]);
+    }
+  }, [isOffCourse]);
+
+  const handleRouteBack = useCallback(async () => {
+    const runCourse = runCourseRef.current;
+    const from = runState?.lastFix?.location;
+    const destination = runState && runCourse ? rejoinPoint(runState, runCourse) : null;
+    if (!from || !destination) return;
+    setIsRoutingBack(true);
+    setRunError(null);
+    try {
+      const route = await getProviders().routing.route({ origin: from, destination, waypoints: [] });
+      if (route) {
+        setRouteBackPath(route.path);
+      } else {
+        setRunError("No route back to the course was found.");
+      }
+    } catch (err) {
+      setRunError(toGenerationError(err).message);
+    } finally {
+      setIsRoutingBack(false);
+    }
+  }, [runState, getProviders]);
+
+  const runProgress = useMemo(
+    () => (runState && runCourseRef.current ? describeRun(runState, runCourseRef.current) : null),
+    [runState]
+  );
+
+  // Shown on the course while on it, at the actual position while off it
+  const runner = useMemo(() => {
+    const fix = runState?.lastFix;
+    if (!runState || !fix) return null;
+    return {
+      location: runState.isOffCourse ? fix.location : runState.snappedLocation ?? fix.location,
+      isOffCourse: runState.isOffCourse,
+    };
+  }, [runState]);
+
+  const handleSaveCourse = useCallback(async (details: { name: string; tags: string[]; notes: string }) => {
+    if (!generatedCourse || !courseSettings) return;
+    const saved = createSavedCourse(generatedCourse, details, {
+      desiredDistanceKm: courseSettings.desiredDistanceKm,
+      generationOptions: courseSettings.options,
+    });
+    try {
+      await saveCourse(saved);
+      setSavedCourses((courses) => [saved, ...courses]);
+      setLibraryError(null);
+    } catch (err) {
+      setLibraryError(err instanceof Error ? err.message : "Could not save the course.");
+    }
+  }, [generatedCourse, courseSettings]);
+
+  const handleOpenSavedCourse = useCallback((saved: SavedCourse) => {
+    setUserStartPoint(saved.course.startPoint);
+    setDesiredDistanceKm(saved.desiredDistanceKm);
+    setGenerationOptions(saved.generationOptions);
+    setGeneratedCourse(applyPaceProfile(saved.course, paceProfileRef.current));
+    setCourseSettings({ desiredDistanceKm: saved.desiredDistanceKm, options: saved.generationOptions });
+    setHighlightedDistanceM(null);
     setError(null);
+    resetCourseEditing();
+    window.history.pushState(null, '', buildShareSearch(saved.course.startPoint, saved.desiredDistanceKm, saved.generationOptions, saved.course));
+    if (mapRef.current) {
+      mapRef.current.fitBounds(saved.course.route.bounds);
+    }
+  }, [resetCourseEditing]);
+
+  const handleImportActivity = useCallback(async (file: File) => {
+    try {
+      const activity = parseActivityFile(file.name, await file.arrayBuffer());
+      setImportedActivity(activity);
+      setActivityError(null);
+      mapRef.current?.fitBounds(computeBounds(activity.points.map((p) => p.location)));
+    } catch (err) {
+      setActivityError(err instanceof Error ? err.message : "Could not read the recording.");
+    }
   }, []);
 
-  const handleDistanceChange = useCallback((newDistance: number) => {
-    setDesiredDistanceKm(newDistance);
+  const handleClearActivity = useCallback(() => {
+    setImportedActivity(null);
+    setActivityError(null);
   }, []);
 
-  const handleGenerateCourse = useCallback(async () => {
-    if (!userStartPoint) {
-      setError("Please set a start point on the map.");
-      return;
+  // Shows the recorded run as a course of its own, with elevation and stats recomputed like a generated course
+  const handleUseActivityAsCourse = useCallback(async () => {
+    if (!importedActivity) return;
+    setIsBuildingCourse(true);
+    setActivityError(null);
+    try {
+      const { course, desiredDistanceKm, options } = await buildCourseFromActivity(importedActivity, getProviders(), paceProfileRef.current);
+      setUserStartPoint(course.startPoint);
+      setDesiredDistanceKm(desiredDistanceKm);
+      setGenerationOptions(options);
+      setGeneratedCourse(course);
+      setCourseSettings({ desiredDistanceKm, options });
+      setHighlightedDistanceM(null);
+      setError(null);
+      resetCourseEditing();
+      window.history.pushState(null, '', buildShareSearch(course.startPoint, desiredDistanceKm, options, course));
+      mapRef.current?.fitBounds(course.route.bounds);
+    } catch (err) {
+      setActivityError(toGenerationError(err).message);
+    } finally {
+      setIsBuildingCourse(false);
     }
-    if (desiredDistanceKm <= 0) {
-      setError("Please enter a valid distance greater than 0 km.");
-      return;
+  }, [importedActivity, getProviders, resetCourseEditing]);
+
+  const activityComparison = useMemo(
+    () => (importedActivity && generatedCourse ? compareActivity(importedActivity, generatedCourse, activePaceProfile) : null),
+    [importedActivity, generatedCourse, activePaceProfile]
+  );
+
+  const recordedTrack = useMemo(() => importedActivity?.points.map((p) => p.location) ?? [], [importedActivity]);
+
+  // Starts a workout can use: the current start point, then the favourite and recent starts
+  const planStarts = useMemo(() => {
+    const current = userStartPoint ? [{ label: startLabel ?? formatCoordinates(userStartPoint), location: userStartPoint }] : [];
+    return [...current, ...startLocations.map(({ label, location }) => ({ label, location }))];
+  }, [userStartPoint, startLabel, startLocations]);
+
+  const handleGeneratePlan = useCallback(async () => {
+    planAbortRef.current?.abort();
+    const controller = new AbortController();
+    planAbortRef.current = controller;
+    setIsPlanning(true);
+    setPlanError(null);
+    setPlannedWorkouts([]);
+    try {
+      await generateTrainingPlan(planWorkouts, getProviders(), paceProfileRef.current, generationOptions, routeConstraintsRef.current, {
+        signal: controller.signal,
+        onWorkoutPlanned: (planned) => {
+          if (!controller.signal.aborted) setPlannedWorkouts((list) => [...(list ?? []), planned]);
+        },
+      });
+    } catch (err) {
+      if (!isAbortError(err)) setPlanError(toGenerationError(err).message);
+    } finally {
+      if (planAbortRef.current === controller) {
+        planAbortRef.current = null;
+        setIsPlanning(false);
+      }
     }
+  }, [planWorkouts, generationOptions, getProviders]);
 
-    setIsLoading(true);
+  const handleCancelPlan = useCallback(() => {
+    planAbortRef.current?.abort();
+  }, []);
+
+  useEffect(() => () => planAbortRef.current?.abort(), []);
+
+  // Plan courses follow the active pace profile like the shown course does
+  const plannedWithPace = useMemo(
+    () => plannedWorkouts?.map((p) => (p.course ? { ...p, course: applyPaceProfile(p.course, activePaceProfile) } : p)) ?? null,
+    [plannedWorkouts, activePaceProfile]
+  );
+
+  const handleShowPlannedWorkout = useCallback((planned: PlannedWorkout) => {
+    if (!planned.course) return;
+    const { course, workout } = planned;
+    const options = workoutOptions(workout, generationOptions);
+    setUserStartPoint(course.startPoint);
+    setDesiredDistanceKm(workout.desiredDistanceKm);
+    setGenerationOptions(options);
+    setGeneratedCourse(course);
+    setCourseSettings({ desiredDistanceKm: workout.desiredDistanceKm, options });
+    setCandidateSet(null);
+    setHighlightedDistanceM(null);
     setError(null);
-    setGeneratedCourse(null);
+    resetCourseEditing();
+    window.history.pushState(null, '', buildShareSearch(course.startPoint, workout.desiredDistanceKm, options, course));
+    if (mapRef.current) {
+      mapRef.current.fitBounds(course.route.bounds);
+    }
+  }, [generationOptions, resetCourseEditing]);
+
+  const handleExportPlan = useCallback((format: ExportFormat) => {
+    const courses = (plannedWithPace ?? []).flatMap((p) => (p.course ? [{ course: p.course, name: workoutTitle(p.workout) }] : []));
+    if (courses.length > 0) downloadCourses(courses, format, 'training-plan');
+  }, [plannedWithPace]);
 
+  const handleRenameSavedCourse = useCallback(async (id: string, name: string) => {
     try {
-      const optimalRouteData: OptimalRouteData | null = await findOptimalLoopRoute(
-        userStartPoint,
-        desiredDistanceKm
-      );
+      const updated = await updateSavedCourse(id, { name });
+      setSavedCourses((courses) => courses.map((c) => (c.id === id ? updated : c)));
+      setLibraryError(null);
+    } catch (err) {
+      setLibraryError(err instanceof Error ? err.message : "Could not rename the course.");
+    }
+  }, []);
 
-      if (optimalRouteData) {
-        const estimatedTimeMin = optimalRouteData.distanceKm * DEFAULT_PACE_MIN_PER_KM;
-        const stats: RouteStats = {
-          totalDistanceKm: parseFloat(optimalRouteData.distanceKm.toFixed(1)),
-          cumulativeElevationGainM: parseFloat(optimalRouteData.elevationGainM.toFixed(0)),
-          estimatedTimeMin: parseFloat(estimatedTimeMin.toFixed(0)),
-        };
-        setGeneratedCourse({ directionsResult: optimalRouteData.route, stats });
-        if (mapRef.current) {
-           const bounds = optimalRouteData.route.routes[0].bounds;
-           if (bounds) mapRef.current.fitBounds(bounds);
-        }
+  const handleDeleteSavedCourse = useCallback(async (id: string) => {
+    try {
+      await deleteSavedCourse(id);
+      setSavedCourses((courses) => courses.filter((c) => c.id !== id));
+      setLibraryError(null);
+    } catch (err) {
+      setLibraryError(err instanceof Error ? err.message : "Could not delete the course.");
+    }
+  }, []);
 
-      } else {
-        setError("Could not find a suitable course. Try adjusting the distance or start point.");
-      }
+  // Re-routes the shown course through new via points, recording the previous course for undo
+  const applyCourseEdit = useCallback(async (viaPoints: LatLngLiteral[]) => {
+    if (!generatedCourse || !courseSettings || isRerouting) return;
+    const before = generatedCourse;
+    const { desiredDistanceKm, options } = courseSettings;
+    setIsRerouting(true);
+    setEditError(null);
+    try {
+      const edited = await rerouteCourse(before, viaPoints, getProviders(), desiredDistanceKm, paceProfileRef.current);
+      setEditHistory((history) => ({ past: [...history.past, before], future: [] }));
+      setGeneratedCourse(edited);
+      setHighlightedDistanceM(null);
+      window.history.replaceState(null, '', buildShareSearch(edited.startPoint, desiredDistanceKm, options, edited));
     } catch (err) {
-      console.error("Course generation error:", err);
-      setError(err instanceof Error ? err.message : "An unknown error occurred during course generation.");
+      setEditError(err instanceof Error ? err.message : "Could not re-route the course.");
     } finally {
-      setIsLoading(false);
+      setIsRerouting(false);
     }
-  }, [userStartPoint, desiredDistanceKm]);
+  }, [generatedCourse, courseSettings, isRerouting, getProviders]);
+
+  // Generated candidates report constraint violations in the comparison; an edited course is checked here,
+  // against the constraints as they are now
+  const editWarnings = useMemo(
+    () => (generatedCourse?.source === 'edited' ? constraintWarnings(generatedCourse.route.path, routeConstraints) : []),
+    [generatedCourse, routeConstraints]
+  );
+
+  const handleRouteDrag = useCallback((grabLocation: LatLngLiteral, dropLocation: LatLngLiteral) => {
+    if (generatedCourse) void applyCourseEdit(insertViaPoint(generatedCourse, grabLocation, dropLocation));
+  }, [generatedCourse, applyCourseEdit]);
+
+  const handleViaPointMove = useCallback((index: number, location: LatLngLiteral) => {
+    if (generatedCourse) void applyCourseEdit(moveViaPoint(generatedCourse.viaPoints, index, location));
+  }, [generatedCourse, applyCourseEdit]);
+
+  const handleViaPointRemove = useCallback((index: number) => {
+    if (generatedCourse) void applyCourseEdit(removeViaPoint(generatedCourse.viaPoints, index));
+  }, [generatedCourse, applyCourseEdit]);
+
+  // Undo/redo swap whole course states; the estimated time follows the current pace profile
+  const handleUndoEdit = useCallback(() => {
+    const previous = editHistory.past[editHistory.past.length - 1];
+    if (!previous || !generatedCourse) return;
+    setEditHistory({ past: editHistory.past.slice(0, -1), future: [generatedCourse, ...editHistory.future] });
+    setGeneratedCourse(applyPaceProfile(previous, paceProfileRef.current));
+    setHighlightedDistanceM(null);
+  }, [editHistory, generatedCourse]);
+
+  const handleRedoEdit = useCallback(() => {
+    const [next, ...rest] = editHistory.future;
+    if (!next || !generatedCourse) return;
+    setEditHistory({ past: [...editHistory.past, generatedCourse], future: rest });
+    setGeneratedCourse(applyPaceProfile(next, paceProfileRef.current));
+    setHighlightedDistanceM(null);
+  }, [editHistory, generatedCourse]);
+
+  // Avoidance zones and must-pass pins are updated in state right away and persisted in the background
+  const persistConstraint = useCallback((save: Promise<void>) => {
+    save
+      .then(() => setConstraintsError(null))
+      .catch((err) => setConstraintsError(err instanceof Error ? err.message : "Could not save the change."));
+  }, []);
+
+  const handleAddAvoidZone = useCallback((polygon: LatLngLiteral[]) => {
+    const zone = createAvoidZone(polygon, `Zone ${routeConstraintsRef.current.avoidZones.length + 1}`);
+    setRouteConstraints((c) => ({ ...c, avoidZones: [...c.avoidZones, zone] }));
+    persistConstraint(saveAvoidZone(zone));
+  }, [persistConstraint]);
+
+  const handleAvoidZoneChange = useCallback((zone: AvoidZone) => {
+    setRouteConstraints((c) => ({ ...c, avoidZones: c.avoidZones.map((z) => (z.id === zone.id ? zone : z)) }));
+    persistConstraint(saveAvoidZone(zone));
+  }, [persistConstraint]);
+
+  const handleDeleteAvoidZone = useCallback((id: string) => {
+    setRouteConstraints((c) => ({ ...c, avoidZones: c.avoidZones.filter((z) => z.id !== id) }));
+    persistConstraint(deleteAvoidZone(id));
+  }, [persistConstraint]);
+
+  const handleAddMustPassPoint = useCallback((location: LatLngLiteral) => {
+    const point = createMustPassPoint(location, `Pin ${routeConstraintsRef.current.mustPassPoints.length + 1}`);
+    setRouteConstraints((c) => ({ ...c, mustPassPoints: [...c.mustPassPoints, point] }));
+    persistConstraint(saveMustPassPoint(point));
+  }, [persistConstraint]);
+
+  const handleMustPassPointChange = useCallback((point: MustPassPoint) => {
+    setRouteConstraints((c) => ({ ...c, mustPassPoints: c.mustPassPoints.map((p) => (p.id === point.id ? point : p)) }));
+    persistConstraint(saveMustPassPoint(point));
+  }, [persistConstraint]);
+
+  const handleDeleteMustPassPoint = useCallback((id: string) => {
+    setRouteConstraints((c) => ({ ...c, mustPassPoints: c.mustPassPoints.filter((p) => p.id !== id) }));
+    persistConstraint(deleteMustPassPoint(id));
+  }, [persistConstraint]);
+
+  const gradeSegments = useMemo(
+    () => generatedCourse ? buildGradeSegments(generatedCourse.route, generatedCourse.elevationProfile) : [],
+    [generatedCourse]
+  );
+
+  const workoutOverlay = useMemo(
+    () => (isWorkoutShown && generatedCourse ? buildWorkoutOverlay(generatedCourse, workoutStructure) : null),
+    [isWorkoutShown, generatedCourse, workoutStructure]
+  );
+
+  const steepSections = useMemo(
+    () => generatedCourse ? detectSteepSections(generatedCourse.elevationProfile, steepSectionThresholds) : [],
+    [generatedCourse, steepSectionThresholds]
+  );
+
+  const kmSplits = useMemo(
+    () => generatedCourse
+      ? estimateCourseTime(generatedCourse.elevationProfile, generatedCourse.route.distanceMeters, activePaceProfile).splits
+      : [],
+    [generatedCourse, activePaceProfile]
+  );
+
+  const cues = useMemo(() => (generatedCourse ? buildCueSheet(generatedCourse) : []), [generatedCourse]);
+
+  const handlePrintCueSheet = useCallback(() => {
+    window.print();
+  }, []);
 
   const handleGoToCurrentLocation = useCallback(() => {
     if (navigator.geolocation && mapRef.current) {
@@ -121,13 +942,13 @@ const App: React.FC = () => {
             lng: position.coords.longitude,
           };
           setCurrentMapCenter(newCenter);
-          const newStartPoint = new window.google.maps.LatLng(newCenter.lat, newCenter.lng);
-          setUserStartPoint(newStartPoint);
+          setUserStartPoint(newCenter);
           if(mapRef.current) {
             mapRef.current.panTo(newCenter);
             mapRef.current.setZoom(DEFAULT_ZOOM + 2);
           }
           setGeneratedCourse(null); // Clear course
+          resetCourseEditing();
           setError(null);
           setIsLoading(false);
         },
@@ -139,7 +960,7 @@ const App: React.FC = () => {
     } else {
       setError("Geolocation is not supported by your browser or map not ready.");
     }
-  }, []);
+  }, [resetCourseEditing]);
   
   if (!isGoogleMapsApiLoaded) {
     return (
@@ -164,34 +985,175 @@ const App: React.FC = () => {
   }
 
   return (
-    <div className="flex flex-col h-screen font-sans">
-      <header className="bg-blue-600 text-white p-4 shadow-md">
-        <h1 className="text-2xl font-bold text-center">Running Course Generator</h1>
-      </header>
-      <main className="flex-grow flex flex-col md:flex-row overflow-hidden">
-        <div className="w-full md:w-1/3 lg:w-1/4 p-4 bg-gray-50 border-r border-gray-200 overflow-y-auto">
-          <ControlPanel
-            desiredDistanceKm={desiredDistanceKm}
-            onDistanceChange={handleDistanceChange}
-            onGenerateCourse={handleGenerateCourse}
-            generatedStats={generatedCourse?.stats ?? null}
-            isLoading={isLoading}
-            error={error}
-          />
-        </div>
-        <div className="flex-grow h-64 md:h-full relative">
-          <MapComponent
-            center={currentMapCenter}
-            zoom={DEFAULT_ZOOM}
-            startPoint={userStartPoint}
-            onMarkerDragEnd={handleMarkerDragEnd}
-            routeResult={generatedCourse?.directionsResult ?? null}
-            onMapLoad={initializeMapAndMarker}
-            onGoToCurrentLocation={handleGoToCurrentLocation}
-          />
-        </div>
-      </main>
-    </div>
+    <>
+      <div className="flex flex-col h-screen font-sans print:hidden">
+        <header className="bg-blue-600 text-white p-4 shadow-md">
+          <h1 className="text-2xl font-bold text-center">Running Course Generator</h1>
+        </header>
+        <main className="flex-grow flex flex-col md:flex-row overflow-hidden">
+          <div className="w-full md:w-1/3 lg:w-1/4 p-4 bg-gray-50 border-r border-gray-200 overflow-y-auto">
+            <StartLocationPanel
+              startPoint={userStartPoint}
+              startLabel={startLabel}
+              onSearch={handleSearchPlaces}
+              autocomplete={isPlaceAutocompleteEnabled}
+              onSelectSuggestion={handleSelectSuggestion}
+              startLocations={startLocations}
+              isFavourite={userStartPoint !== null && isFavouriteStart(startLocations, userStartPoint)}
+              onToggleFavourite={handleToggleFavouriteStart}
+              onSelectStartLocation={handleSelectStartLocation}
+              onRemoveStartLocation={handleRemoveStartLocation}
+              disabled={isLoading}
+              error={startLocationError}
+            />
+            <ControlPanel
+              desiredDistanceKm={desiredDistanceKm}
+              onDistanceChange={handleDistanceChange}
+              generationOptions={generationOptions}
+              onGenerationOptionsChange={handleGenerationOptionsChange}
+              onGenerateCourse={handleGenerateCourse}
+              onCancelGeneration={handleCancelGeneration}
+              generationProgress={generationProgress}
+              generationDiagnostics={generationDiagnostics}
+              generatedStats={generatedCourse?.stats ?? null}
+              courseSource={generatedCourse?.source ?? null}
+              routeEditing={{
+                isEditing: isEditingRoute,
+                onToggleEditing: () => setIsEditingRoute((editing) => !editing),
+                isRerouting,
+                canUndo: editHistory.past.length > 0,
+                canRedo: editHistory.future.length > 0,
+                onUndo: handleUndoEdit,
+                onRedo: handleRedoEdit,
+                error: editError,
+                warnings: editWarnings,
+              }}
+              elevationProfile={generatedCourse?.elevationProfile ?? null}
+              highlightedDistanceM={highlightedDistanceM}
+              onHighlightDistance={setHighlightedDistanceM}
+              steepSections={steepSections}
+              steepSectionThresholds={steepSectionThresholds}
+              onSteepSectionThresholdsChange={setSteepSectionThresholds}
+              paceProfiles={paceSettings.profiles}
+              activePaceProfileId={activePaceProfile.id}
+              onPaceProfileSelect={handlePaceProfileSelect}
+              onPaceProfilesChange={handlePaceProfilesChange}
+              kmSplits={kmSplits}
+              cues={cues}
+              onPrintCueSheet={handlePrintCueSheet}
+              candidates={comparedCandidates}
+              selectedCandidateRank={selectedCandidateRank}
+              onSelectCandidate={handleSelectCandidate}
+              onExportCourse={handleExportCourse}
+              onCopyShareLink={handleCopyShareLink}
+              isLoading={isLoading}
+              error={error}
+            />
+            <WorkoutPanel
+              structure={workoutStructure}
+              onStructureChange={setWorkoutStructure}
+              isShown={isWorkoutShown}
+              onShownChange={setIsWorkoutShown}
+              canShow={generatedCourse !== null}
+              overlay={workoutOverlay}
+              onSelectSegment={setHighlightedDistanceM}
+            />
+            <RunAlongPanel
+              canStart={generatedCourse !== null && !isLoading && !isRerouting}
+              progress={runProgress}
+              sourceName={runSourceName}
+              onStartRun={handleStartRun}
+              onReplayRun={handleReplayRun}
+              onStopRun={stopRun}
+              onRouteBack={handleRouteBack}
+              isRoutingBack={isRoutingBack}
+              hasRouteBack={routeBackPath.length > 0}
+              error={runError}
+            />
+            <ActivityImportPanel
+              activity={importedActivity}
+              comparison={activityComparison}
+              onImport={handleImportActivity}
+              onClear={handleClearActivity}
+              onUseAsCourse={handleUseActivityAsCourse}
+              isBuildingCourse={isBuildingCourse}
+              error={activityError}
+            />
+            <RouteConstraintsPanel
+              avoidZones={routeConstraints.avoidZones}
+              onAvoidZoneChange={handleAvoidZoneChange}
+              onDeleteAvoidZone={handleDeleteAvoidZone}
+              mustPassPoints={routeConstraints.mustPassPoints}
+              onMustPassPointChange={handleMustPassPointChange}
+              onDeleteMustPassPoint={handleDeleteMustPassPoint}
+              error={constraintsError}
+            />
+            <CourseLibrary
+              savedCourses={savedCourses}
+              canSave={generatedCourse !== null && !isLoading}
+              startPoint={userStartPoint}
+              onSaveCourse={handleSaveCourse}
+              onOpenCourse={handleOpenSavedCourse}
+              onRenameCourse={handleRenameSavedCourse}
+              onDeleteCourse={handleDeleteSavedCourse}
+              error={libraryError}
+            />
+            <TrainingPlanPanel
+              workouts={planWorkouts}
+              onWorkoutsChange={setPlanWorkouts}
+              starts={planStarts}
+              planned={plannedWithPace}
+              totals={plannedWithPace ? planTotals(plannedWithPace) : null}
+              isPlanning={isPlanning}
+              onGeneratePlan={handleGeneratePlan}
+              onCancelPlan={handleCancelPlan}
+              onShowWorkout={handleShowPlannedWorkout}
+              onExportPlan={handleExportPlan}
+              error={planError}
+            />
+            <ServiceDiagnostics diagnostics={serviceDiagnostics} onClearCache={handleClearServiceCache} />
+          </div>
+          <div className="flex-grow h-64 md:h-full relative">
+            <MapComponent
+              center={currentMapCenter}
+              zoom={DEFAULT_ZOOM}
+              startPoint={userStartPoint}
+              onMarkerDragEnd={handleMarkerDragEnd}
+              onPickStartPoint={handleMarkerDragEnd}
+              finishPoint={generationOptions.mode === 'point-to-point' ? generationOptions.finishPoint : null}
+              onFinishMarkerDragEnd={handleFinishMarkerDragEnd}
+              isFinishLocked={isEditingRoute || runState !== null}
+              turnaroundPoint={generatedCourse?.turnaroundPoint ?? null}
+              route={generatedCourse?.route ?? null}
+              gradeSegments={gradeSegments}
+              workoutSegments={workoutOverlay?.segments ?? NO_WORKOUT_SEGMENTS}
+              workoutMarkers={workoutOverlay?.markers ?? NO_WORKOUT_MARKERS}
+              highlightedPoint={highlightedPoint}
+              runner={runner}
+              routeBackPath={routeBackPath}
+              recordedTrack={recordedTrack}
+              onRouteClick={handleRouteClick}
+              isEditingRoute={isEditingRoute && !isRerouting}
+              viaPoints={generatedCourse?.viaPoints ?? []}
+              onRouteDrag={handleRouteDrag}
+              onViaPointMove={handleViaPointMove}
+              onViaPointRemove={handleViaPointRemove}
+              alternativeRoutes={alternativeRoutes}
+              onAlternativeRouteClick={handleSelectCandidate}
+              avoidZones={routeConstraints.avoidZones}
+              onAddAvoidZone={handleAddAvoidZone}
+              onAvoidZoneChange={handleAvoidZoneChange}
+              mustPassPoints={routeConstraints.mustPassPoints}
+              onAddMustPassPoint={handleAddMustPassPoint}
+              onMustPassPointChange={handleMustPassPointChange}
+              onMapLoad={initializeMapAndMarker}
+              onGoToCurrentLocation={handleGoToCurrentLocation}
+            />
+          </div>
+        </main>
+      </div>
+      {generatedCourse && <PrintableCourse course={generatedCourse} cues={cues} splits={kmSplits} />}
+    </>
   );
 };
 
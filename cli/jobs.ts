@@ -0,0 +1,103 @@
+import type { ElevationObjective, ExportFormat, GenerationOptions, LatLngLiteral, PaceProfile } from '../types';
+import { DEFAULT_GENERATION_OPTIONS } from '../constants';
+import { COURSE_MODES } from '../services/courseModes';
+import { LOOP_STRATEGIES } from '../services/loopStrategies';
+import { EXPORT_FORMATS } from '../services/exportService';
+import { DEFAULT_PACE_PROFILES, parseMinutes } from '../services/paceModel';
+
+// One course to generate, from the command-line flags or one row of a batch CSV. CSV columns use the
+// flag names (lat, lng, address, distance, mode, ...); a value in the row overrides the flag.
+
+export type JobFields = Record<string, string | undefined>;
+
+export interface CourseJob {
+  name: string;
+  startPoint: LatLngLiteral | null; // null when the start is given as an address
+  address: string | null;
+  desiredDistanceKm: number;
+  options: GenerationOptions;
+  pace: PaceProfile;
+  formats: ExportFormat[];
+}
+
+const ELEVATION_OBJECTIVES: Record<ElevationObjective, true> = { minimize: true, maximize: true, target: true };
+
+const present = (value: string | undefined): value is string => value !== undefined && value.trim() !== '';
+
+const parseNumber = (fields: JobFields, key: string): number | null => {
+  const value = fields[key];
+  if (!present(value)) return null;
+  const number = Number(value);
+  if (!Number.isFinite(number)) throw new Error(`Invalid ${key}: "${value}" is not a number.`);
+  return number;
+};
+
+const parseChoice = <T extends string>(fields: JobFields, key: string, choices: Record<T, unknown>, fallback: T): T => {
+  const value = fields[key];
+  if (!present(value)) return fallback;
+  // Own keys only: `in` would also accept inherited names such as "constructor" (Object.hasOwn needs ES2022)
+  if (!Object.prototype.hasOwnProperty.call(choices, value)) throw new Error(`Invalid ${key}: "${value}". Expected one of ${Object.keys(choices).join(', ')}.`);
+  return value as T;
+};
+
+const parsePoint = (fields: JobFields, latKey: string, lngKey: string): LatLngLiteral | null => {
+  const lat = parseNumber(fields, latKey);
+  const lng = parseNumber(fields, lngKey);
+  if (lat === null && lng === null) return null;
+  if (lat === null || lng === null || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    throw new Error(`${latKey} and ${lngKey} must both be given as valid coordinates.`);
+  }
+  return { lat, lng };
+};
+
+// Throws an Error describing the first invalid or missing setting.
+export const parseJob = (fields: JobFields, fallbackName: string): CourseJob => {
+  const startPoint = parsePoint(fields, 'lat', 'lng');
+  const address = present(fields.address) ? fields.address.trim() : null;
+  if (!startPoint && !address) throw new Error('A start is required: give lat and lng, or an address.');
+
+  const desiredDistanceKm = parseNumber(fields, 'distance');
+  if (desiredDistanceKm === null || desiredDistanceKm <= 0) throw new Error('distance (km) must be greater than 0.');
+
+  const mode = parseChoice(fields, 'mode', COURSE_MODES, DEFAULT_GENERATION_OPTIONS.mode);
+  const finishPoint = parsePoint(fields, 'finish-lat', 'finish-lng');
+  if (mode === 'point-to-point' && !finishPoint) throw new Error('Point-to-point courses need finish-lat and finish-lng.');
+
+  const objective = parseChoice(fields, 'elevation', ELEVATION_OBJECTIVES, DEFAULT_GENERATION_OPTIONS.elevation.objective);
+  const defaults = DEFAULT_GENERATION_OPTIONS;
+  const options: GenerationOptions = {
+    mode,
+    finishPoint,
+    strategy: parseChoice(fields, 'strategy', LOOP_STRATEGIES, defaults.strategy),
+    rotationDegrees: parseNumber(fields, 'rotation') ?? defaults.rotationDegrees,
+    radiusScale: parseNumber(fields, 'radius-scale') ?? defaults.radiusScale,
+    elevation: {
+      objective,
+      targetGainM: parseNumber(fields, 'target-gain') ?? defaults.elevation.targetGainM,
+      maxGradePercent: parseNumber(fields, 'max-grade') ?? defaults.elevation.maxGradePercent,
+    },
+  };
+
+  let pace = DEFAULT_PACE_PROFILES[0];
+  if (present(fields.pace)) {
+    const flatPaceMinPerKm = parseMinutes(fields.pace);
+    if (flatPaceMinPerKm === null) throw new Error(`Invalid pace: "${fields.pace}". Use min/km as m:ss, e.g. 5:30.`);
+    pace = { ...pace, id: 'cli', name: `${fields.pace} /km`, flatPaceMinPerKm };
+  }
+
+  const formats = (fields.format ?? 'gpx-track,geojson')
+    .split(',')
+    .map((format) => format.trim())
+    .filter(Boolean)
+    .map((format) => parseChoice({ format }, 'format', EXPORT_FORMATS, 'gpx-track'));
+
+  return {
+    name: present(fields.name) ? fields.name.trim() : fallbackName,
+    startPoint,
+    address,
+    desiredDistanceKm,
+    options,
+    pace,
+    formats,
+  };
+};
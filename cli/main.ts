@@ -0,0 +1,252 @@
+import { parseArgs } from 'node:util';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { CourseMode, GenerationDiagnostics, Geocoder, LatLngLiteral, MapProviders, RouteStats } from '../types';
+import { findCandidateRoutes } from '../services/mapService';
+import { buildGeneratedCourse } from '../services/courseBuilder';
+import { exportCourse, exportFileName, safeFileBaseName } from '../services/exportService';
+import {
+  createGridGraph,
+  createHttpGeocoder,
+  createManagedProviders,
+  createProviders,
+  PUBLIC_NOMINATIM_MIN_INTERVAL_MS,
+  PUBLIC_NOMINATIM_URL,
+  type StreetGraph,
+} from '../services/providers';
+import { parseCsv } from './csv';
+import { parseJob, type CourseJob, type JobFields } from './jobs';
+
+// Headless course generator: runs the same candidate search and ranking as the app against an
+// OSRM/GraphHopper server or the in-memory street grid, and writes course files plus a stats summary.
+//
+//   npm run cli -- --lat 35.6895 --lng 139.6917 --distance 5 --provider in-memory
+//   npm run cli -- --batch events.csv --provider osrm --routing-url http://localhost:5000 --elevation-url http://localhost:8080
+
+const USAGE = `Usage: npm run cli -- [options]
+
+Course (also the column names of a --batch CSV, where row values override these flags):
+  --name <text>             Course name, used for the file names (default "course", or "course-<row>")
+  --lat <deg> --lng <deg>   Start point
+  --address <text>          Start address, geocoded when lat/lng are not given
+  --distance <km>           Desired distance (required)
+  --mode <mode>             loop | out-and-back | point-to-point (default loop)
+  --finish-lat/--finish-lng Finish point for point-to-point courses
+  --strategy <shape>        single-waypoint | triangle | square | circle (default square)
+  --rotation <deg>          Rotation of the candidate bearings (default 0)
+  --radius-scale <factor>   Multiplier on the waypoint radius (default 1)
+  --elevation <objective>   minimize | maximize | target (default minimize)
+  --target-gain <m>         Target elevation gain for --elevation target
+  --max-grade <percent>     Avoid routes steeper than this when possible
+  --pace <m:ss>             Flat pace per km for the time estimate
+  --format <list>           Comma-separated: gpx-track, gpx-route, tcx, kml, geojson (default gpx-track,geojson)
+
+Run:
+  --batch <file.csv>        Generate one course per CSV row and write summary.json
+  --out-dir <dir>           Output directory (default .)
+  --provider <kind>         osrm | graphhopper | in-memory (default osrm)
+  --routing-url <url>       OSRM / GraphHopper base URL
+  --elevation-url <url>     Open-Elevation compatible base URL
+  --routing-profile <name>  Routing profile (default foot)
+  --api-key <key>           GraphHopper API key
+  --graph <file.json>       Street graph fixture for --provider in-memory (default: a grid around each start)
+  --geocoder-url <url>      Nominatim compatible base URL (default https://nominatim.openstreetmap.org)
+  --help                    Show this help
+`;
+
+const COURSE_FLAGS = [
+  'name', 'lat', 'lng', 'address', 'distance', 'mode', 'finish-lat', 'finish-lng', 'strategy',
+  'rotation', 'radius-scale', 'elevation', 'target-gain', 'max-grade', 'pace', 'format',
+] as const;
+const RUN_FLAGS = [
+  'batch', 'out-dir', 'provider', 'routing-url', 'elevation-url', 'routing-profile', 'api-key', 'graph', 'geocoder-url',
+] as const;
+
+const USER_AGENT = 'running-course-generator-cli';
+
+// What a job produced, written to <name>.stats.json and collected in summary.json
+type JobSummary =
+  | {
+      name: string;
+      ok: true;
+      startPoint: LatLngLiteral;
+      mode: CourseMode;
+      desiredDistanceKm: number;
+      stats: RouteStats;
+      candidateCount: number;
+      files: string[];
+      diagnostics: GenerationDiagnostics;
+    }
+  | { name: string; ok: false; error: string; diagnostics?: GenerationDiagnostics };
+
+class UsageError extends Error {}
+
+const readFlags = (): Record<string, string | boolean | undefined> => {
+  try {
+    return parseArgs({
+      options: {
+        ...Object.fromEntries([...COURSE_FLAGS, ...RUN_FLAGS].map((flag) => [flag, { type: 'string' as const }])),
+        help: { type: 'boolean' },
+      },
+      strict: true,
+    }).values;
+  } catch (err) {
+    // Unknown flags or missing values
+    throw new UsageError((err as Error).message);
+  }
+};
+
+// Providers for one start point. The in-memory grid is built around the start unless a graph fixture is given.
+const createProviderFactory = async (flags: JobFields): Promise<(start: LatLngLiteral) => MapProviders> => {
+  const kind = flags.provider ?? 'osrm';
+  if (kind === 'in-memory') {
+    if (!flags.graph) return (start) => createProviders({ kind: 'in-memory', graph: createGridGraph(start) });
+    const graph = JSON.parse(await readFile(flags.graph, 'utf8')) as StreetGraph;
+    const providers = createProviders({ kind: 'in-memory', graph });
+    return () => providers;
+  }
+  if (kind !== 'osrm' && kind !== 'graphhopper') {
+    throw new UsageError(`Unknown --provider "${kind}". Expected osrm, graphhopper or in-memory.`);
+  }
+  if (!flags['routing-url'] || !flags['elevation-url']) {
+    throw new UsageError(`--provider ${kind} needs --routing-url and --elevation-url (or use --provider in-memory for an offline grid).`);
+  }
+  // Same caching, de-duplication and retries as the app; a local server needs no request budget
+  const providers = createManagedProviders(
+    createProviders({
+      kind: 'http',
+      api: kind,
+      routingBaseUrl: flags['routing-url'],
+      elevationBaseUrl: flags['elevation-url'],
+      profile: flags['routing-profile'],
+      apiKey: flags['api-key'],
+    }),
+    { store: null, sessionBudget: Infinity, dailyBudget: Infinity }
+  );
+  return () => providers;
+};
+
+const resolveStart = async (job: CourseJob, getGeocoder: () => Geocoder): Promise<LatLngLiteral> => {
+  if (job.startPoint) return job.startPoint;
+  const [match] = await getGeocoder().geocode(job.address!);
+  if (!match) throw new Error(`Address not found: "${job.address}".`);
+  return match.location;
+};
+
+const runJob = async (
+  job: CourseJob,
+  outDir: string,
+  providersFor: (start: LatLngLiteral) => MapProviders,
+  getGeocoder: () => Geocoder
+): Promise<JobSummary> => {
+  const startPoint = await resolveStart(job, getGeocoder);
+  const result = await findCandidateRoutes(startPoint, job.desiredDistanceKm, providersFor(startPoint), job.options);
+  if (!result.ok) return { name: job.name, ok: false, error: result.error.message, diagnostics: result.diagnostics };
+
+  const course = buildGeneratedCourse(result.candidates[0].route, startPoint, job.desiredDistanceKm, job.options, job.pace);
+  const files: string[] = [];
+  for (const format of job.formats) {
+    // Track and route GPX share an extension
+    const baseName = format === 'gpx-route' && job.formats.includes('gpx-track') ? `${job.name}-route` : job.name;
+    const file = path.join(outDir, exportFileName(baseName, format));
+    await writeFile(file, exportCourse(course, format, job.name));
+    files.push(file);
+  }
+  const summary: JobSummary = {
+    name: job.name,
+    ok: true,
+    startPoint,
+    mode: job.options.mode,
+    desiredDistanceKm: job.desiredDistanceKm,
+    stats: course.stats,
+    candidateCount: result.candidates.length,
+    files,
+    diagnostics: result.diagnostics,
+  };
+  const statsFile = path.join(outDir, `${safeFileBaseName(job.name)}.stats.json`);
+  await writeFile(statsFile, JSON.stringify(summary, null, 2));
+  return { ...summary, files: [...files, statsFile] };
+};
+
+const describe = (summary: JobSummary): string =>
+  summary.ok
+    ? `${summary.stats.totalDistanceKm} km, +${summary.stats.cumulativeElevationGainM} m -> ${summary.files.join(', ')}`
+    : `failed: ${summary.error}`;
+
+const main = async (): Promise<number> => {
+  const flags = readFlags();
+  if (flags.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  const fields = Object.fromEntries(
+    Object.entries(flags).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  ) as JobFields;
+
+  const rows: JobFields[] = fields.batch ? parseCsv(await readFile(fields.batch, 'utf8')) : [{}];
+  if (rows.length === 0) throw new UsageError(`${fields.batch} has no rows.`);
+  // An invalid batch row is reported in the summary without stopping the other rows
+  const jobs = rows.map((row, i): CourseJob | JobSummary => {
+    const merged = { ...fields, ...Object.fromEntries(Object.entries(row).filter(([, value]) => value !== '')) };
+    const fallbackName = fields.batch ? `course-${i + 1}` : 'course';
+    try {
+      return parseJob(merged, fallbackName);
+    } catch (err) {
+      if (!fields.batch) throw new UsageError((err as Error).message);
+      return { name: merged.name ?? fallbackName, ok: false, error: `Row ${i + 1}: ${(err as Error).message}` };
+    }
+  });
+
+  const outDir = fields['out-dir'] ?? '.';
+  await mkdir(outDir, { recursive: true });
+  const providersFor = await createProviderFactory(fields);
+  let geocoder: Geocoder | null = null;
+  const getGeocoder = (): Geocoder => {
+    if (!geocoder) {
+      // Batches can hold many addresses; the public server allows one request per second
+      const baseUrl = fields['geocoder-url'] ?? PUBLIC_NOMINATIM_URL;
+      geocoder = createHttpGeocoder({
+        baseUrl,
+        userAgent: USER_AGENT,
+        limit: 1,
+        minIntervalMs: baseUrl === PUBLIC_NOMINATIM_URL ? PUBLIC_NOMINATIM_MIN_INTERVAL_MS : 0,
+      });
+    }
+    return geocoder;
+  };
+
+  // One job at a time: the providers already run each job's candidate requests concurrently
+  const summaries: JobSummary[] = [];
+  for (const [i, job] of jobs.entries()) {
+    let summary: JobSummary;
+    if ('ok' in job) {
+      summary = job;
+    } else {
+      try {
+        summary = await runJob(job, outDir, providersFor, getGeocoder);
+      } catch (err) {
+        summary = { name: job.name, ok: false, error: err instanceof Error ? err.message : String(err) };
+      }
+    }
+    summaries.push(summary);
+    process.stderr.write(`[${i + 1}/${jobs.length}] ${job.name}: ${describe(summary)}\n`);
+  }
+
+  if (fields.batch) {
+    await writeFile(path.join(outDir, 'summary.json'), JSON.stringify(summaries, null, 2));
+  } else {
+    process.stdout.write(`${JSON.stringify(summaries[0], null, 2)}\n`);
+  }
+  return summaries.every((summary) => summary.ok) ? 0 : 1;
+};
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err) => {
+    process.stderr.write(`${err instanceof Error ? err.message : String(err)}\n`);
+    if (err instanceof UsageError) process.stderr.write('Run with --help for the available options.\n');
+    process.exitCode = err instanceof UsageError ? 2 : 1;
+  }
+);
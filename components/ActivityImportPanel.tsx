@@ -0,0 +1,149 @@
+import React, { useRef } from 'react';
+import type { ActivityComparison, RecordedActivity } from '../types';
+import { ACTIVITY_FILE_ACCEPT } from '../services/activityImport';
+import { formatMinutes } from '../services/paceModel';
+
+interface ActivityImportPanelProps {
+  activity: RecordedActivity | null;
+  comparison: ActivityComparison | null; // null when no course is shown to compare with
+  onImport: (file: File) => void;
+  onClear: () => void;
+  onUseAsCourse: () => void;
+  isBuildingCourse: boolean;
+  error: string | null;
+}
+
+const secondaryClass = 'px-3 py-1.5 text-xs font-medium rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed';
+
+const formatDelta = (actual: number, planned: number, format: (value: number) => string): string =>
+  `${actual >= planned ? '+' : '−'}${format(Math.abs(actual - planned))}`;
+
+// Imports a recorded run (GPX, TCX, FIT), shows how it compares with the shown course, and can turn it into a course.
+export const ActivityImportPanel: React.FC<ActivityImportPanelProps> = ({
+  activity,
+  comparison,
+  onImport,
+  onClear,
+  onUseAsCourse,
+  isBuildingCourse,
+  error,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = '';
+  };
+
+  const rows = comparison
+    ? [
+        {
+          label: '距離 / Distance',
+          planned: `${comparison.plannedDistanceKm.toFixed(2)} km`,
+          actual: `${comparison.actualDistanceKm.toFixed(2)} km`,
+          delta: formatDelta(comparison.actualDistanceKm, comparison.plannedDistanceKm, (v) => `${v.toFixed(2)} km`),
+        },
+        {
+          label: '標高差 / Gain',
+          planned: `${comparison.plannedGainM.toFixed(0)} m`,
+          actual: comparison.actualGainM !== null ? `${comparison.actualGainM.toFixed(0)} m` : '—',
+          delta: comparison.actualGainM !== null ? formatDelta(comparison.actualGainM, comparison.plannedGainM, (v) => `${v.toFixed(0)} m`) : '',
+        },
+        {
+          label: '時間 / Time',
+          planned: formatMinutes(comparison.plannedTimeMin),
+          actual: comparison.actualTimeMin !== null ? formatMinutes(comparison.actualTimeMin) : '—',
+          delta: comparison.actualTimeMin !== null ? formatDelta(comparison.actualTimeMin, comparison.plannedTimeMin, formatMinutes) : '',
+        },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-3 p-2 mt-4 border-t border-gray-200 pt-4 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-gray-700">ラン記録 / Recorded Run</h3>
+        <button type="button" onClick={() => fileInputRef.current?.click()} className={secondaryClass}>
+          読み込む / Import GPX, TCX, FIT
+        </button>
+        <input ref={fileInputRef} type="file" accept={ACTIVITY_FILE_ACCEPT} onChange={handleFileChange} className="hidden" />
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {activity && (
+        <>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-gray-700 truncate" title={activity.name}>
+              <span className="inline-block w-3 h-1.5 rounded bg-orange-500 align-middle mr-1" />
+              {activity.name} <span className="text-xs text-gray-500">({activity.format.toUpperCase()}, {activity.points.length} points)</span>
+            </p>
+            <button type="button" onClick={onClear} className="text-gray-400 hover:text-red-600 text-xs" title="削除 / Remove">
+              ✕
+            </button>
+          </div>
+
+          {comparison ? (
+            <>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="font-medium py-0.5" />
+                    <th className="font-medium">Plan</th>
+                    <th className="font-medium">Actual</th>
+                    <th className="font-medium text-right">+/−</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr key={row.label}>
+                      <td className="py-0.5 text-gray-600">{row.label}</td>
+                      <td>{row.planned}</td>
+                      <td>{row.actual}</td>
+                      <td className="text-right">{row.delta}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-600">
+                コースからのずれ / Deviation: avg {comparison.meanDeviationM.toFixed(0)} m · max {comparison.maxDeviationM.toFixed(0)} m ·{' '}
+                <span className={comparison.offCoursePercent > 0 ? 'text-orange-600' : undefined}>
+                  {comparison.offCoursePercent.toFixed(0)}% off course
+                </span>
+              </p>
+              {comparison.splits.some((split) => split.actualMin !== null) && (
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="font-medium py-0.5">Km</th>
+                      <th className="font-medium">Actual</th>
+                      <th className="font-medium">Predicted</th>
+                      <th className="font-medium text-right">+/−</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {comparison.splits.map((split) => (
+                      <tr key={split.km}>
+                        <td className="py-0.5">{split.distanceM < 999 ? (split.km - 1 + split.distanceM / 1000).toFixed(2) : split.km}</td>
+                        <td>{split.actualMin !== null ? formatMinutes(split.actualMin) : '—'}</td>
+                        <td>{split.plannedMin !== null ? formatMinutes(split.plannedMin) : '—'}</td>
+                        <td className={`text-right ${split.actualMin !== null && split.plannedMin !== null && split.actualMin > split.plannedMin ? 'text-orange-600' : 'text-green-700'}`}>
+                          {split.actualMin !== null && split.plannedMin !== null ? formatDelta(split.actualMin, split.plannedMin, formatMinutes) : ''}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          ) : (
+            <p className="text-xs text-gray-500">Generate or open a course to compare the run with it.</p>
+          )}
+
+          <button type="button" onClick={onUseAsCourse} disabled={isBuildingCourse} className={`${secondaryClass} w-full`}>
+            {isBuildingCourse ? 'Building course…' : 'コースとして使う / Use as course'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React from 'react';
+import type { DistanceTier, RankedCandidate } from '../types';
+import { CANDIDATE_ROUTE_COLORS } from '../constants';
+
+interface CandidateComparisonProps {
+  candidates: RankedCandidate[];
+  selectedRank: number;
+  onSelectCandidate: (rank: number) => void;
+}
+
+const TIER_CLASSES: Record<DistanceTier, string> = {
+  target: 'text-green-700',
+  tolerance: 'text-orange-600',
+  outside: 'text-red-600',
+};
+
+const signed = (value: number, digits = 0): string => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+// Ranked candidates with their score breakdown; clicking a row selects that route.
+export const CandidateComparison: React.FC<CandidateComparisonProps> = ({ candidates, selectedRank, onSelectCandidate }) => (
+  <table className="w-full text-xs">
+    <thead>
+      <tr className="text-left text-gray-500">
+        <th className="font-medium py-0.5">#</th>
+        <th className="font-medium">Dist.</th>
+        <th className="font-medium">Gain</th>
+        <th className="font-medium">Overlap</th>
+        <th className="font-medium text-right">Score</th>
+      </tr>
+    </thead>
+    <tbody>
+      {candidates.map(({ rank, route, breakdown }, i) => {
+        const warnings = [
+          !breakdown.withinMaxGrade && `max grade ${breakdown.maxGradePercent.toFixed(1)}% over the limit`,
+          breakdown.avoidZoneIntrusionM > 0 && `${breakdown.avoidZoneIntrusionM.toFixed(0)} m inside avoidance zones`,
+        ].filter(Boolean);
+        return (
+          <tr
+            key={rank}
+            onClick={() => onSelectCandidate(rank)}
+            className={`cursor-pointer ${rank === selectedRank ? 'bg-green-200 font-semibold' : 'hover:bg-green-100'}`}
+            title={warnings.join('; ') || undefined}
+          >
+            <td className="py-0.5">
+              <span
+                className="inline-block w-2.5 h-2.5 rounded-full mr-1 align-middle"
+                style={{ backgroundColor: rank === selectedRank ? '#FF0000' : CANDIDATE_ROUTE_COLORS[i % CANDIDATE_ROUTE_COLORS.length] }}
+              />
+              {rank}
+              {warnings.length > 0 && <span className="ml-0.5 text-orange-600">!</span>}
+            </td>
+            <td>
+              {route.distanceKm.toFixed(2)} km{' '}
+              <span className={TIER_CLASSES[breakdown.distanceTier]}>({signed(breakdown.distanceErrorPercent, 1)}%)</span>
+            </td>
+            <td>{breakdown.elevationGainM.toFixed(0)} m</td>
+            <td>
+              {breakdown.overlapPercent.toFixed(0)}%
+              {breakdown.uTurnCount > 0 && <span className="text-gray-500"> · {breakdown.uTurnCount}U</span>}
+            </td>
+            <td className="text-right">{breakdown.totalScore.toFixed(0)}</td>
+          </tr>
+        );
+      })}
+    </tbody>
+  </table>
+);
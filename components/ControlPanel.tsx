@@ -1,17 +1,68 @@
 
-import React from 'react';
-import type { RouteStats } from '../types';
+import React, { useState } from 'react';
+import type { CourseMode, CourseSource, Cue, ElevationObjective, ElevationPreference, ElevationProfile, ExportFormat, GenerationDiagnostics, GenerationOptions, GenerationProgress, GradeSection, KmSplit, LoopStrategy, PaceProfile, RankedCandidate, RouteStats, SteepSectionThresholds } from '../types';
+import { EXPORT_FORMATS } from '../services/exportService';
+import { LOOP_STRATEGIES } from '../services/loopStrategies';
+import { COURSE_MODES } from '../services/courseModes';
+import { REFINEMENT_TARGET_TOLERANCE } from '../constants';
 import { Button } from './ui/Button';
+import { ElevationProfileChart } from './ElevationProfileChart';
+import { PaceProfilePicker, SplitTable } from './PaceControls';
+import { CandidateComparison } from './CandidateComparison';
+import { RouteEditToolbar, type RouteEditToolbarProps } from './RouteEditToolbar';
+import { GenerationProgressPanel } from './GenerationProgressPanel';
+import { GenerationDiagnosticsReport } from './GenerationDiagnosticsReport';
+import { CueSheetTable } from './CueSheet';
 
 interface ControlPanelProps {
   desiredDistanceKm: number;
   onDistanceChange: (distance: number) => void;
+  generationOptions: GenerationOptions;
+  onGenerationOptionsChange: (options: GenerationOptions) => void;
   onGenerateCourse: () => void;
+  onCancelGeneration: () => void;
+  generationProgress: GenerationProgress | null; // set while a course is being generated
+  generationDiagnostics: GenerationDiagnostics | null; // per-request report of the last generation
   generatedStats: RouteStats | null;
+  courseSource: CourseSource | null;
+  routeEditing: RouteEditToolbarProps;
+  elevationProfile: ElevationProfile | null;
+  highlightedDistanceM: number | null;
+  onHighlightDistance: (distanceM: number | null) => void;
+  steepSections: GradeSection[];
+  steepSectionThresholds: SteepSectionThresholds;
+  onSteepSectionThresholdsChange: (thresholds: SteepSectionThresholds) => void;
+  paceProfiles: PaceProfile[];
+  activePaceProfileId: string;
+  onPaceProfileSelect: (id: string) => void;
+  onPaceProfilesChange: (profiles: PaceProfile[], activeId: string) => void;
+  kmSplits: KmSplit[];
+  cues: Cue[];
+  onPrintCueSheet: () => void;
+  candidates: RankedCandidate[]; // top ranked routes of the last generation; empty when not applicable
+  selectedCandidateRank: number | null;
+  onSelectCandidate: (rank: number) => void;
+  onExportCourse: (format: ExportFormat) => void;
+  onCopyShareLink: () => void;
   isLoading: boolean;
   error: string | null;
 }
 
+const ELEVATION_OBJECTIVE_LABELS: Record<ElevationObjective, string> = {
+  minimize: 'フラット / Flat (minimize gain)',
+  maximize: '坂道 / Hilly (maximize gain)',
+  target: '目標獲得標高 / Target gain',
+};
+
+const describeElevationResult = (stats: RouteStats): string => {
+  const { objective, targetGainM } = stats.elevationPreference;
+  if (objective === 'target' && stats.elevationTargetDeltaM !== null) {
+    const delta = stats.elevationTargetDeltaM;
+    return `target ${targetGainM} m, ${delta === 0 ? 'met exactly' : `${delta > 0 ? '+' : ''}${delta} m off`}`;
+  }
+  return objective === 'minimize' ? 'flattest candidate' : 'hilliest candidate';
+};
+
 const Label: React.FC<{ htmlFor: string; children: React.ReactNode }> = ({ htmlFor, children }) => (
   <label htmlFor={htmlFor} className="block text-sm font-medium text-gray-700 mb-1">
     {children}
@@ -25,14 +76,51 @@ const Input: React.FC<React.InputHTMLAttributes<HTMLInputElement>> = (props) =>
   />
 );
 
+const Select: React.FC<React.SelectHTMLAttributes<HTMLSelectElement>> = (props) => (
+  <select
+    {...props}
+    className={`mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${props.className || ''}`}
+  />
+);
+
 export const ControlPanel: React.FC<ControlPanelProps> = ({
   desiredDistanceKm,
   onDistanceChange,
+  generationOptions,
+  onGenerationOptionsChange,
   onGenerateCourse,
+  onCancelGeneration,
+  generationProgress,
+  generationDiagnostics,
   generatedStats,
+  courseSource,
+  routeEditing,
+  elevationProfile,
+  highlightedDistanceM,
+  onHighlightDistance,
+  steepSections,
+  steepSectionThresholds,
+  onSteepSectionThresholdsChange,
+  paceProfiles,
+  activePaceProfileId,
+  onPaceProfileSelect,
+  onPaceProfilesChange,
+  kmSplits,
+  cues,
+  onPrintCueSheet,
+  candidates,
+  selectedCandidateRank,
+  onSelectCandidate,
+  onExportCourse,
+  onCopyShareLink,
   isLoading,
   error,
 }) => {
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('gpx-track');
+
+  const updateElevation = (changes: Partial<ElevationPreference>) =>
+    onGenerationOptionsChange({ ...generationOptions, elevation: { ...generationOptions.elevation, ...changes } });
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     // Allow float numbers, prevent negative, handle empty string
@@ -61,6 +149,125 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         />
       </div>
 
+      <div>
+        <Label htmlFor="mode">コースの種類 / Course Type</Label>
+        <Select
+          id="mode"
+          value={generationOptions.mode}
+          onChange={(e) => onGenerationOptionsChange({ ...generationOptions, mode: e.target.value as CourseMode })}
+          disabled={isLoading}
+        >
+          {(Object.keys(COURSE_MODES) as CourseMode[]).map((mode) => (
+            <option key={mode} value={mode}>{COURSE_MODES[mode].label}</option>
+          ))}
+        </Select>
+        {generationOptions.mode === 'point-to-point' && (
+          <p className="mt-1 text-xs text-gray-500">
+            「ゴール」ツールで地図をクリックするか F マーカーをドラッグしてゴールを設定 / Use the Set finish tool or drag the F marker to set the finish.
+          </p>
+        )}
+      </div>
+
+      <div>
+        {generationOptions.mode === 'loop' && (
+          <>
+            <Label htmlFor="strategy">ループの形 / Loop Shape</Label>
+            <Select
+              id="strategy"
+              value={generationOptions.strategy}
+              onChange={(e) => onGenerationOptionsChange({ ...generationOptions, strategy: e.target.value as LoopStrategy })}
+              disabled={isLoading}
+            >
+              {(Object.keys(LOOP_STRATEGIES) as LoopStrategy[]).map((strategy) => (
+                <option key={strategy} value={strategy}>{LOOP_STRATEGIES[strategy].label}</option>
+              ))}
+            </Select>
+          </>
+        )}
+        <div className="grid grid-cols-2 gap-2 mt-2">
+          <div>
+            <Label htmlFor="rotation">回転 / Rotation (°)</Label>
+            <Input
+              type="number"
+              id="rotation"
+              value={generationOptions.rotationDegrees.toString()}
+              onChange={(e) => onGenerationOptionsChange({ ...generationOptions, rotationDegrees: parseFloat(e.target.value) || 0 })}
+              step="15"
+              disabled={isLoading}
+            />
+          </div>
+          <div>
+            <Label htmlFor="radius-scale">半径 / Radius (%)</Label>
+            <Input
+              type="number"
+              id="radius-scale"
+              value={Math.round(generationOptions.radiusScale * 100).toString()}
+              onChange={(e) => {
+                const percent = parseFloat(e.target.value);
+                if (percent > 0) onGenerationOptionsChange({ ...generationOptions, radiusScale: percent / 100 });
+              }}
+              min="10"
+              step="5"
+              disabled={isLoading}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="elevation-objective">標高の方針 / Elevation</Label>
+        <Select
+          id="elevation-objective"
+          value={generationOptions.elevation.objective}
+          onChange={(e) => updateElevation({ objective: e.target.value as ElevationObjective })}
+          disabled={isLoading}
+        >
+          {(Object.keys(ELEVATION_OBJECTIVE_LABELS) as ElevationObjective[]).map((objective) => (
+            <option key={objective} value={objective}>{ELEVATION_OBJECTIVE_LABELS[objective]}</option>
+          ))}
+        </Select>
+        <div className="grid grid-cols-2 gap-2 mt-2">
+          {generationOptions.elevation.objective === 'target' && (
+            <div>
+              <Label htmlFor="target-gain">目標 / Gain (m)</Label>
+              <Input
+                type="number"
+                id="target-gain"
+                value={generationOptions.elevation.targetGainM.toString()}
+                onChange={(e) => updateElevation({ targetGainM: Math.max(0, parseFloat(e.target.value) || 0) })}
+                min="0"
+                step="10"
+                disabled={isLoading}
+              />
+            </div>
+          )}
+          <div>
+            <Label htmlFor="max-grade">最大勾配 / Max Grade (%)</Label>
+            <Input
+              type="number"
+              id="max-grade"
+              value={generationOptions.elevation.maxGradePercent?.toString() ?? ''}
+              onChange={(e) => updateElevation({ maxGradePercent: e.target.value === '' ? null : Math.max(0, parseFloat(e.target.value) || 0) })}
+              min="0"
+              step="1"
+              placeholder="制限なし / none"
+              disabled={isLoading}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="pace-profile">ペース / Pace Profile</Label>
+        <PaceProfilePicker
+          profiles={paceProfiles}
+          activeId={activePaceProfileId}
+          onSelect={onPaceProfileSelect}
+          onProfilesChange={onPaceProfilesChange}
+          disabled={isLoading}
+        />
+      </div>
+
       <Button
         onClick={onGenerateCourse}
         disabled={isLoading || desiredDistanceKm <=0}
@@ -79,6 +286,10 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         )}
       </Button>
 
+      {isLoading && generationProgress && (
+        <GenerationProgressPanel progress={generationProgress} onCancel={onCancelGeneration} />
+      )}
+
       {error && (
         <div className="mt-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded-md text-sm">
           <p className="font-semibold">Error:</p>
@@ -86,20 +297,172 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         </div>
       )}
 
+      {generationDiagnostics && !isLoading && <GenerationDiagnosticsReport diagnostics={generationDiagnostics} />}
+
       {generatedStats && !isLoading && !error && (
         <div className="mt-6 p-4 bg-green-50 border border-green-300 rounded-lg shadow">
-          <h3 className="text-lg font-semibold text-green-800 mb-3">Generated Course Details:</h3>
+          <h3 className="text-lg font-semibold text-green-800 mb-3">
+            {courseSource === 'edited' ? 'Edited Course Details:' : courseSource === 'imported' ? 'Imported Course Details:' : 'Generated Course Details:'}
+            {courseSource === 'edited' && (
+              <span className="ml-2 px-1.5 py-0.5 bg-amber-100 text-amber-800 rounded text-xs align-middle">編集済み / Edited</span>
+            )}
+            {courseSource === 'imported' && (
+              <span className="ml-2 px-1.5 py-0.5 bg-orange-100 text-orange-800 rounded text-xs align-middle">記録から / From a run</span>
+            )}
+          </h3>
           <div className="space-y-2 text-sm text-gray-700">
             <p>
               <span className="font-medium">総距離 / Total Distance:</span> {generatedStats.totalDistanceKm} km
+              <span className={`ml-1 ${Math.abs(generatedStats.distanceErrorPercent) <= REFINEMENT_TARGET_TOLERANCE * 100 ? 'text-green-700' : 'text-orange-600'}`}>
+                ({generatedStats.distanceErrorPercent > 0 ? '+' : ''}{generatedStats.distanceErrorPercent}%)
+              </span>
             </p>
             <p>
               <span className="font-medium">累積標高差 / Elevation Gain:</span> {generatedStats.cumulativeElevationGainM} m
+              <span className="ml-1 text-gray-500">({describeElevationResult(generatedStats)})</span>
+            </p>
+            <p>
+              <span className="font-medium">最大勾配 / Max Grade:</span> {generatedStats.maxGradePercent}%
+              {generatedStats.elevationPreference.maxGradePercent !== null &&
+                generatedStats.maxGradePercent > generatedStats.elevationPreference.maxGradePercent && (
+                  <span className="ml-1 text-orange-600">(over the {generatedStats.elevationPreference.maxGradePercent}% limit)</span>
+                )}
+            </p>
+            <p>
+              <span className="font-medium">重複 / Overlap:</span> {generatedStats.overlapPercent}%
+              <span className="ml-1 text-gray-500">
+                ({generatedStats.uTurnCount} U-turn{generatedStats.uTurnCount === 1 ? '' : 's'})
+              </span>
             </p>
             <p>
               <span className="font-medium">推定時間 / Estimated Time:</span> {generatedStats.estimatedTimeMin} minutes
             </p>
           </div>
+          <div className="mt-4 pt-3 border-t border-green-200">
+            <RouteEditToolbar {...routeEditing} />
+          </div>
+          {candidates.length > 1 && selectedCandidateRank !== null && (
+            <div className="mt-4 pt-3 border-t border-green-200">
+              <h4 className="text-sm font-semibold text-green-800 mb-1">候補ルート / Candidate Routes</h4>
+              <CandidateComparison
+                candidates={candidates}
+                selectedRank={selectedCandidateRank}
+                onSelectCandidate={onSelectCandidate}
+              />
+            </div>
+          )}
+          {elevationProfile && (
+            <div className="mt-4 pt-3 border-t border-green-200">
+              <h4 className="text-sm font-semibold text-green-800 mb-1">標高プロファイル / Elevation Profile</h4>
+              <ElevationProfileChart
+                profile={elevationProfile}
+                highlightedDistanceM={highlightedDistanceM}
+                onHighlightDistance={onHighlightDistance}
+              />
+            </div>
+          )}
+          {kmSplits.length > 0 && (
+            <div className="mt-4 pt-3 border-t border-green-200">
+              <h4 className="text-sm font-semibold text-green-800 mb-1">ラップ予測 / Km Splits</h4>
+              <SplitTable splits={kmSplits} onSelectKm={onHighlightDistance} />
+            </div>
+          )}
+          {cues.length > 0 && (
+            <div className="mt-4 pt-3 border-t border-green-200">
+              <div className="flex items-center justify-between mb-1">
+                <h4 className="text-sm font-semibold text-green-800">キューシート / Cue Sheet</h4>
+                <button
+                  type="button"
+                  onClick={onPrintCueSheet}
+                  className="px-2 py-0.5 text-xs font-medium rounded border border-green-300 bg-white text-green-800 hover:bg-green-100"
+                >
+                  印刷 / Print
+                </button>
+              </div>
+              <div className="max-h-64 overflow-y-auto">
+                <CueSheetTable cues={cues} onSelectCue={onHighlightDistance} />
+              </div>
+            </div>
+          )}
+          <div className="mt-4 pt-3 border-t border-green-200">
+            <h4 className="text-sm font-semibold text-green-800 mb-1">急坂区間 / Steep Sections</h4>
+            <div className="grid grid-cols-3 gap-2 mb-2">
+              <div>
+                <Label htmlFor="climb-threshold">上り / Up (%)</Label>
+                <Input
+                  type="number"
+                  id="climb-threshold"
+                  value={steepSectionThresholds.climbGradePercent.toString()}
+                  onChange={(e) => onSteepSectionThresholdsChange({ ...steepSectionThresholds, climbGradePercent: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  min="0"
+                  step="1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="descent-threshold">下り / Down (%)</Label>
+                <Input
+                  type="number"
+                  id="descent-threshold"
+                  value={steepSectionThresholds.descentGradePercent.toString()}
+                  onChange={(e) => onSteepSectionThresholdsChange({ ...steepSectionThresholds, descentGradePercent: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  min="0"
+                  step="1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="min-section-length">最短 / Min (m)</Label>
+                <Input
+                  type="number"
+                  id="min-section-length"
+                  value={steepSectionThresholds.minLengthM.toString()}
+                  onChange={(e) => onSteepSectionThresholdsChange({ ...steepSectionThresholds, minLengthM: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  min="0"
+                  step="50"
+                />
+              </div>
+            </div>
+            {steepSections.length === 0 ? (
+              <p className="text-xs text-gray-500">No sustained climbs or descents above these thresholds.</p>
+            ) : (
+              <ul className="space-y-1 text-xs">
+                {steepSections.map((section) => (
+                  <li key={`${section.kind}-${section.startDistanceM}`}>
+                    <button
+                      type="button"
+                      onClick={() => onHighlightDistance(section.startDistanceM)}
+                      className="w-full text-left px-2 py-1 rounded hover:bg-green-100"
+                    >
+                      <span className={section.kind === 'climb' ? 'text-orange-700 font-medium' : 'text-blue-700 font-medium'}>
+                        {section.kind === 'climb' ? '▲ 上り / Climb' : '▼ 下り / Descent'}
+                      </span>{' '}
+                      {(section.startDistanceM / 1000).toFixed(1)} km · {section.lengthM.toFixed(0)} m · avg {section.averageGradePercent.toFixed(1)}% · max {section.maxGradePercent.toFixed(1)}%
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div className="mt-4 pt-3 border-t border-green-200">
+            <Label htmlFor="export-format">エクスポート / Export</Label>
+            <div className="flex gap-2">
+              <Select
+                id="export-format"
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                className="flex-grow"
+              >
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+                  <option key={format} value={format}>{EXPORT_FORMATS[format].label}</option>
+                ))}
+              </Select>
+              <Button onClick={() => onExportCourse(exportFormat)} className="mt-1">
+                Download
+              </Button>
+            </div>
+            <Button onClick={onCopyShareLink} className="w-full mt-2">
+              リンクをコピー / Copy Share Link
+            </Button>
+          </div>
         </div>
       )}
        {!generatedStats && !isLoading && !error && (
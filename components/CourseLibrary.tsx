@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import type { CourseLibraryQuery, CourseSortKey, LatLngLiteral, SavedCourse } from '../types';
+import { EMPTY_LIBRARY_QUERY, parseTags, querySavedCourses } from '../services/courseLibrary';
+import { Button } from './ui/Button';
+
+interface CourseLibraryProps {
+  savedCourses: SavedCourse[];
+  canSave: boolean; // a generated course is on the map
+  startPoint: LatLngLiteral | null; // used by the "near start point" filter
+  onSaveCourse: (details: { name: string; tags: string[]; notes: string }) => Promise<void>;
+  onOpenCourse: (saved: SavedCourse) => void;
+  onRenameCourse: (id: string, name: string) => Promise<void>;
+  onDeleteCourse: (id: string) => Promise<void>;
+  error: string | null;
+}
+
+const SORT_LABELS: Record<CourseSortKey, string> = {
+  newest: '新しい順 / Newest',
+  name: '名前 / Name',
+  distance: '距離 / Distance',
+  gain: '標高差 / Gain',
+};
+
+const fieldClass =
+  'block w-full px-2 py-1 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+const parseOptionalNumber = (value: string): number | null => (value === '' || isNaN(parseFloat(value)) ? null : parseFloat(value));
+
+export const CourseLibrary: React.FC<CourseLibraryProps> = ({
+  savedCourses,
+  canSave,
+  startPoint,
+  onSaveCourse,
+  onOpenCourse,
+  onRenameCourse,
+  onDeleteCourse,
+  error,
+}) => {
+  const [name, setName] = useState('');
+  const [tags, setTags] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [query, setQuery] = useState<CourseLibraryQuery>(EMPTY_LIBRARY_QUERY);
+  const [nearRadiusKm, setNearRadiusKm] = useState<number | null>(null);
+
+  const visibleCourses = useMemo(
+    () => querySavedCourses(savedCourses, {
+      ...query,
+      near: nearRadiusKm !== null && startPoint ? { point: startPoint, radiusKm: nearRadiusKm } : null,
+    }),
+    [savedCourses, query, nearRadiusKm, startPoint]
+  );
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSaveCourse({ name, tags: parseTags(tags), notes });
+      setName('');
+      setTags('');
+      setNotes('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRename = (saved: SavedCourse) => {
+    const newName = window.prompt("New name / 新しい名前", saved.name);
+    if (newName && newName.trim() && newName.trim() !== saved.name) {
+      void onRenameCourse(saved.id, newName.trim());
+    }
+  };
+
+  const handleDelete = (saved: SavedCourse) => {
+    if (window.confirm(`Delete "${saved.name}"?`)) {
+      void onDeleteCourse(saved.id);
+    }
+  };
+
+  return (
+    <div className="space-y-4 p-2 mt-4 border-t border-gray-200 pt-6">
+      <h3 className="text-lg font-semibold text-gray-800">コースライブラリ / Course Library</h3>
+
+      {canSave && (
+        <div className="space-y-2 p-3 bg-white border border-gray-200 rounded-lg">
+          <input className={fieldClass} placeholder="名前 / Name" value={name} onChange={(e) => setName(e.target.value)} />
+          <input className={fieldClass} placeholder="タグ / Tags (comma separated)" value={tags} onChange={(e) => setTags(e.target.value)} />
+          <textarea className={fieldClass} placeholder="メモ / Notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+          <Button onClick={handleSave} disabled={isSaving} className="w-full">
+            {isSaving ? 'Saving...' : '保存 / Save Course'}
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-2 bg-red-100 border border-red-400 text-red-700 rounded-md text-sm">{error}</div>
+      )}
+
+      <div className="space-y-2">
+        <input
+          className={fieldClass}
+          placeholder="検索 / Search name, tags, notes"
+          value={query.search}
+          onChange={(e) => setQuery({ ...query, search: e.target.value })}
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <select className={fieldClass} value={query.sortBy} onChange={(e) => setQuery({ ...query, sortBy: e.target.value as CourseSortKey })}>
+            {(Object.keys(SORT_LABELS) as CourseSortKey[]).map((key) => (
+              <option key={key} value={key}>{SORT_LABELS[key]}</option>
+            ))}
+          </select>
+          <input
+            className={fieldClass}
+            type="number"
+            min="0"
+            placeholder="最大標高差 / Max gain (m)"
+            value={query.maxGainM ?? ''}
+            onChange={(e) => setQuery({ ...query, maxGainM: parseOptionalNumber(e.target.value) })}
+          />
+          <input
+            className={fieldClass}
+            type="number"
+            min="0"
+            step="0.5"
+            placeholder="最短 / Min km"
+            value={query.minDistanceKm ?? ''}
+            onChange={(e) => setQuery({ ...query, minDistanceKm: parseOptionalNumber(e.target.value) })}
+          />
+          <input
+            className={fieldClass}
+            type="number"
+            min="0"
+            step="0.5"
+            placeholder="最長 / Max km"
+            value={query.maxDistanceKm ?? ''}
+            onChange={(e) => setQuery({ ...query, maxDistanceKm: parseOptionalNumber(e.target.value) })}
+          />
+        </div>
+        <input
+          className={fieldClass}
+          type="number"
+          min="0"
+          step="0.5"
+          placeholder="スタート地点から / Within km of start point"
+          value={nearRadiusKm ?? ''}
+          onChange={(e) => setNearRadiusKm(parseOptionalNumber(e.target.value))}
+          disabled={!startPoint}
+        />
+      </div>
+
+      {visibleCourses.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {savedCourses.length === 0 ? 'No saved courses yet.' : 'No saved courses match these filters.'}
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {visibleCourses.map((saved) => (
+            <li key={saved.id} className="p-2 bg-white border border-gray-200 rounded-md text-sm">
+              <div className="flex items-start justify-between gap-2">
+                <button type="button" onClick={() => onOpenCourse(saved)} className="text-left font-medium text-blue-700 hover:underline">
+                  {saved.name}
+                </button>
+                <span className="text-xs text-gray-500 whitespace-nowrap">{new Date(saved.createdAt).toLocaleDateString()}</span>
+              </div>
+              <p className="text-xs text-gray-600">
+                {saved.course.stats.totalDistanceKm} km · {saved.course.stats.cumulativeElevationGainM} m
+              </p>
+              {saved.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {saved.tags.map((tag) => (
+                    <span key={tag} className="px-1.5 py-0.5 bg-gray-100 text-gray-600 rounded text-xs">{tag}</span>
+                  ))}
+                </div>
+              )}
+              {saved.notes && <p className="text-xs text-gray-500 mt-1">{saved.notes}</p>}
+              <div className="flex gap-3 mt-1 text-xs">
+                <button type="button" onClick={() => onOpenCourse(saved)} className="text-blue-600 hover:underline">開く / Open</button>
+                <button type="button" onClick={() => handleRename(saved)} className="text-gray-600 hover:underline">名前変更 / Rename</button>
+                <button type="button" onClick={() => handleDelete(saved)} className="text-red-600 hover:underline">削除 / Delete</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
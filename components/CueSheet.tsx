@@ -0,0 +1,124 @@
+import React from 'react';
+import type { Cue, GeneratedCourse, KmSplit } from '../types';
+import { ElevationProfileChart } from './ElevationProfileChart';
+import { SplitTable } from './PaceControls';
+
+interface CueSheetTableProps {
+  cues: Cue[];
+  onSelectCue?: (distanceM: number) => void;
+}
+
+// Cues with the distance and elevation at each one; a row click shows that spot on the map and profile.
+export const CueSheetTable: React.FC<CueSheetTableProps> = ({ cues, onSelectCue }) => (
+  <table className="w-full text-xs">
+    <thead>
+      <tr className="text-left text-gray-500">
+        <th className="font-medium py-0.5 pr-2">#</th>
+        <th className="font-medium pr-2">Km</th>
+        <th className="font-medium">Cue</th>
+        <th className="font-medium text-right">Elev.</th>
+      </tr>
+    </thead>
+    <tbody>
+      {cues.map((cue, i) => (
+        <tr
+          key={i}
+          onClick={() => onSelectCue?.(cue.distanceM)}
+          className={`align-top border-t border-gray-100 ${onSelectCue ? 'cursor-pointer hover:bg-green-100' : ''}`}
+        >
+          <td className="py-0.5 pr-2 text-gray-500">{i + 1}</td>
+          <td className="pr-2 whitespace-nowrap">{(cue.distanceM / 1000).toFixed(2)}</td>
+          <td className={cue.kind === 'turn' ? undefined : 'font-semibold'}>{cue.instruction}</td>
+          <td className="text-right whitespace-nowrap">{cue.elevationM.toFixed(0)} m</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const MAP_WIDTH = 600;
+const MAP_HEIGHT = 400;
+const MAP_PADDING = 24;
+const METERS_PER_DEGREE_LAT = 110540;
+const SCALE_BAR_STEPS_M = [100, 200, 500, 1000, 2000, 5000, 10000];
+
+// Static overview of the course drawn from its own geometry, so it prints without a map service: the route,
+// numbered cues, a north arrow and a scale bar.
+export const CourseOverviewMap: React.FC<{ course: GeneratedCourse; cues: Cue[] }> = ({ course, cues }) => {
+  const { path, bounds } = course.route;
+  if (path.length < 2) return null;
+  const midLat = (bounds.north + bounds.south) / 2;
+  const metersPerDegreeLng = METERS_PER_DEGREE_LAT * Math.cos((midLat * Math.PI) / 180);
+  const widthM = Math.max(1, (bounds.east - bounds.west) * metersPerDegreeLng);
+  const heightM = Math.max(1, (bounds.north - bounds.south) * METERS_PER_DEGREE_LAT);
+  const pxPerM = Math.min((MAP_WIDTH - 2 * MAP_PADDING) / widthM, (MAP_HEIGHT - 2 * MAP_PADDING) / heightM);
+  // Centre the course in the frame
+  const offsetX = (MAP_WIDTH - widthM * pxPerM) / 2;
+  const offsetY = (MAP_HEIGHT - heightM * pxPerM) / 2;
+  const x = (lng: number) => offsetX + (lng - bounds.west) * metersPerDegreeLng * pxPerM;
+  const y = (lat: number) => offsetY + (bounds.north - lat) * METERS_PER_DEGREE_LAT * pxPerM;
+
+  const line = path.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.lng).toFixed(1)},${y(p.lat).toFixed(1)}`).join(' ');
+  const scaleBarM = [...SCALE_BAR_STEPS_M].reverse().find((m) => m * pxPerM <= MAP_WIDTH / 4) ?? SCALE_BAR_STEPS_M[0];
+  const turns = cues.map((cue, i) => ({ cue, number: i + 1 })).filter(({ cue }) => cue.kind === 'turn');
+
+  return (
+    <svg viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`} className="w-full border border-gray-300 bg-white">
+      <path d={line} fill="none" stroke="#dc2626" strokeWidth={3} strokeLinejoin="round" strokeLinecap="round" />
+      {turns.map(({ cue, number }) => (
+        <g key={number}>
+          <circle cx={x(cue.location.lng)} cy={y(cue.location.lat)} r={8} fill="#ffffff" stroke="#1f2937" strokeWidth={1.5} />
+          <text x={x(cue.location.lng)} y={y(cue.location.lat) + 3} textAnchor="middle" fontSize={9} fill="#1f2937">
+            {number}
+          </text>
+        </g>
+      ))}
+      <circle cx={x(course.finishPoint.lng)} cy={y(course.finishPoint.lat)} r={7} fill="#1f2937" />
+      <circle cx={x(course.startPoint.lng)} cy={y(course.startPoint.lat)} r={7} fill="#16a34a" stroke="#ffffff" strokeWidth={2} />
+      <text x={x(course.startPoint.lng) + 10} y={y(course.startPoint.lat) - 8} fontSize={11} fontWeight="bold" fill="#16a34a">
+        S
+      </text>
+      <g transform={`translate(${MAP_WIDTH - 24}, 28)`}>
+        <path d="M0,-14 L6,4 L0,0 L-6,4 Z" fill="#1f2937" />
+        <text y={16} textAnchor="middle" fontSize={10} fill="#1f2937">N</text>
+      </g>
+      <g transform={`translate(${MAP_PADDING}, ${MAP_HEIGHT - 12})`}>
+        <line x1={0} x2={scaleBarM * pxPerM} y1={0} y2={0} stroke="#1f2937" strokeWidth={2} />
+        <text x={scaleBarM * pxPerM + 4} y={3} fontSize={10} fill="#1f2937">
+          {scaleBarM >= 1000 ? `${scaleBarM / 1000} km` : `${scaleBarM} m`}
+        </text>
+      </g>
+    </svg>
+  );
+};
+
+interface PrintableCourseProps {
+  course: GeneratedCourse;
+  cues: Cue[];
+  splits: KmSplit[];
+}
+
+// Print-only layout (hidden on screen): stats, the overview map, the elevation profile, the cue sheet and splits.
+export const PrintableCourse: React.FC<PrintableCourseProps> = ({ course, cues, splits }) => (
+  <div className="hidden print:block p-6 text-gray-900">
+    <h1 className="text-xl font-bold mb-1">Running Course · {course.stats.totalDistanceKm} km</h1>
+    <p className="text-sm mb-3">
+      +{course.stats.cumulativeElevationGainM} m · max grade {course.stats.maxGradePercent}% · ~{course.stats.estimatedTimeMin} min
+    </p>
+    <CourseOverviewMap course={course} cues={cues} />
+    <div className="mt-3">
+      <h2 className="text-sm font-semibold mb-1">標高プロファイル / Elevation Profile</h2>
+      <ElevationProfileChart profile={course.elevationProfile} highlightedDistanceM={null} onHighlightDistance={() => {}} />
+    </div>
+    <div className="mt-3">
+      <h2 className="text-sm font-semibold mb-1">キューシート / Cue Sheet</h2>
+      <CueSheetTable cues={cues} />
+    </div>
+    {splits.length > 0 && (
+      <div className="mt-3">
+        <h2 className="text-sm font-semibold mb-1">ラップ予測 / Km Splits</h2>
+        <SplitTable splits={splits} />
+      </div>
+    )}
+  </div>
+);
@@ -0,0 +1,98 @@
+import React from 'react';
+import type { ElevationProfile } from '../types';
+import { elevationAtDistance } from '../services/elevationProfile';
+
+interface ElevationProfileChartProps {
+  profile: ElevationProfile;
+  highlightedDistanceM: number | null;
+  onHighlightDistance: (distanceM: number | null) => void;
+}
+
+const WIDTH = 300;
+const HEIGHT = 120;
+const PADDING = { top: 8, right: 8, bottom: 18, left: 32 };
+
+export const ElevationProfileChart: React.FC<ElevationProfileChartProps> = ({
+  profile,
+  highlightedDistanceM,
+  onHighlightDistance,
+}) => {
+  const points = profile.points;
+  if (points.length < 2) return null;
+
+  const totalM = points[points.length - 1].distanceM;
+  // Keep some vertical range on flat courses so noise doesn't look like cliffs
+  const range = Math.max(10, profile.maxElevationM - profile.minElevationM);
+  const minY = profile.minElevationM - range * 0.1;
+  const maxY = profile.maxElevationM + range * 0.1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const x = (distanceM: number) => PADDING.left + (totalM > 0 ? (distanceM / totalM) * plotWidth : 0);
+  const y = (elevationM: number) => PADDING.top + (1 - (elevationM - minY) / (maxY - minY)) * plotHeight;
+
+  const line = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.distanceM).toFixed(1)},${y(p.elevationM).toFixed(1)}`).join(' ');
+  const area = `${line} L${x(totalM).toFixed(1)},${PADDING.top + plotHeight} L${PADDING.left},${PADDING.top + plotHeight} Z`;
+
+  // Converts a pointer position to a distance along the course
+  const handlePointer = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const svgX = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const fraction = Math.min(1, Math.max(0, (svgX - PADDING.left) / plotWidth));
+    onHighlightDistance(fraction * totalM);
+  };
+
+  const highlightElevation = highlightedDistanceM !== null ? elevationAtDistance(profile, highlightedDistanceM) : null;
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-32 touch-none cursor-crosshair select-none"
+        onPointerMove={handlePointer}
+        onPointerDown={handlePointer}
+        onPointerLeave={() => onHighlightDistance(null)}
+      >
+        <path d={area} fill="#bfdbfe" />
+        <path d={line} fill="none" stroke="#2563eb" strokeWidth={1.5} />
+        <text x={PADDING.left - 4} y={y(profile.maxElevationM) + 3} textAnchor="end" fontSize={8} fill="#6b7280">
+          {profile.maxElevationM.toFixed(0)}
+        </text>
+        <text x={PADDING.left - 4} y={y(profile.minElevationM) + 3} textAnchor="end" fontSize={8} fill="#6b7280">
+          {profile.minElevationM.toFixed(0)}
+        </text>
+        <text x={PADDING.left} y={HEIGHT - 4} fontSize={8} fill="#6b7280">0 km</text>
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 4} textAnchor="end" fontSize={8} fill="#6b7280">
+          {(totalM / 1000).toFixed(1)} km
+        </text>
+        {highlightedDistanceM !== null && highlightElevation !== null && (
+          <g>
+            <line
+              x1={x(highlightedDistanceM)}
+              x2={x(highlightedDistanceM)}
+              y1={PADDING.top}
+              y2={PADDING.top + plotHeight}
+              stroke="#dc2626"
+              strokeWidth={1}
+            />
+            <circle cx={x(highlightedDistanceM)} cy={y(highlightElevation)} r={3} fill="#dc2626" />
+            <text
+              x={Math.min(x(highlightedDistanceM) + 4, WIDTH - 60)}
+              y={PADDING.top + 8}
+              fontSize={8}
+              fill="#991b1b"
+            >
+              {(highlightedDistanceM / 1000).toFixed(2)} km · {highlightElevation.toFixed(0)} m
+            </text>
+          </g>
+        )}
+      </svg>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-gray-600 mt-1">
+        <p>最低 / Min: {profile.minElevationM.toFixed(0)} m</p>
+        <p>最高 / Max: {profile.maxElevationM.toFixed(0)} m</p>
+        <p>上り / Gain: {profile.totalGainM.toFixed(0)} m</p>
+        <p>下り / Loss: {profile.totalLossM.toFixed(0)} m</p>
+      </div>
+    </div>
+  );
+};
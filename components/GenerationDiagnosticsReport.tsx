@@ -0,0 +1,70 @@
+import React from 'react';
+import type { CandidateStatus, GenerationDiagnostics } from '../types';
+import { DISTANCE_TOLERANCE_FACTOR } from '../constants';
+import { CANDIDATE_STATUS_LABELS } from '../services/generationDiagnostics';
+
+interface GenerationDiagnosticsReportProps {
+  diagnostics: GenerationDiagnostics;
+}
+
+const STATUS_CLASSES: Record<CandidateStatus, string> = {
+  ok: 'text-green-700',
+  'no-route': 'text-orange-600',
+  'zero-distance': 'text-orange-600',
+  'too-short': 'text-orange-600',
+  'directions-failed': 'text-red-600',
+  'elevation-failed': 'text-red-600',
+  duplicate: 'text-gray-500',
+};
+
+// Expandable per-request report of the last generation: what each bearing/radius returned and why it was dropped.
+export const GenerationDiagnosticsReport: React.FC<GenerationDiagnosticsReportProps> = ({ diagnostics }) => {
+  const { candidates, desiredDistanceKm } = diagnostics;
+  const usable = candidates.filter((c) => c.status === 'ok');
+  const withinTolerance = usable.some(
+    (c) => c.distanceKm !== null && Math.abs(c.distanceKm - desiredDistanceKm) / desiredDistanceKm <= DISTANCE_TOLERANCE_FACTOR
+  );
+  return (
+    <details className="text-xs text-gray-700">
+      <summary className="cursor-pointer text-sm text-gray-600">
+        診断レポート / Diagnostic report ({usable.length} of {candidates.length} requests usable)
+      </summary>
+      <div className="mt-2 space-y-2">
+        <p className="text-gray-500">
+          Routing: {diagnostics.routingProvider} · Elevation: {diagnostics.elevationProvider}
+        </p>
+        {usable.length > 0 && !withinTolerance && (
+          <p className="text-orange-600">
+            No route came within ±{(DISTANCE_TOLERANCE_FACTOR * 100).toFixed(0)}% of {desiredDistanceKm} km; the closest one is shown.
+            The street network may be too sparse here for this distance.
+          </p>
+        )}
+        <table className="w-full">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="font-medium py-0.5">Bearing</th>
+              <th className="font-medium">Radius</th>
+              <th className="font-medium">Dist.</th>
+              <th className="font-medium">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {candidates.map((c, i) => (
+              <tr key={i} title={c.detail ?? undefined}>
+                <td className="py-0.5">
+                  {Math.round(c.bearingDegrees)}°{c.refinementIteration > 0 && <span className="text-gray-500"> (refine {c.refinementIteration})</span>}
+                </td>
+                <td>{(c.radiusMeters / 1000).toFixed(2)} km</td>
+                <td>{c.distanceKm !== null ? `${c.distanceKm.toFixed(2)} km` : '–'}</td>
+                <td className={STATUS_CLASSES[c.status]}>
+                  {CANDIDATE_STATUS_LABELS[c.status]}
+                  {c.providerStatus && <span className="text-gray-500"> ({c.providerStatus})</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import type { GenerationProgress } from '../types';
+
+interface GenerationProgressPanelProps {
+  progress: GenerationProgress;
+  onCancel: () => void;
+}
+
+// Live counts of the candidates being evaluated, with the latest rejection reasons and a Cancel button.
+export const GenerationProgressPanel: React.FC<GenerationProgressPanelProps> = ({ progress, onCancel }) => {
+  const finished = progress.elevationFetched + progress.rejected;
+  const percent = progress.requested > 0 ? Math.min(100, (finished / progress.requested) * 100) : 0;
+  return (
+    <div className="p-3 bg-blue-50 border border-blue-200 rounded-md text-sm space-y-2">
+      <div className="h-2 bg-blue-100 rounded">
+        <div className="h-2 bg-blue-500 rounded transition-all" style={{ width: `${percent}%` }} />
+      </div>
+      <p className="text-gray-700">
+        候補 / Candidates: {progress.requested} requested · {progress.routed} routed · {progress.elevationFetched} with elevation
+        {progress.rejected > 0 && <span className="text-orange-600"> · {progress.rejected} rejected</span>}
+      </p>
+      {progress.recentRejections.length > 0 && (
+        <ul className="text-xs text-gray-500">
+          {progress.recentRejections.map((reason, i) => (
+            <li key={i}>{reason}</li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs text-gray-500">The best route so far is shown on the map.</p>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="w-full px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-100"
+      >
+        キャンセル / Cancel
+      </button>
+    </div>
+  );
+};
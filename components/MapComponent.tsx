@@ -1,17 +1,51 @@
 
-import React, { useEffect, useRef } from 'react';
-import type { LatLngLiteral } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import type { AvoidZone, GradeSegment, LatLngLiteral, MustPassPoint, RouteGeometry, WorkoutMarker, WorkoutSegment } from '../types';
+import { GRADE_BANDS } from '../services/gradeAnalysis';
+import { WORKOUT_SEGMENT_KINDS } from '../services/workoutOverlay';
+import { distanceBetweenM } from '../services/geo';
 
 interface MapComponentProps {
   center: LatLngLiteral;
   zoom: number;
-  startPoint: google.maps.LatLng | null;
-  onMarkerDragEnd: (position: google.maps.LatLng) => void;
-  routeResult: google.maps.DirectionsResult | null;
+  startPoint: LatLngLiteral | null;
+  onMarkerDragEnd: (position: LatLngLiteral) => void;
+  onPickStartPoint: (position: LatLngLiteral) => void; // map click with the "Set start" tool
+  finishPoint: LatLngLiteral | null; // shown for point-to-point courses
+  onFinishMarkerDragEnd: (position: LatLngLiteral) => void; // F marker dragged, or map click with the "Set finish" tool
+  isFinishLocked: boolean; // a course is being edited or run; the finish can't be moved
+  turnaroundPoint: LatLngLiteral | null;
+  route: RouteGeometry | null;
+  gradeSegments: GradeSegment[]; // colored by grade on top of the route; empty draws a plain red route
+  workoutSegments: WorkoutSegment[]; // an interval workout laid onto the course; drawn instead of the grade colors
+  workoutMarkers: WorkoutMarker[]; // km and rep start/end markers of the workout
+  highlightedPoint: LatLngLiteral | null; // position marker synced with the elevation profile
+  runner: { location: LatLngLiteral; isOffCourse: boolean } | null; // run-along mode's current position
+  routeBackPath: LatLngLiteral[]; // route from an off-course runner back to the course; empty when none
+  recordedTrack: LatLngLiteral[]; // an imported recorded run, drawn next to the course; empty when none
+  onRouteClick: (location: LatLngLiteral) => void;
+  isEditingRoute: boolean; // drag the route to add via points; drag via points to move them, double-click to remove
+  viaPoints: LatLngLiteral[];
+  onRouteDrag: (grabLocation: LatLngLiteral, dropLocation: LatLngLiteral) => void;
+  onViaPointMove: (index: number, location: LatLngLiteral) => void;
+  onViaPointRemove: (index: number) => void;
+  alternativeRoutes: { rank: number; route: RouteGeometry; color: string }[]; // other ranked candidates, drawn muted
+  onAlternativeRouteClick: (rank: number) => void;
+  avoidZones: AvoidZone[];
+  onAddAvoidZone: (polygon: LatLngLiteral[]) => void;
+  onAvoidZoneChange: (zone: AvoidZone) => void;
+  mustPassPoints: MustPassPoint[];
+  onAddMustPassPoint: (location: LatLngLiteral) => void;
+  onMustPassPointChange: (point: MustPassPoint) => void;
   onMapLoad: (map: google.maps.Map) => void;
   onGoToCurrentLocation: () => void;
 }
 
+type DrawingTool = 'none' | 'start' | 'finish' | 'avoid-zone' | 'must-pass';
+
+const toolButtonClass = (active: boolean) =>
+  `px-2 py-1 rounded-md shadow-lg text-xs font-medium transition-colors ${active ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`;
+
 const LocationIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
   <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" {...props}>
     <path d="M12 8c-2.21 0-4 1.79-4 4s1.79 4 4 4 4-1.79 4-4-1.79-4-4-4zm8.94 3A8.994 8.994 0 0013 3.06V1h-2v2.06A8.994 8.994 0 003.06 11H1v2h2.06A8.994 8.994 0 0011 20.94V23h2v-2.06A8.994 8.994 0 0020.94 13H23v-2h-2.06zM12 19c-3.87 0-7-3.13-7-7s3.13-7 7-7 7 3.13 7 7-3.13 7-7 7z" />
@@ -19,19 +53,68 @@ const LocationIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
 );
 
 
+const WORKOUT_MARKER_STYLES: Record<WorkoutMarker['kind'], { fillColor: string; scale: number; title: string }> = {
+  km: { fillColor: '#374151', scale: 7, title: 'km' },
+  'rep-start': { fillColor: '#16A34A', scale: 9, title: 'Rep start' },
+  'rep-end': { fillColor: '#111827', scale: 9, title: 'Rep end' },
+};
+
 export const MapComponent: React.FC<MapComponentProps> = ({
   center,
   zoom,
   startPoint,
   onMarkerDragEnd,
-  routeResult,
+  onPickStartPoint,
+  finishPoint,
+  onFinishMarkerDragEnd,
+  isFinishLocked,
+  turnaroundPoint,
+  route,
+  gradeSegments,
+  workoutSegments,
+  workoutMarkers,
+  highlightedPoint,
+  runner,
+  routeBackPath,
+  recordedTrack,
+  onRouteClick,
+  isEditingRoute,
+  viaPoints,
+  onRouteDrag,
+  onViaPointMove,
+  onViaPointRemove,
+  alternativeRoutes,
+  onAlternativeRouteClick,
+  avoidZones,
+  onAddAvoidZone,
+  onAvoidZoneChange,
+  mustPassPoints,
+  onAddMustPassPoint,
+  onMustPassPointChange,
   onMapLoad,
   onGoToCurrentLocation,
 }) => {
   const mapDivRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<google.maps.Map | null>(null);
   const startMarkerRef = useRef<google.maps.Marker | null>(null);
-  const directionsRendererRef = useRef<google.maps.DirectionsRenderer | null>(null);
+  const finishMarkerRef = useRef<google.maps.Marker | null>(null);
+  const turnaroundMarkerRef = useRef<google.maps.Marker | null>(null);
+  const routePolylineRef = useRef<google.maps.Polyline | null>(null);
+  const gradePolylinesRef = useRef<google.maps.Polyline[]>([]);
+  const workoutMarkersRef = useRef<google.maps.Marker[]>([]);
+  const alternativePolylinesRef = useRef<google.maps.Polyline[]>([]);
+  const viaMarkersRef = useRef<google.maps.Marker[]>([]);
+  const highlightMarkerRef = useRef<google.maps.Marker | null>(null);
+  const runnerMarkerRef = useRef<google.maps.Marker | null>(null);
+  const routeBackPolylineRef = useRef<google.maps.Polyline | null>(null);
+  const recordedTrackPolylineRef = useRef<google.maps.Polyline | null>(null);
+  const avoidZonePolygonsRef = useRef<google.maps.Polygon[]>([]);
+  const mustPassMarkersRef = useRef<google.maps.Marker[]>([]);
+  const draftZonePolylineRef = useRef<google.maps.Polyline | null>(null);
+  const [drawingTool, setDrawingTool] = useState<DrawingTool>('none');
+  const [draftZone, setDraftZone] = useState<LatLngLiteral[]>([]);
+  // Workout segments take the place of the grade colors while a workout is shown
+  const coloredSegments: { path: LatLngLiteral[]; color: string }[] = workoutSegments.length > 0 ? workoutSegments : gradeSegments;
 
   // Initialize map
   useEffect(() => {
@@ -87,7 +170,7 @@ export const MapComponent: React.FC<MapComponentProps> = ({
         marker.addListener('dragend', () => {
           const newPosition = marker.getPosition();
           if (newPosition) {
-            onMarkerDragEnd(newPosition);
+            onMarkerDragEnd(newPosition.toJSON());
           }
         });
         startMarkerRef.current = marker;
@@ -95,32 +178,447 @@ export const MapComponent: React.FC<MapComponentProps> = ({
     }
   }, [startPoint, onMarkerDragEnd]);
 
-  // Manage directions renderer
+  // Manage finish marker; it can be dragged unless the course is being edited or run
+  useEffect(() => {
+    if (mapInstanceRef.current && window.google) {
+      if (finishMarkerRef.current) {
+        finishMarkerRef.current.setMap(null);
+        google.maps.event.clearInstanceListeners(finishMarkerRef.current);
+        finishMarkerRef.current = null;
+      }
+
+      if (finishPoint) {
+        const marker = new window.google.maps.Marker({
+          position: finishPoint,
+          map: mapInstanceRef.current,
+          draggable: !isFinishLocked,
+          title: "Finish Point",
+          label: { text: "F", color: "#ffffff", fontWeight: "bold" },
+        });
+        marker.addListener('dragend', () => {
+          const newPosition = marker.getPosition();
+          if (newPosition) {
+            onFinishMarkerDragEnd(newPosition.toJSON());
+          }
+        });
+        finishMarkerRef.current = marker;
+      }
+    }
+  }, [finishPoint, isFinishLocked, onFinishMarkerDragEnd]);
+
+  // Manage turnaround marker (out-and-back courses)
+  useEffect(() => {
+    if (mapInstanceRef.current && window.google) {
+      if (turnaroundMarkerRef.current) {
+        turnaroundMarkerRef.current.setMap(null);
+        turnaroundMarkerRef.current = null;
+      }
+
+      if (turnaroundPoint) {
+        turnaroundMarkerRef.current = new window.google.maps.Marker({
+          position: turnaroundPoint,
+          map: mapInstanceRef.current,
+          title: "Turnaround Point",
+          icon: {
+            path: google.maps.SymbolPath.CIRCLE,
+            scale: 7,
+            fillColor: "#F59E0B", // Amber
+            fillOpacity: 1,
+            strokeColor: "#ffffff",
+            strokeWeight: 2,
+          }
+        });
+      }
+    }
+  }, [turnaroundPoint]);
+
+  // Manage route polyline
+  useEffect(() => {
+    if (mapInstanceRef.current && window.google) {
+      if (!routePolylineRef.current) {
+        routePolylineRef.current = new window.google.maps.Polyline({
+          strokeColor: '#FF0000', // Bright red for visibility
+          strokeOpacity: 0.8,
+          strokeWeight: 6,
+          zIndex: 2, // above alternative routes
+        });
+      }
+
+      routePolylineRef.current.setMap(mapInstanceRef.current);
+      // With grade colors on top, the route polyline becomes a white outline (and stays the click target)
+      routePolylineRef.current.setOptions(
+        coloredSegments.length > 0
+          ? { strokeColor: '#FFFFFF', strokeOpacity: 0.9, strokeWeight: 9 }
+          : { strokeColor: '#FF0000', strokeOpacity: 0.8, strokeWeight: 6 }
+      );
+      // An empty path clears the previous route when route is null
+      routePolylineRef.current.setPath(route ? route.path : []);
+    }
+  }, [route, coloredSegments]);
+
+  // Manage grade- or workout-colored segments
+  useEffect(() => {
+    if (mapInstanceRef.current && window.google) {
+      gradePolylinesRef.current.forEach((polyline) => polyline.setMap(null));
+      gradePolylinesRef.current = coloredSegments.map((segment) => new window.google.maps.Polyline({
+        map: mapInstanceRef.current,
+        path: segment.path,
+        strokeColor: segment.color,
+        strokeOpacity: 1,
+        strokeWeight: 5,
+        clickable: false,
+        zIndex: 3,
+      }));
+    }
+  }, [coloredSegments]);
+
+  // Manage the workout's km and rep start/end markers
+  useEffect(() => {
+    if (mapInstanceRef.current && window.google) {
+      workoutMarkersRef.current.forEach((marker) => marker.setMap(null));
+      workoutMarkersRef.current = workoutMarkers.map((marker) => {
+        const style = WORKOUT_MARKER_STYLES[marker.kind];
+        return new window.google.maps.Marker({
+          position: marker.location,
+          map: mapInstanceRef.current,
+          clickable: false,
+          title: `${style.title} ${marker.label}`,
+          label: { text: marker.label, color: '#ffffff', fontSize: '10px', fontWeight: 'bold' },
+          icon: {
+            path: google.maps.SymbolPath.CIRCLE,
+            scale: style.scale,
+            fillColor: style.fillColor,
+            fillOpacity: 1,
+            strokeColor: '#ffffff',
+            strokeWeight: 2,
+          },
+          zIndex: marker.kind === 'km' ? 4 : 5,
+        });
+      });
+    }
+  }, [workoutMarkers]);
+
+  // Forward clicks on the route so the elevation profile can highlight that spot
+  useEffect(() => {
+    const polyline = routePolylineRef.current;
+    if (!polyline || !route) return;
+    const listener = polyline.addListener('click', (e: google.maps.PolyMouseEvent) => {
+      if (e.latLng) {
+        onRouteClick(e.latLng.toJSON());
+      }
+    });
+    return () => listener.remove();
+  }, [route, onRouteClick]);
+
+  // Route editing: pressing on the route and dragging drops a new via point where the mouse is released
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    const polyline = routePolylineRef.current;
+    if (!map || !polyline || !route || !isEditingRoute) return;
+    let grab: LatLngLiteral | null = null;
+    let ghost: google.maps.Marker | null = null;
+
+    const moveGhost = (e: google.maps.MapMouseEvent) => {
+      if (grab && e.latLng) ghost?.setPosition(e.latLng);
+    };
+    const finishDrag = (e: google.maps.MapMouseEvent) => {
+      if (!grab) return;
+      const drop = e.latLng?.toJSON() ?? ghost?.getPosition()?.toJSON();
+      const start = grab;
+      grab = null;
+      ghost?.setMap(null);
+      ghost = null;
+      map.setOptions({ draggable: true });
+      // A plain click (no real movement) stays a click
+      if (drop && distanceBetweenM(start, drop) > 5) {
+        onRouteDrag(start, drop);
+      }
+    };
+
+    const listeners = [
+      polyline.addListener('mousedown', (e: google.maps.PolyMouseEvent) => {
+        if (!e.latLng) return;
+        grab = e.latLng.toJSON();
+        map.setOptions({ draggable: false });
+        ghost = new window.google.maps.Marker({
+          position: e.latLng,
+          map,
+          clickable: false,
+          zIndex: 1000,
+          icon: { path: google.maps.SymbolPath.CIRCLE, scale: 6, fillColor: '#ffffff', fillOpacity: 1, strokeColor: '#111827', strokeWeight: 2 },
+        });
+      }),
+      map.addListener('mousemove', moveGhost),
+      polyline.addListener('mousemove', moveGhost),
+      map.addListener('mouseup', finishDrag),
+      polyline.addListener('mouseup', finishDrag),
+    ];
+    return () => {
+      listeners.forEach((listener) => listener.remove());
+      ghost?.setMap(null);
+      map.setOptions({ draggable: true });
+    };
+  }, [route, isEditingRoute, onRouteDrag]);
+
+  // Manage via point markers (edit mode only)
+  useEffect(() => {
+    if (mapInstanceRef.current && window.google) {
+      viaMarkersRef.current.forEach((marker) => {
+        google.maps.event.clearInstanceListeners(marker);
+        marker.setMap(null);
+      });
+      viaMarkersRef.current = !isEditingRoute ? [] : viaPoints.map((point, i) => {
+        const marker = new window.google.maps.Marker({
+          position: point,
+          map: mapInstanceRef.current,
+          draggable: true,
+          title: "Drag to move, double-click to remove",
+          zIndex: 900,
+          icon: { path: google.maps.SymbolPath.CIRCLE, scale: 6, fillColor: '#ffffff', fillOpacity: 1, strokeColor: '#111827', strokeWeight: 2 },
+        });
+        marker.addListener('dragend', () => {
+          const position = marker.getPosition();
+          if (position) onViaPointMove(i, position.toJSON());
+        });
+        marker.addListener('dblclick', () => onViaPointRemove(i));
+        return marker;
+      });
+    }
+  }, [viaPoints, isEditingRoute, onViaPointMove, onViaPointRemove]);
+
+  // Manage alternative candidate routes; clicking one selects it
   useEffect(() => {
     if (mapInstanceRef.current && window.google) {
-      if (!directionsRendererRef.current) {
-        directionsRendererRef.current = new window.google.maps.DirectionsRenderer({
-            polylineOptions: {
-              strokeColor: '#FF0000', // Bright red for visibility
-              strokeOpacity: 0.8,
-              strokeWeight: 6,
-            },
-            markerOptions: { // Hide default A/B markers from DirectionsRenderer
-                suppressMarkers: true,
-            }
+      alternativePolylinesRef.current.forEach((polyline) => {
+        google.maps.event.clearInstanceListeners(polyline);
+        polyline.setMap(null);
+      });
+      alternativePolylinesRef.current = alternativeRoutes.map(({ rank, route: alternative, color }) => {
+        const polyline = new window.google.maps.Polyline({
+          map: mapInstanceRef.current,
+          path: alternative.path,
+          strokeColor: color,
+          strokeOpacity: 0.6,
+          strokeWeight: 4,
+          zIndex: 1,
         });
+        polyline.addListener('click', () => onAlternativeRouteClick(rank));
+        return polyline;
+      });
+    }
+  }, [alternativeRoutes, onAlternativeRouteClick]);
+
+  // Manage highlighted position marker
+  useEffect(() => {
+    if (mapInstanceRef.current && window.google) {
+      if (!highlightedPoint) {
+        highlightMarkerRef.current?.setMap(null);
+        return;
       }
-      
-      directionsRendererRef.current.setMap(mapInstanceRef.current);
+      if (!highlightMarkerRef.current) {
+        highlightMarkerRef.current = new window.google.maps.Marker({
+          clickable: false,
+          zIndex: 1000,
+          icon: {
+            path: google.maps.SymbolPath.CIRCLE,
+            scale: 6,
+            fillColor: "#DC2626", // Red
+            fillOpacity: 1,
+            strokeColor: "#ffffff",
+            strokeWeight: 2,
+          }
+        });
+      }
+      highlightMarkerRef.current.setPosition(highlightedPoint);
+      highlightMarkerRef.current.setMap(mapInstanceRef.current);
+    }
+  }, [highlightedPoint]);
+
+  // Manage the runner marker; the map follows the runner when they reach the edge of the view
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !window.google) return;
+    if (!runner) {
+      runnerMarkerRef.current?.setMap(null);
+      return;
+    }
+    if (!runnerMarkerRef.current) {
+      runnerMarkerRef.current = new window.google.maps.Marker({ clickable: false, zIndex: 1001, title: "Runner" });
+    }
+    runnerMarkerRef.current.setIcon({
+      path: google.maps.SymbolPath.CIRCLE,
+      scale: 9,
+      fillColor: runner.isOffCourse ? "#DC2626" : "#16A34A", // Red when off course, green otherwise
+      fillOpacity: 1,
+      strokeColor: "#ffffff",
+      strokeWeight: 3,
+    });
+    runnerMarkerRef.current.setPosition(runner.location);
+    runnerMarkerRef.current.setMap(map);
+    if (!map.getBounds()?.contains(runner.location)) map.panTo(runner.location);
+  }, [runner]);
+
+  // Manage the dashed route back to the course
+  useEffect(() => {
+    if (mapInstanceRef.current && window.google) {
+      if (!routeBackPolylineRef.current) {
+        routeBackPolylineRef.current = new window.google.maps.Polyline({
+          map: mapInstanceRef.current,
+          strokeOpacity: 0,
+          clickable: false,
+          zIndex: 5,
+          icons: [{
+            icon: { path: 'M 0,-1 0,1', strokeColor: '#DC2626', strokeOpacity: 1, scale: 3 },
+            offset: '0',
+            repeat: '12px',
+          }],
+        });
+      }
+      routeBackPolylineRef.current.setPath(routeBackPath);
+    }
+  }, [routeBackPath]);
+
+  // Manage the imported recorded run, under the course so both stay visible
+  useEffect(() => {
+    if (mapInstanceRef.current && window.google) {
+      if (!recordedTrackPolylineRef.current) {
+        recordedTrackPolylineRef.current = new window.google.maps.Polyline({
+          map: mapInstanceRef.current,
+          strokeColor: '#F97316', // Orange
+          strokeOpacity: 0.8,
+          strokeWeight: 7,
+          clickable: false,
+          zIndex: 0,
+        });
+      }
+      recordedTrackPolylineRef.current.setPath(recordedTrack);
+    }
+  }, [recordedTrack]);
 
-      if (routeResult) {
-        directionsRendererRef.current.setDirections(routeResult);
+  // Drawing tools: map clicks set the start or finish, drop a must-pass pin, or add corners to the avoidance zone being drawn
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !window.google || drawingTool === 'none') return;
+    map.setOptions({ draggableCursor: 'crosshair', disableDoubleClickZoom: true });
+    const listener = map.addListener('click', (e: google.maps.MapMouseEvent) => {
+      if (!e.latLng) return;
+      const location = e.latLng.toJSON();
+      if (drawingTool === 'start') {
+        onPickStartPoint(location);
+        setDrawingTool('none');
+      } else if (drawingTool === 'finish') {
+        onFinishMarkerDragEnd(location);
+        setDrawingTool('none');
+      } else if (drawingTool === 'must-pass') {
+        onAddMustPassPoint(location);
+        setDrawingTool('none');
       } else {
-        // Clear previous route if routeResult is null
-        directionsRendererRef.current.setDirections({routes: []} as google.maps.DirectionsResult);
+        setDraftZone((draft) => [...draft, location]);
       }
+    });
+    return () => {
+      listener.remove();
+      map.setOptions({ draggableCursor: null, disableDoubleClickZoom: false });
+    };
+  }, [drawingTool, onAddMustPassPoint, onFinishMarkerDragEnd, onPickStartPoint]);
+
+  // The finish can only be picked from the map while there is a finish and no course is shown
+  const canPickFinish = finishPoint !== null && route === null && !isFinishLocked;
+  useEffect(() => {
+    if (!canPickFinish) setDrawingTool((current) => (current === 'finish' ? 'none' : current));
+  }, [canPickFinish]);
+
+  const finishDraftZone = () => {
+    if (draftZone.length >= 3) {
+      onAddAvoidZone(draftZone);
+    }
+    setDraftZone([]);
+    setDrawingTool('none');
+  };
+
+  const toggleTool = (tool: DrawingTool) => {
+    setDraftZone([]);
+    setDrawingTool((current) => (current === tool ? 'none' : tool));
+  };
+
+  // Manage the outline of the zone being drawn
+  useEffect(() => {
+    if (mapInstanceRef.current && window.google) {
+      if (!draftZonePolylineRef.current) {
+        draftZonePolylineRef.current = new window.google.maps.Polyline({
+          map: mapInstanceRef.current,
+          strokeColor: '#B91C1C',
+          strokeOpacity: 0.9,
+          strokeWeight: 2,
+          clickable: false,
+        });
+      }
+      draftZonePolylineRef.current.setPath(draftZone.length > 0 ? [...draftZone, draftZone[0]] : []);
+    }
+  }, [draftZone]);
+
+  // Manage avoidance zone polygons; enabled zones can be reshaped by dragging their corners
+  useEffect(() => {
+    if (mapInstanceRef.current && window.google) {
+      avoidZonePolygonsRef.current.forEach((polygon) => {
+        google.maps.event.clearInstanceListeners(polygon.getPath());
+        polygon.setMap(null);
+      });
+      avoidZonePolygonsRef.current = avoidZones.map((zone) => {
+        const polygon = new window.google.maps.Polygon({
+          map: mapInstanceRef.current,
+          paths: zone.polygon,
+          strokeColor: zone.enabled ? '#B91C1C' : '#9CA3AF',
+          strokeWeight: 2,
+          fillColor: zone.enabled ? '#EF4444' : '#9CA3AF',
+          fillOpacity: 0.2,
+          editable: zone.enabled,
+          clickable: false,
+        });
+        const path = polygon.getPath();
+        const handlePathChange = () => onAvoidZoneChange({ ...zone, polygon: path.getArray().map((p) => p.toJSON()) });
+        path.addListener('set_at', handlePathChange);
+        path.addListener('insert_at', handlePathChange);
+        path.addListener('remove_at', handlePathChange);
+        return polygon;
+      });
+    }
+  }, [avoidZones, onAvoidZoneChange]);
+
+  // Manage must-pass pins
+  useEffect(() => {
+    if (mapInstanceRef.current && window.google) {
+      mustPassMarkersRef.current.forEach((marker) => {
+        google.maps.event.clearInstanceListeners(marker);
+        marker.setMap(null);
+      });
+      mustPassMarkersRef.current = mustPassPoints.map((point, i) => {
+        const marker = new window.google.maps.Marker({
+          position: point.location,
+          map: mapInstanceRef.current,
+          draggable: true,
+          title: point.name,
+          opacity: point.enabled ? 1 : 0.5,
+          label: { text: String(i + 1), color: '#ffffff', fontWeight: 'bold' },
+          icon: {
+            path: google.maps.SymbolPath.CIRCLE,
+            scale: 9,
+            fillColor: '#7C3AED', // Violet
+            fillOpacity: 1,
+            strokeColor: '#ffffff',
+            strokeWeight: 2,
+          },
+        });
+        marker.addListener('dragend', () => {
+          const position = marker.getPosition();
+          if (position) {
+            onMustPassPointChange({ ...point, location: position.toJSON() });
+          }
+        });
+        return marker;
+      });
     }
-  }, [routeResult]);
+  }, [mustPassPoints, onMustPassPointChange]);
 
   return (
     <div className="w-full h-full relative">
@@ -132,6 +630,62 @@ export const MapComponent: React.FC<MapComponentProps> = ({
       >
         <LocationIcon className="w-6 h-6 text-blue-600" />
       </button>
+      <div className="absolute top-4 left-16 z-10 flex flex-wrap items-center gap-2">
+        <button type="button" onClick={() => toggleTool('start')} className={toolButtonClass(drawingTool === 'start')}>
+          スタート / Set start
+        </button>
+        {canPickFinish && (
+          <button type="button" onClick={() => toggleTool('finish')} className={toolButtonClass(drawingTool === 'finish')}>
+            ゴール / Set finish
+          </button>
+        )}
+        <button type="button" onClick={() => toggleTool('avoid-zone')} className={toolButtonClass(drawingTool === 'avoid-zone')}>
+          回避エリア / Avoid zone
+        </button>
+        <button type="button" onClick={() => toggleTool('must-pass')} className={toolButtonClass(drawingTool === 'must-pass')}>
+          経由地点 / Must-pass pin
+        </button>
+        {drawingTool === 'avoid-zone' && (
+          <>
+            <span className="px-2 py-1 bg-white/90 rounded-md shadow text-xs text-gray-600">
+              Click to add corners ({draftZone.length})
+            </span>
+            <button type="button" onClick={finishDraftZone} disabled={draftZone.length < 3} className={`${toolButtonClass(false)} disabled:opacity-50`}>
+              完了 / Done
+            </button>
+          </>
+        )}
+        {drawingTool === 'start' && (
+          <span className="px-2 py-1 bg-white/90 rounded-md shadow text-xs text-gray-600">Click the map to set the start</span>
+        )}
+        {drawingTool === 'finish' && (
+          <span className="px-2 py-1 bg-white/90 rounded-md shadow text-xs text-gray-600">Click the map to set the finish</span>
+        )}
+        {drawingTool === 'must-pass' && (
+          <span className="px-2 py-1 bg-white/90 rounded-md shadow text-xs text-gray-600">Click the map to drop a pin</span>
+        )}
+      </div>
+      {workoutSegments.length > 0 ? (
+        <div className="absolute bottom-6 left-4 z-10 bg-white/90 p-2 rounded-md shadow-lg text-xs">
+          <p className="font-semibold text-gray-700 mb-1">ワークアウト / Workout</p>
+          {Object.values(WORKOUT_SEGMENT_KINDS).map((kind) => (
+            <div key={kind.label} className="flex items-center gap-2">
+              <span className="inline-block w-4 h-1.5 rounded" style={{ backgroundColor: kind.color }} />
+              <span className="text-gray-600">{kind.label}</span>
+            </div>
+          ))}
+        </div>
+      ) : gradeSegments.length > 0 && (
+        <div className="absolute bottom-6 left-4 z-10 bg-white/90 p-2 rounded-md shadow-lg text-xs">
+          <p className="font-semibold text-gray-700 mb-1">勾配 / Grade</p>
+          {[...GRADE_BANDS].reverse().map((band) => (
+            <div key={band.label} className="flex items-center gap-2">
+              <span className="inline-block w-4 h-1.5 rounded" style={{ backgroundColor: band.color }} />
+              <span className="text-gray-600">{band.label}</span>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import type { KmSplit, PaceProfile } from '../types';
+import { DEFAULT_PACE_PROFILES, formatMinutes, parseMinutes } from '../services/paceModel';
+
+const fieldClass =
+  'block w-full px-2 py-1 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+interface PaceProfilePickerProps {
+  profiles: PaceProfile[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onProfilesChange: (profiles: PaceProfile[], activeId: string) => void;
+  disabled?: boolean;
+}
+
+// Profile select plus an editable flat pace. Built-in profiles can be tuned but not deleted.
+export const PaceProfilePicker: React.FC<PaceProfilePickerProps> = ({ profiles, activeId, onSelect, onProfilesChange, disabled }) => {
+  const active = profiles.find((p) => p.id === activeId) ?? profiles[0];
+  const [paceText, setPaceText] = useState(formatMinutes(active.flatPaceMinPerKm));
+  const isBuiltIn = DEFAULT_PACE_PROFILES.some((p) => p.id === active.id);
+
+  useEffect(() => setPaceText(formatMinutes(active.flatPaceMinPerKm)), [active.id, active.flatPaceMinPerKm]);
+
+  const commitPace = () => {
+    const pace = parseMinutes(paceText);
+    if (pace === null) {
+      setPaceText(formatMinutes(active.flatPaceMinPerKm));
+      return;
+    }
+    onProfilesChange(profiles.map((p) => (p.id === active.id ? { ...p, flatPaceMinPerKm: pace } : p)), active.id);
+  };
+
+  const handleSaveAsNew = () => {
+    const name = window.prompt("Profile name / プロファイル名", `${active.name} (copy)`);
+    if (!name || !name.trim()) return;
+    const profile: PaceProfile = { ...active, id: `custom-${Date.now().toString(36)}`, name: name.trim() };
+    onProfilesChange([...profiles, profile], profile.id);
+  };
+
+  const handleDelete = () => {
+    if (isBuiltIn || !window.confirm(`Delete "${active.name}"?`)) return;
+    const remaining = profiles.filter((p) => p.id !== active.id);
+    onProfilesChange(remaining, remaining[0].id);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <select id="pace-profile" className={fieldClass} value={active.id} onChange={(e) => onSelect(e.target.value)} disabled={disabled}>
+          {profiles.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <input
+          className={fieldClass}
+          value={paceText}
+          onChange={(e) => setPaceText(e.target.value)}
+          onBlur={commitPace}
+          onKeyDown={(e) => e.key === 'Enter' && commitPace()}
+          placeholder="5:30"
+          aria-label="Flat pace (min/km)"
+          disabled={disabled}
+        />
+      </div>
+      <p className="text-xs text-gray-500">平地ペース / Flat pace (min/km); hills adjust it automatically.</p>
+      <div className="flex gap-3 text-xs">
+        <button type="button" onClick={handleSaveAsNew} className="text-blue-600 hover:underline" disabled={disabled}>
+          新規保存 / Save as new
+        </button>
+        {!isBuiltIn && (
+          <button type="button" onClick={handleDelete} className="text-red-600 hover:underline" disabled={disabled}>
+            削除 / Delete
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface SplitTableProps {
+  splits: KmSplit[];
+  onSelectKm?: (startDistanceM: number) => void;
+}
+
+// Predicted per-km splits; a short final km is labelled with the course's total distance.
+export const SplitTable: React.FC<SplitTableProps> = ({ splits, onSelectKm }) => {
+  if (splits.length === 0) return null;
+  let elapsedMin = 0;
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="font-medium py-0.5">Km</th>
+          <th className="font-medium">Split</th>
+          <th className="font-medium">Pace</th>
+          <th className="font-medium">+/− m</th>
+          <th className="font-medium text-right">Total</th>
+        </tr>
+      </thead>
+      <tbody>
+        {splits.map((split) => {
+          elapsedMin += split.timeMin;
+          return (
+            <tr
+              key={split.km}
+              onClick={() => onSelectKm?.((split.km - 1) * 1000)}
+              className={onSelectKm ? 'cursor-pointer hover:bg-green-100' : undefined}
+            >
+              <td className="py-0.5">{split.distanceM < 999 ? (split.km - 1 + split.distanceM / 1000).toFixed(2) : split.km}</td>
+              <td>{formatMinutes(split.timeMin)}</td>
+              <td>{formatMinutes(split.paceMinPerKm)}</td>
+              <td>
+                <span className="text-orange-700">+{split.elevationGainM.toFixed(0)}</span>{' '}
+                <span className="text-blue-700">−{split.elevationLossM.toFixed(0)}</span>
+              </td>
+              <td className="text-right">{formatMinutes(elapsedMin)}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+};
@@ -0,0 +1,93 @@
+import React from 'react';
+import type { AvoidZone, MustPassPoint } from '../types';
+
+interface RouteConstraintsPanelProps {
+  avoidZones: AvoidZone[];
+  onAvoidZoneChange: (zone: AvoidZone) => void;
+  onDeleteAvoidZone: (id: string) => void;
+  mustPassPoints: MustPassPoint[];
+  onMustPassPointChange: (point: MustPassPoint) => void;
+  onDeleteMustPassPoint: (id: string) => void;
+  error: string | null;
+}
+
+const fieldClass =
+  'block w-full px-2 py-1 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+// One editable row: enable toggle, name and delete. Used for both zones and pins.
+const ConstraintRow: React.FC<{
+  name: string;
+  enabled: boolean;
+  badge: React.ReactNode;
+  onChange: (changes: { name?: string; enabled?: boolean }) => void;
+  onDelete: () => void;
+}> = ({ name, enabled, badge, onChange, onDelete }) => (
+  <li className="flex items-center gap-2 text-sm">
+    <input type="checkbox" checked={enabled} onChange={(e) => onChange({ enabled: e.target.checked })} title="有効 / Enabled" />
+    {badge}
+    <input
+      className={fieldClass}
+      defaultValue={name}
+      onBlur={(e) => e.target.value.trim() && e.target.value.trim() !== name && onChange({ name: e.target.value.trim() })}
+    />
+    <button type="button" onClick={onDelete} className="text-red-600 hover:underline text-xs whitespace-nowrap">
+      削除 / Delete
+    </button>
+  </li>
+);
+
+export const RouteConstraintsPanel: React.FC<RouteConstraintsPanelProps> = ({
+  avoidZones,
+  onAvoidZoneChange,
+  onDeleteAvoidZone,
+  mustPassPoints,
+  onMustPassPointChange,
+  onDeleteMustPassPoint,
+  error,
+}) => (
+  <div className="space-y-3 p-2 mt-4 border-t border-gray-200 pt-6">
+    <h3 className="text-lg font-semibold text-gray-800">回避エリア・経由地点 / Zones &amp; Pins</h3>
+    {error && (
+      <div className="p-2 bg-red-100 border border-red-400 text-red-700 rounded-md text-sm">{error}</div>
+    )}
+    {avoidZones.length === 0 && mustPassPoints.length === 0 ? (
+      <p className="text-sm text-gray-500">
+        Use the map tools to draw areas to avoid or drop pins the course must pass.
+      </p>
+    ) : (
+      <>
+        {avoidZones.length > 0 && (
+          <ul className="space-y-1">
+            {avoidZones.map((zone) => (
+              <ConstraintRow
+                key={zone.id}
+                name={zone.name}
+                enabled={zone.enabled}
+                badge={<span className="inline-block w-3 h-3 rounded-sm bg-red-400 border border-red-700 shrink-0" />}
+                onChange={(changes) => onAvoidZoneChange({ ...zone, ...changes })}
+                onDelete={() => onDeleteAvoidZone(zone.id)}
+              />
+            ))}
+          </ul>
+        )}
+        {mustPassPoints.length > 0 && (
+          <ul className="space-y-1">
+            {mustPassPoints.map((point, i) => (
+              <ConstraintRow
+                key={point.id}
+                name={point.name}
+                enabled={point.enabled}
+                badge={<span className="inline-flex w-5 h-5 items-center justify-center rounded-full bg-violet-600 text-white text-xs shrink-0">{i + 1}</span>}
+                onChange={(changes) => onMustPassPointChange({ ...point, ...changes })}
+                onDelete={() => onDeleteMustPassPoint(point.id)}
+              />
+            ))}
+          </ul>
+        )}
+        <p className="text-xs text-gray-500">
+          Drag zone corners or pins on the map to adjust them. Changes apply to the next generated course.
+        </p>
+      </>
+    )}
+  </div>
+);
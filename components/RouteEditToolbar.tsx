@@ -0,0 +1,53 @@
+import React from 'react';
+import { Button } from './ui/Button';
+
+export interface RouteEditToolbarProps {
+  isEditing: boolean;
+  onToggleEditing: () => void;
+  isRerouting: boolean;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  error: string | null;
+  warnings: string[]; // route constraints the edited course breaks
+}
+
+const secondaryClass = 'px-3 py-1.5 text-xs font-medium rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed';
+
+export const RouteEditToolbar: React.FC<RouteEditToolbarProps> = ({
+  isEditing,
+  onToggleEditing,
+  isRerouting,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  error,
+  warnings,
+}) => (
+  <div className="space-y-2">
+    <div className="flex gap-2">
+      <Button onClick={onToggleEditing} className="flex-grow">
+        {isEditing ? '編集を終了 / Done Editing' : 'ルートを編集 / Edit Route'}
+      </Button>
+      <button type="button" onClick={onUndo} disabled={!canUndo || isRerouting} className={secondaryClass} title="Undo">
+        ↶
+      </button>
+      <button type="button" onClick={onRedo} disabled={!canRedo || isRerouting} className={secondaryClass} title="Redo">
+        ↷
+      </button>
+    </div>
+    {isEditing && (
+      <p className="text-xs text-gray-500">
+        {isRerouting
+          ? 'Re-routing...'
+          : 'ルートをドラッグして経由点を追加 / Drag the route to add a via point. Drag via points to move them; double-click to remove.'}
+      </p>
+    )}
+    {error && <p className="text-xs text-red-600">{error}</p>}
+    {warnings.map((warning) => (
+      <p key={warning} className="text-xs text-orange-600">! The edited course {warning}.</p>
+    ))}
+  </div>
+);
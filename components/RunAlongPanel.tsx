@@ -0,0 +1,158 @@
+import React, { useRef, useState } from 'react';
+import type { RunProgress } from '../types';
+import { formatMinutes } from '../services/paceModel';
+import { ACTIVITY_FILE_ACCEPT } from '../services/activityImport';
+
+interface RunAlongPanelProps {
+  canStart: boolean; // a course is shown and not being edited
+  progress: RunProgress | null; // null when no run is in progress
+  sourceName: string | null; // 'device' or 'replay' while running
+  onStartRun: () => void;
+  onReplayRun: (file: File, speed: number) => void;
+  onStopRun: () => void;
+  onRouteBack: () => void;
+  isRoutingBack: boolean;
+  hasRouteBack: boolean; // a route back to the course is shown on the map
+  error: string | null;
+}
+
+const REPLAY_SPEEDS = [1, 5, 20, 60];
+
+const buttonClass = 'px-3 py-1.5 text-sm font-medium rounded-md border disabled:opacity-50 disabled:cursor-not-allowed';
+
+const formatDistance = (meters: number): string => (meters >= 1000 ? `${(meters / 1000).toFixed(2)} km` : `${Math.round(meters)} m`);
+
+// Run-along mode: follows the runner along the shown course with distance, split pace against the plan,
+// the next turns and an off-course alert.
+export const RunAlongPanel: React.FC<RunAlongPanelProps> = ({
+  canStart,
+  progress,
+  sourceName,
+  onStartRun,
+  onReplayRun,
+  onStopRun,
+  onRouteBack,
+  isRoutingBack,
+  hasRouteBack,
+  error,
+}) => {
+  const [replaySpeed, setReplaySpeed] = useState(REPLAY_SPEEDS[1]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onReplayRun(file, replaySpeed);
+    e.target.value = ''; // allow replaying the same file again
+  };
+
+  if (!progress) {
+    return (
+      <div className="space-y-2 p-2 mt-4 border-t border-gray-200 pt-4">
+        <h3 className="text-sm font-medium text-gray-700">ランニング / Run Along</h3>
+        <button
+          type="button"
+          onClick={onStartRun}
+          disabled={!canStart}
+          className={`${buttonClass} w-full border-transparent bg-green-600 text-white hover:bg-green-700`}
+        >
+          ラン開始 / Start run
+        </button>
+        <div className="flex items-center gap-2 text-xs text-gray-600">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!canStart}
+            className={`${buttonClass} border-gray-300 bg-white text-gray-700 hover:bg-gray-100 text-xs`}
+          >
+            記録を再生 / Replay recording
+          </button>
+          <label htmlFor="replay-speed">Speed</label>
+          <select
+            id="replay-speed"
+            value={replaySpeed}
+            onChange={(e) => setReplaySpeed(Number(e.target.value))}
+            className="px-1 py-0.5 border border-gray-300 rounded"
+          >
+            {REPLAY_SPEEDS.map((speed) => (
+              <option key={speed} value={speed}>{speed}×</option>
+            ))}
+          </select>
+          <input ref={fileInputRef} type="file" accept={ACTIVITY_FILE_ACCEPT} onChange={handleFileChange} className="hidden" />
+        </div>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    );
+  }
+
+  const aheadMin = progress.plannedElapsedMin - progress.elapsedMin;
+  const splitDelta =
+    progress.splitPaceMinPerKm !== null && progress.plannedSplitPaceMinPerKm !== null
+      ? progress.splitPaceMinPerKm - progress.plannedSplitPaceMinPerKm
+      : null;
+
+  return (
+    <div className="space-y-3 p-2 mt-4 border-t border-gray-200 pt-4 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-gray-700">
+          ランニング中 / Running{sourceName === 'replay' && <span className="ml-1 text-xs text-gray-500">(replay)</span>}
+        </h3>
+        <button type="button" onClick={onStopRun} className={`${buttonClass} border-gray-300 bg-white text-gray-700 hover:bg-gray-100`}>
+          停止 / Stop
+        </button>
+      </div>
+
+      {progress.isOffCourse && (
+        <div className="p-2 bg-red-100 border border-red-300 rounded-md text-red-800 space-y-2" role="alert">
+          <p className="font-semibold">コース外 / Off course — {Math.round(progress.offCourseM)} m from the route</p>
+          <button
+            type="button"
+            onClick={onRouteBack}
+            disabled={isRoutingBack}
+            className={`${buttonClass} border-transparent bg-red-600 text-white hover:bg-red-700`}
+          >
+            {isRoutingBack ? 'Routing…' : hasRouteBack ? 'ルート更新 / Update route back' : 'コースへ戻る / Route back to course'}
+          </button>
+        </div>
+      )}
+      {progress.isFinished && <p className="p-2 bg-green-100 rounded-md text-green-800 font-semibold">完走 / Course complete!</p>}
+
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+        <dt className="text-gray-500">走行 / Covered</dt>
+        <dd className="text-right font-medium">{formatDistance(progress.distanceCoveredM)}</dd>
+        <dt className="text-gray-500">残り / Remaining</dt>
+        <dd className="text-right font-medium">{formatDistance(progress.distanceRemainingM)}</dd>
+        <dt className="text-gray-500">経過 / Elapsed</dt>
+        <dd className="text-right font-medium">
+          {formatMinutes(progress.elapsedMin)}
+          <span className={`ml-1 text-xs ${aheadMin >= 0 ? 'text-green-700' : 'text-orange-600'}`}>
+            ({aheadMin >= 0 ? '-' : '+'}{formatMinutes(Math.abs(aheadMin))})
+          </span>
+        </dd>
+        <dt className="text-gray-500">{progress.currentKm} km ペース / Pace</dt>
+        <dd className="text-right font-medium">
+          {progress.splitPaceMinPerKm !== null ? `${formatMinutes(progress.splitPaceMinPerKm)} /km` : '—'}
+          {progress.plannedSplitPaceMinPerKm !== null && (
+            <span className={`ml-1 text-xs ${splitDelta !== null && splitDelta > 0 ? 'text-orange-600' : 'text-gray-500'}`}>
+              plan {formatMinutes(progress.plannedSplitPaceMinPerKm)}
+            </span>
+          )}
+        </dd>
+      </dl>
+
+      {progress.upcomingTurns.length > 0 && (
+        <div>
+          <p className="font-medium text-gray-700 mb-1">次の曲がり角 / Next turns</p>
+          <ul className="space-y-1">
+            {progress.upcomingTurns.map((turn, i) => (
+              <li key={i} className={`flex justify-between gap-2 ${i === 0 ? 'font-semibold text-gray-800' : 'text-gray-600'}`}>
+                <span>{turn.instruction}</span>
+                <span className="whitespace-nowrap">{formatDistance(turn.inM)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
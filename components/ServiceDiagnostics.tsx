@@ -0,0 +1,47 @@
+import React from 'react';
+import type { ServiceDiagnostics as ServiceDiagnosticsData } from '../types';
+
+interface ServiceDiagnosticsProps {
+  diagnostics: ServiceDiagnosticsData | null; // null until the first map service request
+  onClearCache: () => void;
+}
+
+const percent = (part: number, whole: number): string => (whole > 0 ? `${((part / whole) * 100).toFixed(0)}%` : '–');
+
+// Budget usage turns orange past 80% and red once used up
+const usageClass = (used: number, budget: number): string =>
+  used >= budget ? 'text-red-600' : used >= budget * 0.8 ? 'text-orange-600' : 'text-gray-800';
+
+// Collapsed by default: cache hit rate, request budgets and retry counts of the map service layer.
+export const ServiceDiagnostics: React.FC<ServiceDiagnosticsProps> = ({ diagnostics, onClearCache }) => (
+  <details className="p-2 mt-4 border-t border-gray-200 pt-6 text-sm">
+    <summary className="cursor-pointer text-lg font-semibold text-gray-800">サービス診断 / Service Diagnostics</summary>
+    {diagnostics ? (
+      <div className="mt-2 space-y-1 text-gray-700">
+        <p>
+          <strong>Cache hit rate:</strong> {percent(diagnostics.cacheHits, diagnostics.cacheHits + diagnostics.cacheMisses)}{' '}
+          <span className="text-gray-500">({diagnostics.cacheHits} hits / {diagnostics.cacheMisses} misses)</span>
+        </p>
+        <p><strong>Shared in-flight:</strong> {diagnostics.deduplicated}</p>
+        <p>
+          <strong>Session requests:</strong>{' '}
+          <span className={usageClass(diagnostics.sessionRequests, diagnostics.sessionBudget)}>
+            {diagnostics.sessionRequests} / {diagnostics.sessionBudget}
+          </span>
+        </p>
+        <p>
+          <strong>Today:</strong>{' '}
+          <span className={usageClass(diagnostics.dailyRequests, diagnostics.dailyBudget)}>
+            {diagnostics.dailyRequests} / {diagnostics.dailyBudget}
+          </span>
+        </p>
+        <p><strong>Retries:</strong> {diagnostics.retries} · <strong>Failures:</strong> {diagnostics.failures}</p>
+        <button type="button" onClick={onClearCache} className="text-blue-600 hover:underline text-xs">
+          キャッシュを削除 / Clear cache
+        </button>
+      </div>
+    ) : (
+      <p className="mt-2 text-gray-500">No map service requests yet.</p>
+    )}
+  </details>
+);
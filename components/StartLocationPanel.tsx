@@ -0,0 +1,192 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { LatLngLiteral, PlaceSuggestion, StartLocation } from '../types';
+import { formatCoordinates } from '../services/startLocations';
+
+interface StartLocationPanelProps {
+  startPoint: LatLngLiteral | null;
+  startLabel: string | null; // reverse geocoded name of the start point
+  onSearch: (query: string) => Promise<PlaceSuggestion[]>;
+  autocomplete: boolean; // search as the user types; otherwise only when Enter is pressed
+  onSelectSuggestion: (suggestion: PlaceSuggestion) => void;
+  startLocations: StartLocation[]; // favourites first, then recent starts
+  isFavourite: boolean; // the current start is a favourite
+  onToggleFavourite: () => void;
+  onSelectStartLocation: (location: StartLocation) => void;
+  onRemoveStartLocation: (id: string) => void;
+  disabled: boolean;
+  error: string | null;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+const fieldClass =
+  'block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+// Start point search (with autocomplete where the geocoder allows it), the current start's name, and the
+// recent/favourite starts list.
+export const StartLocationPanel: React.FC<StartLocationPanelProps> = ({
+  startPoint,
+  startLabel,
+  onSearch,
+  autocomplete,
+  onSelectSuggestion,
+  startLocations,
+  isFavourite,
+  onToggleFavourite,
+  onSelectStartLocation,
+  onRemoveStartLocation,
+  disabled,
+  error,
+}) => {
+  const [query, setQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<PlaceSuggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  // Only the latest search may update the suggestions
+  const searchIdRef = useRef(0);
+
+  const search = (text: string) => {
+    const searchId = ++searchIdRef.current;
+    onSearch(text)
+      .then((results) => {
+        if (searchId !== searchIdRef.current) return;
+        setSuggestions(results);
+        setActiveIndex(-1);
+        setSearchError(null);
+      })
+      .catch((err) => {
+        if (searchId === searchIdRef.current) setSearchError(err instanceof Error ? err.message : "Search failed.");
+      });
+  };
+  const searchRef = useRef(search);
+  searchRef.current = search;
+
+  // Editing the query drops the results for the previous one; with autocomplete it searches again after a pause
+  useEffect(() => {
+    searchIdRef.current++;
+    setSuggestions([]);
+    if (!autocomplete || query.trim().length < MIN_QUERY_LENGTH) return;
+    const timer = setTimeout(() => searchRef.current(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query, autocomplete]);
+
+  const choose = (suggestion: PlaceSuggestion) => {
+    searchIdRef.current++;
+    setQuery('');
+    setSuggestions([]);
+    onSelectSuggestion(suggestion);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) {
+      if (e.key === 'Enter' && query.trim().length > 0) {
+        e.preventDefault();
+        search(query.trim());
+      }
+      return;
+    }
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((i) => (i + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((i) => (i <= 0 ? suggestions.length - 1 : i - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      choose(suggestions[Math.max(activeIndex, 0)]);
+    } else if (e.key === 'Escape') {
+      setSuggestions([]);
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-2 mb-4 border-b border-gray-200 pb-6">
+      <div className="relative">
+        <label htmlFor="start-search" className="block text-sm font-medium text-gray-700 mb-1">
+          スタート地点を検索 / Search Start Point
+        </label>
+        <input
+          id="start-search"
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={autocomplete ? 'Address or landmark' : 'Address or landmark, then Enter'}
+          autoComplete="off"
+          disabled={disabled}
+          className={fieldClass}
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute z-20 mt-1 w-full bg-white border border-gray-300 rounded-md shadow-lg text-sm max-h-60 overflow-y-auto">
+            {suggestions.map((suggestion, i) => (
+              <li key={suggestion.id}>
+                <button
+                  type="button"
+                  // mousedown fires before the input loses focus
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    choose(suggestion);
+                  }}
+                  className={`w-full text-left px-3 py-1.5 ${i === activeIndex ? 'bg-blue-100' : 'hover:bg-gray-100'}`}
+                >
+                  {suggestion.label}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {searchError && <p className="mt-1 text-xs text-red-600">{searchError}</p>}
+        <p className="mt-1 text-xs text-gray-500">Or use "Set start" on the map, or drag the start marker.</p>
+      </div>
+
+      {startPoint && (
+        <div className="flex items-start gap-2 text-sm">
+          <div className="flex-grow">
+            <p className="font-medium text-gray-700">スタート / Start</p>
+            <p className="text-gray-600">{startLabel ?? formatCoordinates(startPoint)}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onToggleFavourite}
+            title={isFavourite ? 'お気に入りから削除 / Remove favourite' : 'お気に入りに追加 / Add to favourites'}
+            className={`text-xl leading-none ${isFavourite ? 'text-yellow-500' : 'text-gray-400 hover:text-yellow-500'}`}
+          >
+            {isFavourite ? '★' : '☆'}
+          </button>
+        </div>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {startLocations.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-1">お気に入り・最近 / Favourites &amp; Recent</p>
+          <ul className="space-y-1">
+            {startLocations.map((location) => (
+              <li key={location.id} className="flex items-center gap-2 text-sm">
+                <span className={location.favourite ? 'text-yellow-500' : 'text-gray-400'}>{location.favourite ? '★' : '↺'}</span>
+                <button
+                  type="button"
+                  onClick={() => onSelectStartLocation(location)}
+                  disabled={disabled}
+                  className="flex-grow text-left text-blue-700 hover:underline truncate disabled:opacity-50"
+                  title={location.label}
+                >
+                  {location.label}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onRemoveStartLocation(location.id)}
+                  className="text-gray-400 hover:text-red-600 text-xs"
+                  title="削除 / Remove"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import type { ExportFormat, PlanTerrain, PlanTotals, PlannedWorkout, PlanWorkout, Weekday } from '../types';
+import { EXPORT_FORMATS } from '../services/exportService';
+import { PLAN_TERRAINS, WEEKDAYS, createWorkout, sortWorkouts } from '../services/trainingPlan';
+import { formatCoordinates } from '../services/startLocations';
+import { formatMinutes } from '../services/paceModel';
+import { Button } from './ui/Button';
+
+type PlanStart = PlanWorkout['start'];
+
+interface TrainingPlanPanelProps {
+  workouts: PlanWorkout[];
+  onWorkoutsChange: (workouts: PlanWorkout[]) => void;
+  starts: PlanStart[]; // the current start point first, then the favourite and recent starts
+  planned: PlannedWorkout[] | null; // results of the last plan generation, in week order
+  totals: PlanTotals | null;
+  isPlanning: boolean;
+  onGeneratePlan: () => void;
+  onCancelPlan: () => void;
+  onShowWorkout: (planned: PlannedWorkout) => void;
+  onExportPlan: (format: ExportFormat) => void;
+  error: string | null;
+}
+
+const fieldClass =
+  'px-1.5 py-1 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-xs';
+
+const sameStart = (a: PlanStart, b: PlanStart): boolean =>
+  a.location.lat === b.location.lat && a.location.lng === b.location.lng;
+
+// Weekly plan builder: the workouts of a week, generated together so the week doesn't repeat a route,
+// shown as a calendar with weekly totals and exported as one download.
+export const TrainingPlanPanel: React.FC<TrainingPlanPanelProps> = ({
+  workouts,
+  onWorkoutsChange,
+  starts,
+  planned,
+  totals,
+  isPlanning,
+  onGeneratePlan,
+  onCancelPlan,
+  onShowWorkout,
+  onExportPlan,
+  error,
+}) => {
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('gpx-track');
+
+  const updateWorkout = (id: string, changes: Partial<PlanWorkout>) =>
+    onWorkoutsChange(sortWorkouts(workouts.map((w) => (w.id === id ? { ...w, ...changes } : w))));
+
+  const addWorkout = () => {
+    if (starts.length === 0) return;
+    const usedDays = new Set(workouts.map((w) => w.day));
+    const day = WEEKDAYS.find((d) => !usedDays.has(d.id))?.id ?? 'sun';
+    onWorkoutsChange(sortWorkouts([...workouts, createWorkout(day, starts[0])]));
+  };
+
+  // A workout's start may no longer be in the start list; it stays selectable as its own option
+  const startOptionsFor = (workout: PlanWorkout): PlanStart[] =>
+    starts.some((s) => sameStart(s, workout.start)) ? starts : [workout.start, ...starts];
+
+  const hasCourses = planned?.some((p) => p.course !== null) ?? false;
+
+  return (
+    <div className="space-y-3 p-2 mt-4 border-t border-gray-200 pt-4 text-sm">
+      <h3 className="font-medium text-gray-700">週間プラン / Weekly Plan</h3>
+
+      {workouts.length === 0 && <p className="text-xs text-gray-500">Add the week's workouts, then generate a course for each.</p>}
+      <ul className="space-y-2">
+        {workouts.map((workout) => {
+          const options = startOptionsFor(workout);
+          return (
+            <li key={workout.id} className="p-2 bg-white border border-gray-200 rounded-md space-y-1">
+              <div className="flex items-center gap-1">
+                <select
+                  className={fieldClass}
+                  value={workout.day}
+                  onChange={(e) => updateWorkout(workout.id, { day: e.target.value as Weekday })}
+                  disabled={isPlanning}
+                  aria-label="曜日 / Day"
+                >
+                  {WEEKDAYS.map((d) => (
+                    <option key={d.id} value={d.id}>{d.label}</option>
+                  ))}
+                </select>
+                <input
+                  className={`${fieldClass} w-16`}
+                  type="number"
+                  min="0.5"
+                  step="0.5"
+                  value={workout.desiredDistanceKm}
+                  onChange={(e) => {
+                    const km = parseFloat(e.target.value);
+                    if (km > 0) updateWorkout(workout.id, { desiredDistanceKm: km });
+                  }}
+                  disabled={isPlanning}
+                  aria-label="距離 / Distance (km)"
+                />
+                <span className="text-xs text-gray-500">km</span>
+                <select
+                  className={fieldClass}
+                  value={workout.terrain}
+                  onChange={(e) => updateWorkout(workout.id, { terrain: e.target.value as PlanTerrain })}
+                  disabled={isPlanning}
+                  aria-label="起伏 / Terrain"
+                >
+                  {(Object.keys(PLAN_TERRAINS) as PlanTerrain[]).map((terrain) => (
+                    <option key={terrain} value={terrain}>{PLAN_TERRAINS[terrain].label}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => onWorkoutsChange(workouts.filter((w) => w.id !== workout.id))}
+                  disabled={isPlanning}
+                  className="ml-auto text-gray-400 hover:text-red-600 text-xs"
+                  title="削除 / Remove"
+                >
+                  ✕
+                </button>
+              </div>
+              <div className="flex items-center gap-1">
+                <input
+                  className={`${fieldClass} w-24`}
+                  placeholder="メモ / e.g. Easy"
+                  value={workout.label}
+                  onChange={(e) => updateWorkout(workout.id, { label: e.target.value })}
+                  disabled={isPlanning}
+                  aria-label="種類 / Workout"
+                />
+                <select
+                  className={`${fieldClass} flex-1 min-w-0`}
+                  value={options.findIndex((s) => sameStart(s, workout.start))}
+                  onChange={(e) => updateWorkout(workout.id, { start: options[Number(e.target.value)] })}
+                  disabled={isPlanning}
+                  aria-label="スタート / Start"
+                >
+                  {options.map((start, i) => (
+                    <option key={i} value={i}>{start.label || formatCoordinates(start.location)}</option>
+                  ))}
+                </select>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={addWorkout}
+          disabled={isPlanning || starts.length === 0}
+          className="px-3 py-1.5 text-xs font-medium rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          + 追加 / Add workout
+        </button>
+        {isPlanning ? (
+          <Button onClick={onCancelPlan} className="flex-1 bg-gray-600 hover:bg-gray-700">
+            中止 / Cancel ({planned?.length ?? 0}/{workouts.length})
+          </Button>
+        ) : (
+          <Button onClick={onGeneratePlan} disabled={workouts.length === 0} className="flex-1">
+            プラン作成 / Generate plan
+          </Button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {planned && planned.length > 0 && (
+        <>
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md bg-white">
+            {WEEKDAYS.map((day) => {
+              const dayWorkouts = planned.filter((p) => p.workout.day === day.id);
+              return (
+                <li key={day.id} className="flex gap-2 p-2">
+                  <span className="w-16 shrink-0 text-xs font-medium text-gray-600">{day.label}</span>
+                  <div className="flex-1 space-y-1">
+                    {dayWorkouts.length === 0 && <span className="text-xs text-gray-400">休み / Rest</span>}
+                    {dayWorkouts.map((p) => {
+                      const isOutdated = !workouts.includes(p.workout);
+                      return (
+                        <div key={p.workout.id} className="text-xs">
+                          <div className="flex justify-between gap-2">
+                            <span className="font-medium text-gray-800">
+                              {p.workout.label.trim() || PLAN_TERRAINS[p.workout.terrain].label} · {p.workout.desiredDistanceKm} km
+                            </span>
+                            {p.course && (
+                              <button type="button" onClick={() => onShowWorkout(p)} className="text-blue-600 hover:underline">
+                                表示 / Show
+                              </button>
+                            )}
+                          </div>
+                          {p.course ? (
+                            <p className="text-gray-600">
+                              {p.course.stats.totalDistanceKm} km · {p.course.stats.cumulativeElevationGainM} m · {formatMinutes(p.course.stats.estimatedTimeMin)}
+                              {p.sharedPercent > 0 && (
+                                <span className="ml-1 text-gray-500" title="Share of the course run earlier in the week">
+                                  ({p.sharedPercent.toFixed(0)}% repeated)
+                                </span>
+                              )}
+                            </p>
+                          ) : (
+                            <p className="text-red-600">{p.error}</p>
+                          )}
+                          {isOutdated && <p className="text-orange-600">Changed since the plan was generated.</p>}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+
+          {totals && (
+            <dl className="grid grid-cols-3 gap-2 text-center">
+              <div>
+                <dt className="text-xs text-gray-500">距離 / Distance</dt>
+                <dd className="font-semibold">{totals.distanceKm.toFixed(1)} km</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500">標高差 / Gain</dt>
+                <dd className="font-semibold">{totals.gainM.toFixed(0)} m</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500">時間 / Time</dt>
+                <dd className="font-semibold">{formatMinutes(totals.timeMin)}</dd>
+              </div>
+            </dl>
+          )}
+
+          <div className="flex gap-2">
+            <select
+              className={`${fieldClass} flex-1`}
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+              aria-label="形式 / Format"
+            >
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+                <option key={format} value={format}>{EXPORT_FORMATS[format].label}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => onExportPlan(exportFormat)}
+              disabled={!hasCourses || isPlanning}
+              className="px-3 py-1.5 text-xs font-medium rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              全てエクスポート / Export all (.zip)
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
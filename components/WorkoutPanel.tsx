@@ -0,0 +1,127 @@
+import React from 'react';
+import type { WorkoutOverlay, WorkoutStructure } from '../types';
+import { WORKOUT_SEGMENT_KINDS, workoutTotalM } from '../services/workoutOverlay';
+
+interface WorkoutPanelProps {
+  structure: WorkoutStructure;
+  onStructureChange: (structure: WorkoutStructure) => void;
+  isShown: boolean;
+  onShownChange: (isShown: boolean) => void;
+  canShow: boolean; // a course is shown
+  overlay: WorkoutOverlay | null; // null while the workout isn't shown on a course
+  onSelectSegment: (distanceM: number) => void;
+}
+
+const fieldClass =
+  'w-full px-1.5 py-1 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-xs';
+
+// Reps with a stretch at least this steep are flagged
+const STEEP_REP_GRADE_PERCENT = 3;
+
+const formatKm = (meters: number): string => (meters / 1000).toFixed(2);
+
+const formatGrade = (gradePercent: number): string => `${gradePercent >= 0 ? '+' : '−'}${Math.abs(gradePercent).toFixed(1)}%`;
+
+const FIELDS: { key: keyof WorkoutStructure; label: string; unit: 'km' | 'm' | '×' }[] = [
+  { key: 'warmUpM', label: 'ウォームアップ / Warm-up', unit: 'km' },
+  { key: 'repCount', label: '本数 / Reps', unit: '×' },
+  { key: 'repM', label: 'レップ / Rep', unit: 'm' },
+  { key: 'recoveryM', label: 'リカバリー / Recovery', unit: 'm' },
+  { key: 'coolDownM', label: 'クールダウン / Cool-down', unit: 'km' },
+];
+
+// Interval workout overlay: the workout's structure, and where each part of it falls on the shown course
+export const WorkoutPanel: React.FC<WorkoutPanelProps> = ({
+  structure,
+  onStructureChange,
+  isShown,
+  onShownChange,
+  canShow,
+  overlay,
+  onSelectSegment,
+}) => {
+  const handleFieldChange = (key: keyof WorkoutStructure, unit: string, value: string) => {
+    const number = parseFloat(value);
+    if (!Number.isFinite(number) || number < 0) return;
+    const converted = unit === 'km' ? Math.round(number * 1000) : unit === '×' ? Math.round(number) : number;
+    onStructureChange({ ...structure, [key]: converted });
+  };
+
+  return (
+    <div className="space-y-3 p-2 mt-4 border-t border-gray-200 pt-4 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-gray-700">インターバル / Interval Workout</h3>
+        <label className="flex items-center gap-1 text-xs text-gray-600">
+          <input type="checkbox" checked={isShown} onChange={(e) => onShownChange(e.target.checked)} disabled={!canShow} />
+          地図に表示 / Show on map
+        </label>
+      </div>
+
+      <div className="grid grid-cols-5 gap-1">
+        {FIELDS.map(({ key, label, unit }) => (
+          <label key={key} className="text-[10px] text-gray-500 leading-tight">
+            <span className="block h-6">{label}</span>
+            <input
+              className={fieldClass}
+              type="number"
+              min={key === 'repCount' ? 1 : 0}
+              step={unit === 'km' ? 0.1 : unit === 'm' ? 100 : 1}
+              value={unit === 'km' ? structure[key] / 1000 : structure[key]}
+              onChange={(e) => handleFieldChange(key, unit, e.target.value)}
+            />
+          </label>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        {structure.repCount} × {structure.repM} m · total {formatKm(workoutTotalM(structure))} km
+      </p>
+
+      {overlay && (
+        <>
+          {overlay.shortfallM > 0 && (
+            <p className="text-xs text-orange-600">
+              The workout is {formatKm(overlay.shortfallM)} km longer than the course; the rest doesn't fit on it.
+            </p>
+          )}
+          {overlay.extraWarmUpM > 0 && (
+            <p className="text-xs text-gray-600">
+              Warm-up lengthened by {Math.round(overlay.extraWarmUpM)} m so the reps run on flatter ground.
+            </p>
+          )}
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="font-medium py-0.5">Segment</th>
+                <th className="font-medium">km</th>
+                <th className="font-medium text-right">Avg</th>
+                <th className="font-medium text-right">Max</th>
+              </tr>
+            </thead>
+            <tbody>
+              {overlay.segments.map((segment, i) => (
+                <tr
+                  key={i}
+                  onClick={() => onSelectSegment(segment.startDistanceM)}
+                  className="cursor-pointer hover:bg-gray-100"
+                  title="Show on the elevation profile"
+                >
+                  <td className="py-0.5">
+                    <span className="inline-block w-3 h-1.5 rounded align-middle mr-1" style={{ backgroundColor: segment.color }} />
+                    {WORKOUT_SEGMENT_KINDS[segment.kind].name}
+                    {segment.kind === 'rep' && ` ${segment.repNumber}`}
+                  </td>
+                  <td>{formatKm(segment.startDistanceM)}–{formatKm(segment.endDistanceM)}</td>
+                  <td className="text-right">{formatGrade(segment.avgGradePercent)}</td>
+                  <td className={`text-right ${segment.kind === 'rep' && segment.maxGradePercent >= STEEP_REP_GRADE_PERCENT ? 'text-orange-600' : ''}`}>
+                    {segment.maxGradePercent.toFixed(1)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+      {isShown && !canShow && <p className="text-xs text-gray-500">Generate or open a course to lay the workout onto it.</p>}
+    </div>
+  );
+};
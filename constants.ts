@@ -1,3 +1,4 @@
+import type { GenerationOptions, SteepSectionThresholds, WorkoutStructure } from './types';
 
 // Default latitude and longitude (Tokyo as a fallback if geolocation fails or is denied)
 export const DEFAULT_LATITUDE = 35.6895;
@@ -16,13 +17,96 @@ export const NUM_INTERMEDIATE_POINT_CANDIDATES = 8;
 // from the start point. This helps in forming a loop.
 export const INTERMEDIATE_POINT_RADIUS_FACTOR = 0.4;
 
+// Ratio of routed (street) distance to straight-line distance, used to size polygon loops.
+export const LOOP_ROUTE_DETOUR_FACTOR = 1.3;
+
 // Tolerance for how closely the generated route's distance should match the user's desired distance.
 // e.g., 0.25 means the route distance can be +/- 25% of the desired distance.
 export const DISTANCE_TOLERANCE_FACTOR = 0.25;
 
+// Refinement: after the first round of candidates, the most promising bearings are re-routed with a
+// rescaled waypoint radius until the route length is within REFINEMENT_TARGET_TOLERANCE of the request.
+export const REFINEMENT_TARGET_TOLERANCE = 0.03; // +/- 3%
+export const REFINEMENT_MAX_CANDIDATES = 3; // bearings to refine
+export const REFINEMENT_MAX_ITERATIONS = 4; // re-routes per bearing
+export const REFINEMENT_REQUEST_BUDGET = 10; // total extra routing requests per generation
+// Limits how far a single refinement step may rescale the radius, to damp oscillation on sparse street networks.
+export const REFINEMENT_MAX_SCALE_STEP = 2;
+
+// Retrace detection: a stretch of the path counts as covered twice when it runs within
+// OVERLAP_DISTANCE_M of an earlier part of the path. Within a distance tier, candidates are ranked by
+// elevation fit plus these penalties (in meters of elevation), so retracing only decides between
+// routes whose distance and elevation are comparable.
+export const OVERLAP_DISTANCE_M = 15;
+export const OVERLAP_PENALTY_M_PER_PERCENT = 1;
+export const U_TURN_PENALTY_M = 10;
+// Candidates that enter an avoidance zone are only used when every candidate does; then each meter
+// inside a zone costs this much (in meters of elevation) in the ranking.
+export const AVOID_ZONE_PENALTY_M_PER_M = 1;
+
+// Candidate comparison: how many ranked routes are listed and drawn (muted, in these colors) next to the selected one
+export const MAX_COMPARED_CANDIDATES = 5;
+export const CANDIDATE_ROUTE_COLORS = ['#6B7FA8', '#8E7AA8', '#6FA38C', '#A8906B', '#A86B7A'];
+
+// Service layer in front of the routing/elevation providers (see services/providers/managedProvider.ts).
+// Responses are cached for SERVICE_CACHE_TTL_MS under keys built from coordinates rounded to
+// CACHE_COORDINATE_PRECISION decimals (~1 m). Budgets count requests actually sent, retries included.
+export const SERVICE_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const CACHE_COORDINATE_PRECISION = 5;
+export const SERVICE_SESSION_REQUEST_BUDGET = 500;
+export const SERVICE_DAILY_REQUEST_BUDGET = 2500;
+export const SERVICE_MAX_CONCURRENT_REQUESTS = 4;
+// Transient failures are retried after SERVICE_RETRY_BASE_DELAY_MS * 2^attempt (plus jitter)
+export const SERVICE_MAX_RETRIES = 3;
+export const SERVICE_RETRY_BASE_DELAY_MS = 500;
+
 // Number of samples to request along the path for the Elevation API.
 // More samples give more accurate elevation profiles but are limited by the API (max 512).
 export const ELEVATION_SAMPLES = 128;
 
 // Earth's radius in kilometers, used for some spherical calculations if needed (though google.maps.geometry.spherical handles most)
-export const EARTH_RADIUS_KM = 6371;
\ No newline at end of file
+export const EARTH_RADIUS_KM = 6371;
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  mode: 'loop',
+  finishPoint: null,
+  strategy: 'square',
+  rotationDegrees: 0,
+  radiusScale: 1,
+  elevation: { objective: 'minimize', targetGainM: 100, maxGradePercent: null },
+};
+
+// Sustained climbs/descents steeper than these are listed as steep sections
+export const DEFAULT_STEEP_SECTION_THRESHOLDS: SteepSectionThresholds = {
+  climbGradePercent: 4,
+  descentGradePercent: 4,
+  minLengthM: 150,
+};
+
+// Run-along mode: a runner further than RUN_OFF_COURSE_M from the course is off course, and counts as back on
+// it again within RUN_BACK_ON_COURSE_M. Positions are snapped to the part of the course from RUN_SNAP_LOOKBACK_M
+// behind to RUN_SNAP_LOOKAHEAD_M ahead of the runner, so overlapping parts of a course aren't mixed up.
+export const RUN_OFF_COURSE_M = 40;
+export const RUN_BACK_ON_COURSE_M = 20;
+export const RUN_SNAP_LOOKBACK_M = 100;
+export const RUN_SNAP_LOOKAHEAD_M = 1000;
+export const RUN_UPCOMING_TURNS = 3;
+
+// Training plans: a workout avoids candidates sharing more than PLAN_MAX_SHARED_PERCENT of their distance with
+// courses already planned that week (within PLAN_SHARED_DISTANCE_M). Rolling workouts target
+// PLAN_ROLLING_GAIN_M_PER_KM of climb per km.
+export const PLAN_MAX_SHARED_PERCENT = 30;
+export const PLAN_SHARED_DISTANCE_M = 25;
+export const PLAN_ROLLING_GAIN_M_PER_KM = 10;
+
+// Workout overlays: the rep block may start later (in steps of WORKOUT_OFFSET_STEP_M, lengthening the warm-up)
+// when that lowers the reps' mean absolute grade by at least WORKOUT_MIN_GRADE_GAIN_PERCENT.
+export const WORKOUT_OFFSET_STEP_M = 50;
+export const WORKOUT_MIN_GRADE_GAIN_PERCENT = 0.5;
+export const DEFAULT_WORKOUT_STRUCTURE: WorkoutStructure = {
+  warmUpM: 2000,
+  repCount: 6,
+  repM: 800,
+  recoveryM: 400,
+  coolDownM: 1000,
+};
@@ -0,0 +1,174 @@
+import type {
+  ActivityComparison,
+  ActivityPoint,
+  ActivitySplit,
+  GeneratedCourse,
+  GenerationOptions,
+  LatLngLiteral,
+  MapProviders,
+  PaceProfile,
+  RecordedActivity,
+  RouteGeometry,
+} from '../types';
+import { DEFAULT_GENERATION_OPTIONS, ELEVATION_SAMPLES } from '../constants';
+import { computeBounds, cumulativeDistancesM, distanceBetweenM, resamplePath } from './geo';
+import { buildElevationProfile } from './elevationProfile';
+import { maxGradePercent } from './gradeAnalysis';
+import { analyzeRouteOverlap } from './routeOverlap';
+import { buildGeneratedCourse } from './courseBuilder';
+import { estimateCourseTime } from './paceModel';
+import { INITIAL_RUN_STATE, advanceRun, prepareRunCourse } from './runTracker';
+import { activityFixes } from './positionSources';
+
+// Recorded runs: how one compares with the planned course, and turning one into a course of its own.
+
+const ELEVATION_NOISE_M = 3; // recorded elevation changes smaller than this are treated as noise
+const MIN_TRACK_POINT_SPACING_M = 5; // closer points are dropped when a track becomes a course
+const LOOP_CLOSURE_M = 150; // a track ending this close to its start is a loop
+const MAX_IMPORTED_VIA_POINTS = 8;
+
+// Climb from recorded elevations, ignoring wiggles below ELEVATION_NOISE_M (GPS and barometer noise)
+const recordedGainM = (points: ActivityPoint[]): number | null => {
+  const elevations = points.map((p) => p.elevationM).filter((e): e is number => e !== null);
+  if (elevations.length < 2) return null;
+  let gain = 0;
+  let reference = elevations[0];
+  for (const elevation of elevations) {
+    if (elevation - reference >= ELEVATION_NOISE_M) {
+      gain += elevation - reference;
+      reference = elevation;
+    } else if (reference - elevation >= ELEVATION_NOISE_M) {
+      reference = elevation;
+    }
+  }
+  return gain;
+};
+
+// Recorded time (ms) at `distanceM` along the track, interpolated between the points around it
+const timeAtDistance = (points: ActivityPoint[], cumulativeM: number[], distanceM: number): number | null => {
+  const index = cumulativeM.findIndex((d) => d >= distanceM);
+  if (index < 0) return null;
+  const after = points[index].timestamp;
+  if (index === 0 || after === null) return after;
+  const before = points[index - 1].timestamp;
+  if (before === null) return null;
+  const span = cumulativeM[index] - cumulativeM[index - 1];
+  return before + (after - before) * (span > 0 ? (distanceM - cumulativeM[index - 1]) / span : 0);
+};
+
+export const compareActivity = (activity: RecordedActivity, course: GeneratedCourse, pace: PaceProfile): ActivityComparison => {
+  const { points } = activity;
+  const cumulativeM = cumulativeDistancesM(points.map((p) => p.location));
+  const actualDistanceM = cumulativeM[cumulativeM.length - 1] ?? 0;
+  const planned = estimateCourseTime(course.elevationProfile, course.route.distanceMeters, pace);
+
+  // Replaying the track through the run tracker snaps each point to the part of the course the runner was on.
+  // Untimed points are timed as the GPX replay does, so a partly timed track keeps consistent times.
+  const runCourse = prepareRunCourse(course, pace);
+  let state = INITIAL_RUN_STATE;
+  let deviationSumM = 0;
+  let maxDeviationM = 0;
+  let offCourse = 0;
+  activityFixes(activity).forEach((fix) => {
+    state = advanceRun(state, fix, runCourse);
+    deviationSumM += state.offCourseM;
+    maxDeviationM = Math.max(maxDeviationM, state.offCourseM);
+    if (state.isOffCourse) offCourse++;
+  });
+
+  const startTime = timeAtDistance(points, cumulativeM, 0);
+  const splits: ActivitySplit[] = [];
+  for (let km = 1; (km - 1) * 1000 < actualDistanceM; km++) {
+    const fromM = (km - 1) * 1000;
+    const toM = Math.min(km * 1000, actualDistanceM);
+    const from = timeAtDistance(points, cumulativeM, fromM);
+    const to = timeAtDistance(points, cumulativeM, toM);
+    const plannedSplit = planned.splits[km - 1];
+    splits.push({
+      km,
+      distanceM: toM - fromM,
+      actualMin: from !== null && to !== null ? (to - from) / 60000 : null,
+      plannedMin: plannedSplit && plannedSplit.distanceM > 0
+        ? plannedSplit.timeMin * Math.min(1, (toM - fromM) / plannedSplit.distanceM)
+        : null,
+    });
+  }
+  const endTime = timeAtDistance(points, cumulativeM, actualDistanceM);
+
+  return {
+    actualDistanceKm: actualDistanceM / 1000,
+    plannedDistanceKm: course.route.distanceMeters / 1000,
+    actualGainM: recordedGainM(points),
+    plannedGainM: course.elevationProfile.totalGainM,
+    actualTimeMin: startTime !== null && endTime !== null ? (endTime - startTime) / 60000 : null,
+    plannedTimeMin: planned.totalMin,
+    meanDeviationM: points.length > 0 ? deviationSumM / points.length : 0,
+    maxDeviationM,
+    offCoursePercent: points.length > 0 ? (offCourse / points.length) * 100 : 0,
+    splits,
+  };
+};
+
+const thinTrack = (points: ActivityPoint[]): LatLngLiteral[] => {
+  const path: LatLngLiteral[] = [];
+  for (const { location } of points) {
+    if (path.length === 0 || distanceBetweenM(path[path.length - 1], location) >= MIN_TRACK_POINT_SPACING_M) path.push(location);
+  }
+  const last = points[points.length - 1].location;
+  if (path[path.length - 1] !== last) path.push(last);
+  return path;
+};
+
+// A course that follows the recorded track. Elevation comes from the elevation provider (not the device) and
+// the stats from the active pace profile, so it compares like for like with generated courses. Via points are
+// spread along the track so editing the course re-routes it close to the original line.
+export const buildCourseFromActivity = async (
+  activity: RecordedActivity,
+  providers: MapProviders,
+  pace: PaceProfile
+): Promise<{ course: GeneratedCourse; desiredDistanceKm: number; options: GenerationOptions }> => {
+  const path = thinTrack(activity.points);
+  const startPoint = path[0];
+  const finish = path[path.length - 1];
+  const distanceMeters = cumulativeDistancesM(path)[path.length - 1];
+  const isLoop = distanceBetweenM(startPoint, finish) <= LOOP_CLOSURE_M;
+  const route: RouteGeometry = {
+    path,
+    legs: [{
+      startLocation: startPoint,
+      endLocation: finish,
+      distanceMeters,
+      durationSeconds: 0,
+      steps: [{ instruction: '', distanceMeters, durationSeconds: 0, path }],
+    }],
+    bounds: computeBounds(path),
+    distanceMeters,
+  };
+
+  const samples = await providers.elevation.getElevationAlongPath(path, Math.min(ELEVATION_SAMPLES, path.length));
+  const elevationProfile = buildElevationProfile(samples, distanceMeters);
+  const desiredDistanceKm = parseFloat((distanceMeters / 1000).toFixed(1));
+  const options: GenerationOptions = {
+    ...DEFAULT_GENERATION_OPTIONS,
+    mode: isLoop ? 'loop' : 'point-to-point',
+    finishPoint: isLoop ? null : finish,
+  };
+  const viaPointCount = Math.min(MAX_IMPORTED_VIA_POINTS, Math.floor(distanceMeters / 1000));
+  const course = buildGeneratedCourse(
+    {
+      route,
+      waypoints: resamplePath(path, viaPointCount + 2).slice(1, -1),
+      elevationProfile,
+      distanceKm: distanceMeters / 1000,
+      elevationGainM: elevationProfile.totalGainM,
+      maxGradePercent: maxGradePercent(elevationProfile),
+      overlap: analyzeRouteOverlap(path),
+      turnaroundPoint: null,
+    },
+    startPoint,
+    desiredDistanceKm,
+    options,
+    pace
+  );
+  return { course: { ...course, source: 'imported' }, desiredDistanceKm, options };
+};
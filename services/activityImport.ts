@@ -0,0 +1,205 @@
+import type { ActivityFormat, ActivityPoint, RecordedActivity } from '../types';
+
+// Readers for recorded activities: GPX and TCX (XML) and FIT (Garmin's binary format). Only the track is
+// read: position, time and recorded elevation of each point.
+
+export const ACTIVITY_FILE_ACCEPT = '.gpx,.tcx,.fit';
+
+const parseXml = (text: string, format: string): Document => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error(`The file is not valid ${format}.`);
+  return doc;
+};
+
+const childText = (element: Element, tagName: string): string | null => element.getElementsByTagName(tagName)[0]?.textContent ?? null;
+
+const parseTime = (value: string | null): number | null => {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isFinite(time) ? time : null;
+};
+
+const parseElevation = (value: string | null): number | null => {
+  const elevation = value !== null ? parseFloat(value) : NaN;
+  return Number.isFinite(elevation) ? elevation : null;
+};
+
+const isValidPoint = (point: ActivityPoint): boolean =>
+  Number.isFinite(point.location.lat) && Number.isFinite(point.location.lng) && Math.abs(point.location.lat) <= 90 && Math.abs(point.location.lng) <= 180;
+
+// <trkpt> track points, or <rtept> for a route-only file
+const parseGpx = (text: string): { name: string | null; points: ActivityPoint[] } => {
+  const doc = parseXml(text, 'GPX');
+  let elements = Array.from(doc.getElementsByTagName('trkpt'));
+  if (elements.length === 0) elements = Array.from(doc.getElementsByTagName('rtept'));
+  return {
+    name: childText(doc.documentElement, 'name'),
+    points: elements.map((element) => ({
+      location: { lat: parseFloat(element.getAttribute('lat') ?? ''), lng: parseFloat(element.getAttribute('lon') ?? '') },
+      timestamp: parseTime(childText(element, 'time')),
+      elevationM: parseElevation(childText(element, 'ele')),
+    })),
+  };
+};
+
+// <Trackpoint>s of every lap; points without a <Position> (e.g. paused sensor-only samples) are skipped
+const parseTcx = (text: string): { name: string | null; points: ActivityPoint[] } => {
+  const doc = parseXml(text, 'TCX');
+  const points = Array.from(doc.getElementsByTagName('Trackpoint'))
+    .filter((element) => element.getElementsByTagName('Position').length > 0)
+    .map((element) => ({
+      location: {
+        lat: parseFloat(childText(element, 'LatitudeDegrees') ?? ''),
+        lng: parseFloat(childText(element, 'LongitudeDegrees') ?? ''),
+      },
+      timestamp: parseTime(childText(element, 'Time')),
+      elevationM: parseElevation(childText(element, 'AltitudeMeters')),
+    }));
+  return { name: null, points }; // the activity <Id> is only its start time
+};
+
+// FIT: a header, then definition messages describing the layout of the data messages that follow them.
+// Only "record" messages (global number 20) are read.
+const FIT_RECORD_MESSAGE = 20;
+const FIT_FIELD_TIMESTAMP = 253;
+const FIT_FIELD_LAT = 0;
+const FIT_FIELD_LNG = 1;
+const FIT_FIELD_ALTITUDE = 2;
+const FIT_FIELD_ENHANCED_ALTITUDE = 78;
+const FIT_EPOCH_MS = Date.UTC(1989, 11, 31); // FIT timestamps count seconds from here
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+interface FitFieldDefinition {
+  number: number;
+  size: number;
+  baseType: number;
+}
+
+interface FitDefinition {
+  globalMessage: number;
+  littleEndian: boolean;
+  fields: FitFieldDefinition[];
+  developerDataSize: number;
+}
+
+// Reads an unsigned or signed integer field; returns null for the format's "invalid" value or other sizes
+const readFitInteger = (view: DataView, offset: number, field: FitFieldDefinition, littleEndian: boolean): number | null => {
+  const signed = (field.baseType & 0x1f) === 0x01 || (field.baseType & 0x1f) === 0x03 || (field.baseType & 0x1f) === 0x05;
+  switch (field.size) {
+    case 1: {
+      const value = signed ? view.getInt8(offset) : view.getUint8(offset);
+      return value === (signed ? 0x7f : 0xff) ? null : value;
+    }
+    case 2: {
+      const value = signed ? view.getInt16(offset, littleEndian) : view.getUint16(offset, littleEndian);
+      return value === (signed ? 0x7fff : 0xffff) ? null : value;
+    }
+    case 4: {
+      const value = signed ? view.getInt32(offset, littleEndian) : view.getUint32(offset, littleEndian);
+      return value === (signed ? 0x7fffffff : 0xffffffff) ? null : value;
+    }
+    default:
+      return null;
+  }
+};
+
+// Reads one data message at `offset` and returns the offset after it; record messages with a position are kept
+const readFitData = (
+  view: DataView,
+  offset: number,
+  definition: FitDefinition | undefined,
+  compressedTimestamp: number | null,
+  points: ActivityPoint[],
+  onTimestamp: (timestamp: number) => void
+): number => {
+  if (!definition) throw new Error("The FIT file is corrupt (data message without a definition).");
+  const values = new Map<number, number | null>();
+  for (const field of definition.fields) {
+    values.set(field.number, readFitInteger(view, offset, field, definition.littleEndian));
+    offset += field.size;
+  }
+  offset += definition.developerDataSize;
+
+  const timestamp = values.get(FIT_FIELD_TIMESTAMP) ?? compressedTimestamp;
+  if (values.get(FIT_FIELD_TIMESTAMP) != null) onTimestamp(values.get(FIT_FIELD_TIMESTAMP)!);
+  if (definition.globalMessage !== FIT_RECORD_MESSAGE) return offset;
+  const lat = values.get(FIT_FIELD_LAT);
+  const lng = values.get(FIT_FIELD_LNG);
+  if (lat == null || lng == null) return offset;
+  // Altitudes are stored as (m + 500) * 5
+  const altitude = values.get(FIT_FIELD_ENHANCED_ALTITUDE) ?? values.get(FIT_FIELD_ALTITUDE);
+  points.push({
+    location: { lat: lat * SEMICIRCLES_TO_DEGREES, lng: lng * SEMICIRCLES_TO_DEGREES },
+    timestamp: timestamp != null ? FIT_EPOCH_MS + timestamp * 1000 : null,
+    elevationM: altitude != null ? altitude / 5 - 500 : null,
+  });
+  return offset;
+};
+
+const parseFit = (data: ArrayBuffer): { name: string | null; points: ActivityPoint[] } => {
+  const view = new DataView(data);
+  const headerSize = data.byteLength > 12 ? view.getUint8(0) : 0;
+  const signature = headerSize >= 12 ? String.fromCharCode(...new Uint8Array(data, 8, 4)) : '';
+  if (signature !== '.FIT') throw new Error("The file is not a valid FIT file.");
+  const end = Math.min(data.byteLength, headerSize + view.getUint32(4, true));
+
+  const definitions = new Map<number, FitDefinition>();
+  const points: ActivityPoint[] = [];
+  let lastTimestamp = 0; // seconds since the FIT epoch, for compressed timestamp headers
+  let offset = headerSize;
+  try {
+    while (offset < end) {
+      const header = view.getUint8(offset++);
+      if (header & 0x80) {
+        // Compressed timestamp header: a data message with a 5-bit offset from the last timestamp
+        const localType = (header >> 5) & 0x03;
+        const timeOffset = header & 0x1f;
+        lastTimestamp += (timeOffset - (lastTimestamp & 0x1f) + 0x20) & 0x1f;
+        offset = readFitData(view, offset, definitions.get(localType), lastTimestamp, points, (t) => (lastTimestamp = t));
+      } else if (header & 0x40) {
+        const littleEndian = view.getUint8(offset + 1) === 0;
+        const globalMessage = view.getUint16(offset + 2, littleEndian);
+        const fieldCount = view.getUint8(offset + 4);
+        offset += 5;
+        const fields: FitFieldDefinition[] = [];
+        for (let i = 0; i < fieldCount; i++, offset += 3) {
+          fields.push({ number: view.getUint8(offset), size: view.getUint8(offset + 1), baseType: view.getUint8(offset + 2) });
+        }
+        let developerDataSize = 0;
+        if (header & 0x20) {
+          const developerFieldCount = view.getUint8(offset++);
+          for (let i = 0; i < developerFieldCount; i++, offset += 3) developerDataSize += view.getUint8(offset + 1);
+        }
+        definitions.set(header & 0x0f, { globalMessage, littleEndian, fields, developerDataSize });
+      } else {
+        offset = readFitData(view, offset, definitions.get(header & 0x0f), null, points, (t) => (lastTimestamp = t));
+      }
+    }
+  } catch (err) {
+    // A truncated file (e.g. a watch that lost power) still yields the points before the break
+    if (!(err instanceof RangeError) || points.length === 0) {
+      throw err instanceof RangeError ? new Error("The FIT file is truncated or corrupt.") : err;
+    }
+  }
+  return { name: null, points };
+};
+
+const formatOf = (fileName: string, data: ArrayBuffer): ActivityFormat => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'gpx' || extension === 'tcx' || extension === 'fit') return extension;
+  // Unknown extension: sniff the content
+  if (data.byteLength >= 12 && String.fromCharCode(...new Uint8Array(data, 8, 4)) === '.FIT') return 'fit';
+  return new TextDecoder().decode(data.slice(0, 1024)).includes('<TrainingCenterDatabase') ? 'tcx' : 'gpx';
+};
+
+// Throws an Error with a user-facing message when the file can't be read or has no positions.
+export const parseActivityFile = (fileName: string, data: ArrayBuffer): RecordedActivity => {
+  const format = formatOf(fileName, data);
+  const parsed = format === 'fit' ? parseFit(data) : (format === 'tcx' ? parseTcx : parseGpx)(new TextDecoder().decode(data));
+  const points = parsed.points.filter(isValidPoint);
+  if (points.length < 2) throw new Error(`The ${format.toUpperCase()} file has no recorded track.`);
+  return {
+    name: parsed.name?.trim() || fileName.replace(/\.[^.]+$/, ''),
+    format,
+    points,
+  };
+};
@@ -0,0 +1,51 @@
+import type { ElevationPreference, GeneratedCourse, GenerationOptions, LatLngLiteral, OptimalRouteData, PaceProfile, RouteStats } from '../types';
+import { DEFAULT_PACE_PROFILES, estimateCourseTime } from './paceModel';
+
+// Turns routed data (from the generator, a share link or the library) into the GeneratedCourse the UI shows.
+
+type CourseRouteData = Pick<
+  OptimalRouteData,
+  'route' | 'waypoints' | 'elevationProfile' | 'distanceKm' | 'elevationGainM' | 'maxGradePercent' | 'overlap' | 'turnaroundPoint'
+>;
+
+export const buildRouteStats = (
+  data: Pick<CourseRouteData, 'elevationProfile' | 'distanceKm' | 'elevationGainM' | 'maxGradePercent' | 'overlap'>,
+  desiredDistanceKm: number,
+  elevationPreference: ElevationPreference,
+  pace: PaceProfile = DEFAULT_PACE_PROFILES[0]
+): RouteStats => {
+  const estimatedTimeMin = estimateCourseTime(data.elevationProfile, data.distanceKm * 1000, pace).totalMin;
+  return {
+    totalDistanceKm: parseFloat(data.distanceKm.toFixed(1)),
+    cumulativeElevationGainM: parseFloat(data.elevationGainM.toFixed(0)),
+    estimatedTimeMin: parseFloat(estimatedTimeMin.toFixed(0)),
+    distanceErrorPercent: desiredDistanceKm > 0
+      ? parseFloat((((data.distanceKm - desiredDistanceKm) / desiredDistanceKm) * 100).toFixed(1))
+      : 0,
+    maxGradePercent: parseFloat(data.maxGradePercent.toFixed(1)),
+    elevationPreference,
+    elevationTargetDeltaM: elevationPreference.objective === 'target'
+      ? parseFloat((data.elevationGainM - elevationPreference.targetGainM).toFixed(0))
+      : null,
+    overlapPercent: parseFloat(data.overlap.overlapPercent.toFixed(0)),
+    uTurnCount: data.overlap.uTurnCount,
+  };
+};
+
+export const buildGeneratedCourse = (
+  data: CourseRouteData,
+  startPoint: LatLngLiteral,
+  desiredDistanceKm: number,
+  options: GenerationOptions,
+  pace?: PaceProfile
+): GeneratedCourse => ({
+  mode: options.mode,
+  source: 'generated',
+  startPoint,
+  finishPoint: options.mode === 'point-to-point' && options.finishPoint ? options.finishPoint : startPoint,
+  turnaroundPoint: data.turnaroundPoint,
+  viaPoints: data.waypoints,
+  route: data.route,
+  elevationProfile: data.elevationProfile,
+  stats: buildRouteStats(data, desiredDistanceKm, options.elevation, pace),
+});
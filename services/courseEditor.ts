@@ -0,0 +1,147 @@
+import type { GeneratedCourse, LatLngLiteral, MapProviders, PaceProfile, RouteGeometry, RouteLeg } from '../types';
+import { ELEVATION_SAMPLES } from '../constants';
+import { computeBounds, distanceBetweenM } from './geo';
+import { completeCourseRoute } from './courseModes';
+import { buildElevationProfile } from './elevationProfile';
+import { maxGradePercent } from './gradeAnalysis';
+import { analyzeRouteOverlap } from './routeOverlap';
+import { buildRouteStats } from './courseBuilder';
+
+// Manual course editing. A course is routed through its stops (start, via points, then the finish or
+// turnaround point); edits change the via points and only the legs whose endpoints changed are re-routed.
+
+// Past and future course states for undo/redo, newest last in `past` and next-to-redo first in `future`
+export interface EditHistory {
+  past: GeneratedCourse[];
+  future: GeneratedCourse[];
+}
+
+export const EMPTY_EDIT_HISTORY: EditHistory = { past: [], future: [] };
+
+const courseDestination = (course: GeneratedCourse): LatLngLiteral =>
+  course.mode === 'out-and-back' ? course.turnaroundPoint ?? course.startPoint : course.finishPoint;
+
+const courseStops = (course: GeneratedCourse, viaPoints: LatLngLiteral[]): LatLngLiteral[] =>
+  [course.startPoint, ...viaPoints, courseDestination(course)];
+
+// The part of the path the stops were routed along (the way out, for out-and-back courses)
+export const outboundPath = (course: GeneratedCourse): LatLngLiteral[] => {
+  const { path } = course.route;
+  return course.mode === 'out-and-back' ? path.slice(0, Math.ceil(path.length / 2)) : path;
+};
+
+export const outboundLegs = (course: GeneratedCourse): RouteLeg[] =>
+  course.mode === 'out-and-back' ? course.route.legs.slice(0, -1) : course.route.legs;
+
+const legKey = (from: LatLngLiteral, to: LatLngLiteral): string =>
+  `${from.lat.toFixed(6)},${from.lng.toFixed(6)}>${to.lat.toFixed(6)},${to.lng.toFixed(6)}`;
+
+const legPath = (leg: RouteLeg): LatLngLiteral[] =>
+  leg.steps.flatMap((step, i) => (i === 0 ? step.path : step.path.slice(1)));
+
+export const nearestIndex = (path: LatLngLiteral[], point: LatLngLiteral, fromIndex = 0): number => {
+  let best = fromIndex;
+  let bestDistance = Infinity;
+  for (let i = fromIndex; i < path.length; i++) {
+    const d = distanceBetweenM(path[i], point);
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = i;
+    }
+  }
+  return best;
+};
+
+// Via points after dragging the route: the grabbed spot becomes a new via point at `dropLocation`,
+// inserted between the via points that surround the grabbed spot along the course.
+export const insertViaPoint = (course: GeneratedCourse, grabLocation: LatLngLiteral, dropLocation: LatLngLiteral): LatLngLiteral[] => {
+  const path = outboundPath(course);
+  const grabIndex = nearestIndex(path, grabLocation);
+  let searchFrom = 0;
+  let insertAt = 0;
+  for (const via of course.viaPoints) {
+    searchFrom = nearestIndex(path, via, searchFrom);
+    if (searchFrom < grabIndex) insertAt++;
+  }
+  return [...course.viaPoints.slice(0, insertAt), dropLocation, ...course.viaPoints.slice(insertAt)];
+};
+
+export const moveViaPoint = (viaPoints: LatLngLiteral[], index: number, location: LatLngLiteral): LatLngLiteral[] =>
+  viaPoints.map((point, i) => (i === index ? location : point));
+
+export const removeViaPoint = (viaPoints: LatLngLiteral[], index: number): LatLngLiteral[] =>
+  viaPoints.filter((_, i) => i !== index);
+
+// Routes the course through the new via points, reusing unchanged legs, then recomputes the elevation
+// profile and stats. Throws when a leg can't be routed so the caller can keep the previous course.
+export const rerouteCourse = async (
+  course: GeneratedCourse,
+  viaPoints: LatLngLiteral[],
+  providers: MapProviders,
+  desiredDistanceKm: number,
+  pace?: PaceProfile
+): Promise<GeneratedCourse> => {
+  const previousStops = courseStops(course, course.viaPoints);
+  const previousLegs = outboundLegs(course);
+  const reusable = new Map<string, RouteLeg>();
+  if (previousLegs.length === previousStops.length - 1) {
+    previousLegs.forEach((leg, i) => {
+      if (leg.steps.length > 0) reusable.set(legKey(previousStops[i], previousStops[i + 1]), leg);
+    });
+  }
+
+  const stops = courseStops(course, viaPoints);
+  const legs = await Promise.all(stops.slice(1).map(async (to, i): Promise<RouteLeg> => {
+    const from = stops[i];
+    const existing = reusable.get(legKey(from, to));
+    if (existing) return existing;
+    const routed = await providers.routing.route({ origin: from, destination: to, waypoints: [] });
+    if (!routed) {
+      throw new Error("Could not find a route to that point. Try moving it closer to a street.");
+    }
+    const [leg] = routed.legs;
+    // Legs are reused from their steps' paths on the next edit, so make sure there is at least one step
+    return leg && leg.steps.length > 0
+      ? leg
+      : {
+          startLocation: from,
+          endLocation: to,
+          distanceMeters: routed.distanceMeters,
+          durationSeconds: 0,
+          steps: [{ instruction: '', distanceMeters: routed.distanceMeters, durationSeconds: 0, path: routed.path }],
+        };
+  }));
+
+  const path = legs.flatMap((leg, i) => (i === 0 ? legPath(leg) : legPath(leg).slice(1)));
+  const outbound: RouteGeometry = {
+    path,
+    legs,
+    bounds: computeBounds(path),
+    distanceMeters: legs.reduce((sum, leg) => sum + leg.distanceMeters, 0),
+  };
+  const route = completeCourseRoute(outbound, course.mode);
+
+  const samples = await providers.elevation.getElevationAlongPath(route.path, Math.min(ELEVATION_SAMPLES, route.path.length));
+  const elevationProfile = buildElevationProfile(samples, route.distanceMeters);
+  const distanceKm = route.distanceMeters / 1000;
+
+  return {
+    ...course,
+    source: 'edited',
+    viaPoints,
+    route,
+    elevationProfile,
+    stats: buildRouteStats(
+      {
+        elevationProfile,
+        distanceKm,
+        elevationGainM: elevationProfile.totalGainM,
+        maxGradePercent: maxGradePercent(elevationProfile),
+        overlap: analyzeRouteOverlap(route.path),
+      },
+      desiredDistanceKm,
+      course.stats.elevationPreference,
+      pace
+    ),
+  };
+};
@@ -0,0 +1,148 @@
+import type { CourseLibraryQuery, GeneratedCourse, GenerationOptions, SavedCourse } from '../types';
+import { DEFAULT_GENERATION_OPTIONS } from '../constants';
+import { STORES, get, getAll, put, remove } from './indexedDb';
+import { distanceBetweenM } from './geo';
+import { analyzeRouteOverlap } from './routeOverlap';
+import { newId } from './ids';
+
+// Saved course library, persisted in IndexedDB.
+
+// 2: courses carry their source, via points and the overlap stats
+export const COURSE_SCHEMA_VERSION = 2;
+
+export const EMPTY_LIBRARY_QUERY: CourseLibraryQuery = {
+  search: '',
+  sortBy: 'newest',
+  minDistanceKm: null,
+  maxDistanceKm: null,
+  maxGainM: null,
+  near: null,
+};
+
+export const parseTags = (input: string): string[] =>
+  Array.from(new Set(input.split(',').map((tag) => tag.trim()).filter((tag) => tag.length > 0)));
+
+export const createSavedCourse = (
+  course: GeneratedCourse,
+  details: { name: string; tags: string[]; notes: string },
+  settings: { desiredDistanceKm: number; generationOptions: GenerationOptions }
+): SavedCourse => {
+  const now = new Date().toISOString();
+  return {
+    id: newId(),
+    schemaVersion: COURSE_SCHEMA_VERSION,
+    name: details.name.trim() || `Course ${course.stats.totalDistanceKm} km`,
+    tags: details.tags,
+    notes: details.notes,
+    createdAt: now,
+    updatedAt: now,
+    desiredDistanceKm: settings.desiredDistanceKm,
+    generationOptions: settings.generationOptions,
+    course,
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isLatLng = (value: unknown): boolean => isRecord(value) && typeof value.lat === 'number' && typeof value.lng === 'number';
+
+// The parts of a stored course the library and the course view read directly
+const isReadableCourse = (course: unknown): boolean =>
+  isRecord(course) &&
+  isLatLng(course.startPoint) &&
+  isRecord(course.route) &&
+  Array.isArray(course.route.path) &&
+  isRecord(course.elevationProfile) &&
+  Array.isArray(course.elevationProfile.points) &&
+  isRecord(course.stats) &&
+  typeof course.stats.totalDistanceKm === 'number' &&
+  typeof course.stats.cumulativeElevationGainM === 'number' &&
+  typeof course.stats.estimatedTimeMin === 'number';
+
+// Version 1 courses lack the source, via points and overlap stats (some saved while those were being added have them)
+const upgradeV1Course = (course: GeneratedCourse): GeneratedCourse => {
+  const overlap = typeof course.stats.overlapPercent === 'number' ? null : analyzeRouteOverlap(course.route.path);
+  return {
+    ...course,
+    source: course.source ?? 'generated',
+    viaPoints: Array.isArray(course.viaPoints) ? course.viaPoints : [],
+    stats: overlap
+      ? { ...course.stats, overlapPercent: parseFloat(overlap.overlapPercent.toFixed(0)), uTurnCount: overlap.uTurnCount }
+      : course.stats,
+  };
+};
+
+// Validates a stored record and upgrades it to the current schema into a new object (the input is left as it is).
+// Returns null for records that can't be read.
+export const deserializeSavedCourse = (raw: unknown): SavedCourse | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.schemaVersion !== 'number') return null;
+  if (raw.schemaVersion > COURSE_SCHEMA_VERSION) return null; // written by a newer version of the app
+  if (typeof raw.name !== 'string' || typeof raw.createdAt !== 'string' || typeof raw.desiredDistanceKm !== 'number') return null;
+  if (!isReadableCourse(raw.course)) return null;
+
+  const stored = raw as unknown as SavedCourse;
+  return {
+    ...stored,
+    course: raw.schemaVersion < 2 ? upgradeV1Course(stored.course) : stored.course,
+    tags: Array.isArray(raw.tags) ? raw.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+    notes: typeof raw.notes === 'string' ? raw.notes : '',
+    generationOptions: { ...DEFAULT_GENERATION_OPTIONS, ...(isRecord(raw.generationOptions) ? raw.generationOptions : {}) },
+    schemaVersion: COURSE_SCHEMA_VERSION,
+  };
+};
+
+// Records that can't be read are left out, so one damaged course doesn't hide the rest of the library
+export const listSavedCourses = async (): Promise<SavedCourse[]> => {
+  const records = await getAll<unknown>(STORES.courses);
+  return records.flatMap((record) => {
+    try {
+      const saved = deserializeSavedCourse(record);
+      return saved ? [saved] : [];
+    } catch (err) {
+      console.warn("Skipping a saved course that could not be read:", err);
+      return [];
+    }
+  });
+};
+
+export const saveCourse = (saved: SavedCourse): Promise<void> => put(STORES.courses, saved);
+
+export const updateSavedCourse = async (
+  id: string,
+  changes: Partial<Pick<SavedCourse, 'name' | 'tags' | 'notes'>>
+): Promise<SavedCourse> => {
+  const existing = deserializeSavedCourse(await get<unknown>(STORES.courses, id));
+  if (!existing) {
+    throw new Error("Saved course not found.");
+  }
+  const updated: SavedCourse = { ...existing, ...changes, updatedAt: new Date().toISOString() };
+  await put(STORES.courses, updated);
+  return updated;
+};
+
+export const deleteSavedCourse = (id: string): Promise<void> => remove(STORES.courses, id);
+
+// Applies the library search, filters and sort order (in memory; libraries are small).
+export const querySavedCourses = (courses: SavedCourse[], query: CourseLibraryQuery): SavedCourse[] => {
+  const search = query.search.trim().toLowerCase();
+  const filtered = courses.filter((saved) => {
+    const { totalDistanceKm, cumulativeElevationGainM } = saved.course.stats;
+    if (search) {
+      const haystack = [saved.name, saved.notes, ...saved.tags].join(' ').toLowerCase();
+      if (!haystack.includes(search)) return false;
+    }
+    if (query.minDistanceKm !== null && totalDistanceKm < query.minDistanceKm) return false;
+    if (query.maxDistanceKm !== null && totalDistanceKm > query.maxDistanceKm) return false;
+    if (query.maxGainM !== null && cumulativeElevationGainM > query.maxGainM) return false;
+    if (query.near && distanceBetweenM(saved.course.startPoint, query.near.point) > query.near.radiusKm * 1000) return false;
+    return true;
+  });
+
+  const compare: Record<CourseLibraryQuery['sortBy'], (a: SavedCourse, b: SavedCourse) => number> = {
+    newest: (a, b) => b.createdAt.localeCompare(a.createdAt),
+    name: (a, b) => a.name.localeCompare(b.name),
+    distance: (a, b) => a.course.stats.totalDistanceKm - b.course.stats.totalDistanceKm,
+    gain: (a, b) => a.course.stats.cumulativeElevationGainM - b.course.stats.cumulativeElevationGainM,
+  };
+  return filtered.sort(compare[query.sortBy]);
+};
@@ -0,0 +1,102 @@
+import type { CourseMode, GenerationOptions, LatLngLiteral, RouteGeometry, RouteLeg, RouteRequest, RouteStep } from '../types';
+import { LOOP_ROUTE_DETOUR_FACTOR } from '../constants';
+import { computeOffset, distanceBetweenM, interpolate } from './geo';
+import { baseWaypointRadiusMeters, buildLoopWaypoints } from './loopStrategies';
+
+// Every course mode is generated from (bearing, radius) candidates, so the candidate search and the
+// distance refinement in mapService work the same way for all of them:
+// - loop: waypoints on the loop shape around the start (see loopStrategies)
+// - out-and-back: the turnaround point; the route to it is retraced back to the start
+// - point-to-point: a detour waypoint around the midpoint between start and finish
+
+export const COURSE_MODES: Record<CourseMode, { label: string }> = {
+  loop: { label: 'ループ / Loop' },
+  'out-and-back': { label: '往復 / Out and back' },
+  'point-to-point': { label: '片道 / Point to point' },
+};
+
+const requireFinishPoint = (options: GenerationOptions): LatLngLiteral => {
+  if (!options.finishPoint) {
+    throw new Error("Please set a finish point on the map.");
+  }
+  return options.finishPoint;
+};
+
+// Radius for the first round of candidates. A radius of 0 means no detour is needed (point-to-point
+// courses whose direct distance already covers the desired distance).
+export const baseCandidateRadiusMeters = (
+  startPoint: LatLngLiteral,
+  desiredDistanceKm: number,
+  options: GenerationOptions
+): number => {
+  const desiredMeters = desiredDistanceKm * 1000;
+  switch (options.mode) {
+    case 'loop':
+      return baseWaypointRadiusMeters(options.strategy, desiredDistanceKm) * options.radiusScale;
+    case 'out-and-back':
+      return (desiredMeters / 2 / LOOP_ROUTE_DETOUR_FACTOR) * options.radiusScale;
+    case 'point-to-point': {
+      // Detour waypoint perpendicular to the midpoint: 2 * sqrt((d/2)^2 + r^2) = straight-line length
+      const halfDirectMeters = distanceBetweenM(startPoint, requireFinishPoint(options)) / 2;
+      const halfStraightMeters = desiredMeters / 2 / LOOP_ROUTE_DETOUR_FACTOR;
+      if (halfStraightMeters <= halfDirectMeters) return 0;
+      return Math.sqrt(halfStraightMeters ** 2 - halfDirectMeters ** 2) * options.radiusScale;
+    }
+  }
+};
+
+export const buildCandidateRequest = (
+  startPoint: LatLngLiteral,
+  bearingDegrees: number,
+  radiusMeters: number,
+  options: GenerationOptions
+): RouteRequest => {
+  switch (options.mode) {
+    case 'loop':
+      return {
+        origin: startPoint,
+        destination: startPoint,
+        waypoints: buildLoopWaypoints(startPoint, options.strategy, bearingDegrees, radiusMeters),
+      };
+    case 'out-and-back':
+      return { origin: startPoint, destination: computeOffset(startPoint, radiusMeters, bearingDegrees), waypoints: [] };
+    case 'point-to-point': {
+      const finishPoint = requireFinishPoint(options);
+      const midpoint = interpolate(startPoint, finishPoint, 0.5);
+      return {
+        origin: startPoint,
+        destination: finishPoint,
+        waypoints: radiusMeters > 0 ? [computeOffset(midpoint, radiusMeters, bearingDegrees)] : [],
+      };
+    }
+  }
+};
+
+const reverseStep = (step: RouteStep): RouteStep => ({
+  ...step,
+  instruction: step.streetName ? `Return along ${step.streetName}` : 'Retrace the outbound route',
+  path: [...step.path].reverse(),
+  maneuver: 'return',
+});
+
+// Out-and-back courses retrace the outbound route, so the return leg is the outbound leg reversed.
+const mirrorRoute = (outbound: RouteGeometry): RouteGeometry => {
+  const outboundLegs = outbound.legs;
+  const returnLeg: RouteLeg = {
+    startLocation: outboundLegs[outboundLegs.length - 1]?.endLocation ?? outbound.path[outbound.path.length - 1],
+    endLocation: outboundLegs[0]?.startLocation ?? outbound.path[0],
+    distanceMeters: outbound.distanceMeters,
+    durationSeconds: outboundLegs.reduce((sum, leg) => sum + leg.durationSeconds, 0),
+    steps: [...outboundLegs].reverse().flatMap((leg) => [...leg.steps].reverse().map(reverseStep)),
+  };
+  return {
+    path: [...outbound.path, ...[...outbound.path].reverse().slice(1)],
+    legs: [...outboundLegs, returnLeg],
+    bounds: outbound.bounds,
+    distanceMeters: outbound.distanceMeters * 2,
+  };
+};
+
+// Turns the routed geometry into the full course for the mode (only out-and-back needs changes).
+export const completeCourseRoute = (route: RouteGeometry, mode: CourseMode): RouteGeometry =>
+  mode === 'out-and-back' ? mirrorRoute(route) : route;
@@ -0,0 +1,105 @@
+import type { Cue, GeneratedCourse, LatLngLiteral, RouteStep } from '../types';
+import { computeHeading, cumulativeDistancesM, locationAlongPath } from './geo';
+import { elevationAtDistance } from './elevationProfile';
+
+// Turns the route steps of every leg into runner-friendly cues. Each step boundary is placed by its share of
+// the summed step distances, and the turn there is read from the course geometry rather than the provider's
+// wording, so all backends (and the reversed steps of out-and-back courses) read alike. Boundaries where the
+// runner just carries on along the same street, such as the stopover at a routing waypoint, are dropped, and
+// cues a few meters apart are merged into one.
+
+const HEADING_LOOK_M = 20; // how far before and after a boundary the headings are measured
+const CONTINUE_ANGLE_DEGREES = 25;
+const BEAR_ANGLE_DEGREES = 60;
+const U_TURN_ANGLE_DEGREES = 150;
+const MERGE_DISTANCE_M = 25;
+
+const COMPASS_POINTS = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'];
+
+const compassPoint = (headingDegrees: number): string =>
+  COMPASS_POINTS[Math.round((((headingDegrees % 360) + 360) % 360) / 45) % COMPASS_POINTS.length];
+
+// Street of a step; Google steps only name it in the instruction ("Turn left onto Main St toward 2nd Ave")
+export const streetOf = (step: RouteStep): string | null => {
+  if (step.streetName) return step.streetName;
+  const match = step.instruction.match(/\b(?:onto|on|along)\s+(.+?)(?:\s+toward\b.*)?$/i);
+  return match ? match[1].trim() : null;
+};
+
+const isRoundabout = (step: RouteStep): boolean => /roundabout|rotary/i.test(`${step.maneuver ?? ''} ${step.instruction}`);
+
+const lowerFirst = (text: string): string => text.charAt(0).toLowerCase() + text.slice(1);
+
+// Signed change of direction at `distanceM` (positive is to the right), in degrees
+const turnAngleAt = (path: LatLngLiteral[], cumulativeM: number[], distanceM: number): number => {
+  const before = locationAlongPath(path, cumulativeM, distanceM - HEADING_LOOK_M);
+  const at = locationAlongPath(path, cumulativeM, distanceM);
+  const after = locationAlongPath(path, cumulativeM, distanceM + HEADING_LOOK_M);
+  if (!before || !at || !after) return 0;
+  const angle = computeHeading(at, after) - computeHeading(before, at);
+  return ((angle + 540) % 360) - 180;
+};
+
+const describeTurn = (angle: number, street: string | null): string => {
+  const abs = Math.abs(angle);
+  if (abs >= U_TURN_ANGLE_DEGREES) return street ? `Turn around on ${street}` : 'Turn around';
+  const side = angle < 0 ? 'left' : 'right';
+  const verb = abs >= BEAR_ANGLE_DEGREES ? 'Turn' : abs >= CONTINUE_ANGLE_DEGREES ? 'Bear' : 'Continue';
+  const turn = verb === 'Continue' ? verb : `${verb} ${side}`;
+  return street ? `${turn} onto ${street}` : turn;
+};
+
+export const buildCueSheet = (course: GeneratedCourse): Cue[] => {
+  const { route, elevationProfile } = course;
+  const totalM = route.distanceMeters;
+  const pathM = cumulativeDistancesM(route.path);
+  const pathTotalM = pathM[pathM.length - 1] ?? 0;
+  const cumulativeM = pathTotalM > 0 ? pathM.map((d) => (d * totalM) / pathTotalM) : pathM;
+  const steps = route.legs.flatMap((leg) => leg.steps);
+  const stepTotalM = steps.reduce((sum, step) => sum + step.distanceMeters, 0);
+  const scale = stepTotalM > 0 ? totalM / stepTotalM : 1;
+
+  const cueAt = (kind: Cue['kind'], distanceM: number, instruction: string): Cue => ({
+    kind,
+    distanceM,
+    instruction,
+    location: locationAlongPath(route.path, cumulativeM, distanceM) ?? course.startPoint,
+    elevationM: elevationAtDistance(elevationProfile, distanceM),
+  });
+
+  let currentStreet = steps.length > 0 ? streetOf(steps[0]) : null;
+  const firstLeg = route.path.length > 1 ? computeHeading(route.path[0], locationAlongPath(route.path, cumulativeM, HEADING_LOOK_M)!) : null;
+  const cues: Cue[] = [
+    cueAt(
+      'start',
+      0,
+      ['Start', firstLeg !== null ? `heading ${compassPoint(firstLeg)}` : null, currentStreet ? `on ${currentStreet}` : null]
+        .filter(Boolean)
+        .join(' ')
+    ),
+  ];
+
+  let stepStartM = 0;
+  for (const [i, step] of steps.entries()) {
+    const distanceM = stepStartM * scale;
+    stepStartM += step.distanceMeters;
+    if (i === 0 || distanceM <= 0 || distanceM >= totalM - MERGE_DISTANCE_M) continue;
+
+    const street = streetOf(step);
+    const angle = turnAngleAt(route.path, cumulativeM, distanceM);
+    const carriesOn = Math.abs(angle) < CONTINUE_ANGLE_DEGREES && (!street || street === currentStreet);
+    if (street) currentStreet = street;
+    if (carriesOn && !isRoundabout(step)) continue;
+
+    const instruction = isRoundabout(step) ? step.instruction : describeTurn(angle, street);
+    const previous = cues[cues.length - 1];
+    if (distanceM - previous.distanceM < MERGE_DISTANCE_M) {
+      previous.instruction = `${previous.instruction}, then ${lowerFirst(instruction)}`;
+    } else {
+      cues.push(cueAt('turn', distanceM, instruction));
+    }
+  }
+
+  cues.push(cueAt('finish', totalM, 'Finish'));
+  return cues;
+};
@@ -0,0 +1,75 @@
+import type { ElevationProfile, ElevationProfilePoint, ElevationSample, LatLngLiteral } from '../types';
+import { distanceBetweenM, interpolate } from './geo';
+
+// Elevation samples come back evenly spaced along the route, so each sample's distance from the start
+// follows from its index. The profile keeps every sample so charts and exports can use it.
+export const buildElevationProfile = (samples: ElevationSample[], routeDistanceMeters: number): ElevationProfile => {
+  const spacingMeters = samples.length > 1 ? routeDistanceMeters / (samples.length - 1) : 0;
+  const points: ElevationProfilePoint[] = samples.map((sample, i) => ({
+    distanceM: spacingMeters * i,
+    elevationM: sample.elevationM,
+    location: sample.location,
+  }));
+
+  let totalGainM = 0;
+  let totalLossM = 0;
+  for (let i = 1; i < points.length; i++) {
+    const diff = points[i].elevationM - points[i - 1].elevationM;
+    if (diff > 0) {
+      totalGainM += diff;
+    } else {
+      totalLossM -= diff;
+    }
+  }
+
+  const elevations = points.map((p) => p.elevationM);
+  return {
+    points,
+    minElevationM: elevations.length > 0 ? Math.min(...elevations) : 0,
+    maxElevationM: elevations.length > 0 ? Math.max(...elevations) : 0,
+    totalGainM,
+    totalLossM,
+  };
+};
+
+// Index of the profile segment containing distanceM, and how far along it the distance falls (0..1).
+const segmentAt = (profile: ElevationProfile, distanceM: number): { index: number; fraction: number } => {
+  const points = profile.points;
+  if (points.length < 2) return { index: 0, fraction: 0 };
+  let index = points.findIndex((p) => p.distanceM > distanceM) - 1;
+  if (index < 0) index = distanceM <= 0 ? 0 : points.length - 2;
+  const a = points[index];
+  const b = points[index + 1];
+  const span = b.distanceM - a.distanceM;
+  return { index, fraction: span > 0 ? Math.min(1, Math.max(0, (distanceM - a.distanceM) / span)) : 0 };
+};
+
+export const elevationAtDistance = (profile: ElevationProfile, distanceM: number): number => {
+  const points = profile.points;
+  if (points.length === 0) return 0;
+  if (points.length === 1) return points[0].elevationM;
+  const { index, fraction } = segmentAt(profile, distanceM);
+  return points[index].elevationM + (points[index + 1].elevationM - points[index].elevationM) * fraction;
+};
+
+export const locationAtDistance = (profile: ElevationProfile, distanceM: number): LatLngLiteral | null => {
+  const points = profile.points;
+  if (points.length === 0) return null;
+  if (points.length === 1) return points[0].location;
+  const { index, fraction } = segmentAt(profile, distanceM);
+  return interpolate(points[index].location, points[index + 1].location, fraction);
+};
+
+// Distance along the course of the profile sample closest to the given location.
+export const nearestProfileDistance = (profile: ElevationProfile, location: LatLngLiteral): number | null => {
+  let best: ElevationProfilePoint | null = null;
+  let bestDistance = Infinity;
+  for (const point of profile.points) {
+    const d = distanceBetweenM(point.location, location);
+    if (d < bestDistance) {
+      best = point;
+      bestDistance = d;
+    }
+  }
+  return best ? best.distanceM : null;
+};
@@ -0,0 +1,259 @@
+import type { ExportFormat, GeneratedCourse, LatLngLiteral } from '../types';
+import { cumulativeDistancesM, distanceBetweenM } from './geo';
+import { elevationAtDistance } from './elevationProfile';
+import { createZip } from './zipArchive';
+
+// Serialises a generated course into the file formats GPS watches and other apps understand.
+
+interface CoursePoint extends LatLngLiteral {
+  elevationM: number;
+  distanceM: number; // cumulative from the start
+  timeOffsetS: number; // predicted, from the course's estimated time
+}
+
+interface ExportFileInfo {
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFileInfo & { label: string }> = {
+  'gpx-track': { label: 'GPX (track)', extension: 'gpx', mimeType: 'application/gpx+xml' },
+  'gpx-route': { label: 'GPX (route)', extension: 'gpx', mimeType: 'application/gpx+xml' },
+  tcx: { label: 'TCX (course)', extension: 'tcx', mimeType: 'application/vnd.garmin.tcx+xml' },
+  kml: { label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  geojson: { label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+};
+
+const CREATOR = 'Running Course Generator';
+const TCX_MAX_NAME_LENGTH = 15; // TCX course names are limited to 15 characters by the schema
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const fixed = (value: number, digits: number): string => value.toFixed(digits);
+
+export const defaultCourseName = (course: GeneratedCourse): string => `Course ${course.stats.totalDistanceKm} km`;
+
+const toCoursePoints = (course: GeneratedCourse): CoursePoint[] => {
+  const path = course.route.path;
+  const distances = cumulativeDistancesM(path);
+  const totalM = distances[distances.length - 1] ?? 0;
+  const secondsPerMeter = totalM > 0 ? (course.stats.estimatedTimeMin * 60) / totalM : 0;
+  // The profile is indexed by routed distance, which can differ slightly from the polyline length
+  const profileScale = totalM > 0 ? course.route.distanceMeters / totalM : 0;
+  return path.map((point, i) => ({
+    lat: point.lat,
+    lng: point.lng,
+    elevationM: elevationAtDistance(course.elevationProfile, distances[i] * profileScale),
+    distanceM: distances[i],
+    timeOffsetS: distances[i] * secondsPerMeter,
+  }));
+};
+
+// Route exports only need the decision points: the start of every step plus the finish.
+const toTurnPoints = (course: GeneratedCourse, points: CoursePoint[]): CoursePoint[] => {
+  const nearest = (target: LatLngLiteral): CoursePoint =>
+    points.reduce((best, p) => (distanceBetweenM(p, target) < distanceBetweenM(best, target) ? p : best), points[0]);
+  const turns = course.route.legs.flatMap((leg) => leg.steps.filter((step) => step.path.length > 0).map((step) => nearest(step.path[0])));
+  if (turns.length === 0) return points;
+  return [...turns, points[points.length - 1]];
+};
+
+const isLoop = (points: CoursePoint[]): boolean =>
+  points.length > 1 && distanceBetweenM(points[0], points[points.length - 1]) < 30;
+
+const endpointNames = (points: CoursePoint[]): { start: string; finish: string | null } =>
+  isLoop(points) ? { start: 'Start/Finish', finish: null } : { start: 'Start', finish: 'Finish' };
+
+export const toGpx = (course: GeneratedCourse, name: string, kind: 'track' | 'route'): string => {
+  const points = toCoursePoints(course);
+  if (points.length === 0) return '';
+  const names = endpointNames(points);
+  const wpt = (p: CoursePoint, label: string) =>
+    `  <wpt lat="${fixed(p.lat, 7)}" lon="${fixed(p.lng, 7)}"><ele>${fixed(p.elevationM, 1)}</ele><name>${escapeXml(label)}</name></wpt>`;
+  const pt = (tag: string, p: CoursePoint, indent: string) =>
+    `${indent}<${tag} lat="${fixed(p.lat, 7)}" lon="${fixed(p.lng, 7)}"><ele>${fixed(p.elevationM, 1)}</ele></${tag}>`;
+
+  const body =
+    kind === 'track'
+      ? [`  <trk>`, `    <name>${escapeXml(name)}</name>`, `    <trkseg>`, ...points.map((p) => pt('trkpt', p, '      ')), `    </trkseg>`, `  </trk>`]
+      : [`  <rte>`, `    <name>${escapeXml(name)}</name>`, ...toTurnPoints(course, points).map((p) => pt('rtept', p, '    ')), `  </rte>`];
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    `  <metadata><name>${escapeXml(name)}</name></metadata>`,
+    wpt(points[0], names.start),
+    ...(names.finish ? [wpt(points[points.length - 1], names.finish)] : []),
+    ...body,
+    `</gpx>`,
+    '',
+  ].join('\n');
+};
+
+export const toTcx = (course: GeneratedCourse, name: string, startTime: Date = new Date()): string => {
+  const points = toCoursePoints(course);
+  if (points.length === 0) return '';
+  const courseName = name.slice(0, TCX_MAX_NAME_LENGTH);
+  const last = points[points.length - 1];
+  const time = (p: CoursePoint) => new Date(startTime.getTime() + p.timeOffsetS * 1000).toISOString();
+  const position = (p: CoursePoint) =>
+    `<Position><LatitudeDegrees>${fixed(p.lat, 7)}</LatitudeDegrees><LongitudeDegrees>${fixed(p.lng, 7)}</LongitudeDegrees></Position>`;
+  const coursePoint = (p: CoursePoint, label: string) =>
+    `        <CoursePoint><Name>${escapeXml(label.slice(0, 10))}</Name><Time>${time(p)}</Time>${position(p)}<PointType>Generic</PointType></CoursePoint>`;
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">`,
+    `  <Courses>`,
+    `    <Course>`,
+    `      <Name>${escapeXml(courseName)}</Name>`,
+    `      <Lap>`,
+    `        <TotalTimeSeconds>${fixed(last.timeOffsetS, 0)}</TotalTimeSeconds>`,
+    `        <DistanceMeters>${fixed(last.distanceM, 1)}</DistanceMeters>`,
+    `        <BeginPosition><LatitudeDegrees>${fixed(points[0].lat, 7)}</LatitudeDegrees><LongitudeDegrees>${fixed(points[0].lng, 7)}</LongitudeDegrees></BeginPosition>`,
+    `        <EndPosition><LatitudeDegrees>${fixed(last.lat, 7)}</LatitudeDegrees><LongitudeDegrees>${fixed(last.lng, 7)}</LongitudeDegrees></EndPosition>`,
+    `        <Intensity>Active</Intensity>`,
+    `      </Lap>`,
+    `      <Track>`,
+    ...points.map(
+      (p) =>
+        `        <Trackpoint><Time>${time(p)}</Time>${position(p)}<AltitudeMeters>${fixed(p.elevationM, 1)}</AltitudeMeters><DistanceMeters>${fixed(p.distanceM, 1)}</DistanceMeters></Trackpoint>`
+    ),
+    `      </Track>`,
+    coursePoint(points[0], 'Start'),
+    coursePoint(last, 'Finish'),
+    `    </Course>`,
+    `  </Courses>`,
+    `</TrainingCenterDatabase>`,
+    '',
+  ].join('\n');
+};
+
+export const toKml = (course: GeneratedCourse, name: string): string => {
+  const points = toCoursePoints(course);
+  if (points.length === 0) return '';
+  const names = endpointNames(points);
+  const coordinate = (p: CoursePoint) => `${fixed(p.lng, 7)},${fixed(p.lat, 7)},${fixed(p.elevationM, 1)}`;
+  const placemarkPoint = (p: CoursePoint, label: string) =>
+    `    <Placemark><name>${escapeXml(label)}</name><Point><coordinates>${coordinate(p)}</coordinates></Point></Placemark>`;
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<kml xmlns="http://www.opengis.net/kml/2.2">`,
+    `  <Document>`,
+    `    <name>${escapeXml(name)}</name>`,
+    `    <Style id="course"><LineStyle><color>ff0000ff</color><width>4</width></LineStyle></Style>`,
+    `    <Placemark>`,
+    `      <name>${escapeXml(name)}</name>`,
+    `      <styleUrl>#course</styleUrl>`,
+    `      <LineString>`,
+    `        <tessellate>1</tessellate>`,
+    `        <altitudeMode>clampToGround</altitudeMode>`,
+    `        <coordinates>${points.map(coordinate).join(' ')}</coordinates>`,
+    `      </LineString>`,
+    `    </Placemark>`,
+    placemarkPoint(points[0], names.start),
+    ...(names.finish ? [placemarkPoint(points[points.length - 1], names.finish)] : []),
+    `  </Document>`,
+    `</kml>`,
+    '',
+  ].join('\n');
+};
+
+export const toGeoJson = (course: GeneratedCourse, name: string): string => {
+  const points = toCoursePoints(course);
+  if (points.length === 0) return '';
+  const names = endpointNames(points);
+  const coordinate = (p: CoursePoint) => [Number(fixed(p.lng, 7)), Number(fixed(p.lat, 7)), Number(fixed(p.elevationM, 1))];
+  const pointFeature = (p: CoursePoint, role: string) => ({
+    type: 'Feature',
+    properties: { name: role },
+    geometry: { type: 'Point', coordinates: coordinate(p) },
+  });
+
+  return JSON.stringify(
+    {
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: {
+            name,
+            distanceKm: course.stats.totalDistanceKm,
+            elevationGainM: course.stats.cumulativeElevationGainM,
+            estimatedTimeMin: course.stats.estimatedTimeMin,
+            elevationLossM: Number(fixed(course.elevationProfile.totalLossM, 0)),
+            elevationProfile: course.elevationProfile.points.map((p) => [Number(fixed(p.distanceM, 0)), Number(fixed(p.elevationM, 1))]),
+          },
+          geometry: { type: 'LineString', coordinates: points.map(coordinate) },
+        },
+        pointFeature(points[0], names.start),
+        ...(names.finish ? [pointFeature(points[points.length - 1], names.finish)] : []),
+      ],
+    },
+    null,
+    2
+  );
+};
+
+export const exportCourse = (course: GeneratedCourse, format: ExportFormat, name: string = defaultCourseName(course)): string => {
+  switch (format) {
+    case 'gpx-track':
+      return toGpx(course, name, 'track');
+    case 'gpx-route':
+      return toGpx(course, name, 'route');
+    case 'tcx':
+      return toTcx(course, name);
+    case 'kml':
+      return toKml(course, name);
+    case 'geojson':
+      return toGeoJson(course, name);
+  }
+};
+
+// Course name reduced to characters that are safe in file names on every platform
+export const safeFileBaseName = (name: string): string => name.trim().replace(/[^\w.-]+/g, '_') || 'course';
+
+export const exportFileName = (name: string, format: ExportFormat): string =>
+  `${safeFileBaseName(name)}.${EXPORT_FORMATS[format].extension}`;
+
+// Some browsers start reading the blob only after click() returns, so the URL must outlive it for a while
+const REVOKE_URL_DELAY_MS = 10_000;
+
+const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_URL_DELAY_MS);
+};
+
+// Triggers a browser download of the course in the given format.
+export const downloadCourse = (course: GeneratedCourse, format: ExportFormat, name: string = defaultCourseName(course)): void => {
+  downloadBlob(new Blob([exportCourse(course, format, name)], { type: EXPORT_FORMATS[format].mimeType }), exportFileName(name, format));
+};
+
+// Several courses in one ZIP download, one file per course. File names are numbered in the given order,
+// which also keeps courses with the same name apart.
+export const downloadCourses = (
+  courses: { course: GeneratedCourse; name: string }[],
+  format: ExportFormat,
+  archiveName: string
+): void => {
+  const zip = createZip(
+    courses.map(({ course, name }, i) => ({
+      name: `${String(i + 1).padStart(2, '0')}-${exportFileName(name, format)}`,
+      content: exportCourse(course, format, name),
+    }))
+  );
+  downloadBlob(new Blob([zip], { type: 'application/zip' }), `${safeFileBaseName(archiveName)}.zip`);
+};
@@ -0,0 +1,77 @@
+import type { CandidateDiagnostic, CandidateStatus, GenerationDiagnostics, GenerationError } from '../types';
+import { ProviderError, RequestBudgetError } from './providers/providerError';
+
+// Turns what happened to each candidate of a failed generation into one specific, actionable message.
+
+export const CANDIDATE_STATUS_LABELS: Record<CandidateStatus, string> = {
+  ok: 'ok',
+  'no-route': 'no route found',
+  'zero-distance': 'zero-distance route',
+  'too-short': 'route too short',
+  'directions-failed': 'directions request failed',
+  'elevation-failed': 'elevation query failed',
+  duplicate: 'same route as another bearing',
+};
+
+const QUOTA_STATUSES = new Set(['OVER_QUERY_LIMIT', 'OVER_DAILY_LIMIT', 'HTTP_429']);
+const ACCESS_STATUSES = new Set(['REQUEST_DENIED', 'HTTP_401', 'HTTP_403']);
+
+const accessDenied = (): GenerationError => ({
+  kind: 'access-denied',
+  message: "The map service refused the request. Check that the API key is valid and that the Directions and Elevation APIs are enabled for it.",
+});
+
+const quotaExceeded = (): GenerationError => ({
+  kind: 'quota-exceeded',
+  message: "The map service's request quota is used up. Wait a minute and try again, or try again tomorrow if the daily quota is reached.",
+});
+
+// Errors thrown outside the per-candidate handling (creating the providers, request budgets)
+export const toGenerationError = (err: unknown): GenerationError => {
+  if (err instanceof RequestBudgetError) return { kind: 'budget-exceeded', message: err.message };
+  if (err instanceof ProviderError) {
+    if (err.status === 'API_NOT_LOADED') {
+      return { kind: 'api-not-loaded', message: "The Google Maps API hasn't loaded. Check your connection and API key, then reload the page." };
+    }
+    if (QUOTA_STATUSES.has(err.status)) return quotaExceeded();
+    if (ACCESS_STATUSES.has(err.status)) return accessDenied();
+  }
+  return { kind: 'request-failed', message: err instanceof Error ? err.message : "An unknown error occurred during course generation." };
+};
+
+const countWhere = (candidates: CandidateDiagnostic[], test: (c: CandidateDiagnostic) => boolean): number =>
+  candidates.filter(test).length;
+
+const bearings = (count: number): string => `${count} bearing${count === 1 ? '' : 's'}`;
+
+// The error for a generation where no candidate could be used. Account problems (quota, access) win over
+// everything else since retrying with other settings won't help; otherwise the most common failure decides.
+export const diagnoseFailure = (diagnostics: GenerationDiagnostics): GenerationError => {
+  const { candidates, desiredDistanceKm } = diagnostics;
+  const total = candidates.length;
+  if (candidates.some((c) => c.providerStatus !== null && QUOTA_STATUSES.has(c.providerStatus))) return quotaExceeded();
+  if (candidates.some((c) => c.providerStatus !== null && ACCESS_STATUSES.has(c.providerStatus))) return accessDenied();
+
+  const noRoute = countWhere(candidates, (c) => c.status === 'no-route' || c.status === 'zero-distance' || c.status === 'too-short');
+  const directionsFailed = countWhere(candidates, (c) => c.status === 'directions-failed');
+  const elevationFailed = countWhere(candidates, (c) => c.status === 'elevation-failed');
+
+  if (total === 0 || (noRoute >= directionsFailed && noRoute >= elevationFailed)) {
+    const scope = noRoute === total ? `All ${bearings(total)}` : `${noRoute} of ${bearings(total)}`;
+    return {
+      kind: 'no-route',
+      message: `${scope} found no route; their waypoints may be in water, parks or private land. Try a distance shorter than ${desiredDistanceKm} km or move the start point closer to a street.`,
+    };
+  }
+  if (elevationFailed > directionsFailed) {
+    return {
+      kind: 'elevation-failed',
+      message: `Routes were found, but the elevation query failed for ${elevationFailed} of ${bearings(total)}. The elevation service may be down; try again in a moment.`,
+    };
+  }
+  const example = candidates.find((c) => c.status === 'directions-failed')?.detail;
+  return {
+    kind: 'request-failed',
+    message: `The directions request failed for ${directionsFailed} of ${bearings(total)}${example ? ` (${example})` : ''}. Check your connection and try again.`,
+  };
+};
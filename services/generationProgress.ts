@@ -0,0 +1,31 @@
+import type { GenerationProgress, GenerationProgressEvent } from '../types';
+
+const MAX_RECENT_REJECTIONS = 3;
+
+export const EMPTY_GENERATION_PROGRESS: GenerationProgress = {
+  requested: 0,
+  routed: 0,
+  elevationFetched: 0,
+  rejected: 0,
+  recentRejections: [],
+};
+
+// Folds one progress event of findCandidateRoutes into the running totals
+export const applyProgressEvent = (progress: GenerationProgress, event: GenerationProgressEvent): GenerationProgress => {
+  switch (event.phase) {
+    case 'requested':
+      return { ...progress, requested: progress.requested + 1 };
+    case 'routed':
+      return { ...progress, routed: progress.routed + 1 };
+    case 'elevation':
+      return { ...progress, elevationFetched: progress.elevationFetched + 1 };
+    case 'rejected':
+      return {
+        ...progress,
+        rejected: progress.rejected + 1,
+        recentRejections: [`${Math.round(event.bearingDegrees)}°: ${event.reason}`, ...progress.recentRejections].slice(0, MAX_RECENT_REJECTIONS),
+      };
+    case 'selected':
+      return progress;
+  }
+};
@@ -0,0 +1,249 @@
+import type { LatLngLiteral, LatLngBoundsLiteral } from '../types';
+import { EARTH_RADIUS_KM } from '../constants';
+
+// Spherical helpers that work without the Google Maps geometry library,
+// so the generator can run against any provider (or outside the browser).
+
+const EARTH_RADIUS_M = EARTH_RADIUS_KM * 1000;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+// Great-circle distance between two points in meters (haversine formula).
+export const distanceBetweenM = (a: LatLngLiteral, b: LatLngLiteral): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Point reached by travelling distanceMeters from origin along the given heading (degrees clockwise from north).
+export const computeOffset = (origin: LatLngLiteral, distanceMeters: number, headingDegrees: number): LatLngLiteral => {
+  const angular = distanceMeters / EARTH_RADIUS_M;
+  const heading = toRadians(headingDegrees);
+  const lat1 = toRadians(origin.lat);
+  const lng1 = toRadians(origin.lng);
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(heading)
+  );
+  const lng2 =
+    lng1 +
+    Math.atan2(
+      Math.sin(heading) * Math.sin(angular) * Math.cos(lat1),
+      Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+    );
+  return { lat: toDegrees(lat2), lng: ((toDegrees(lng2) + 540) % 360) - 180 };
+};
+
+// Initial bearing from one point to another, in degrees clockwise from north (-180..180).
+export const computeHeading = (from: LatLngLiteral, to: LatLngLiteral): number => {
+  const lat1 = toRadians(from.lat);
+  const lat2 = toRadians(to.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return toDegrees(Math.atan2(y, x));
+};
+
+export const pathLengthM = (path: LatLngLiteral[]): number => {
+  let total = 0;
+  for (let i = 1; i < path.length; i++) {
+    total += distanceBetweenM(path[i - 1], path[i]);
+  }
+  return total;
+};
+
+// Distance from the start of the path to each of its points, in meters.
+export const cumulativeDistancesM = (path: LatLngLiteral[]): number[] => {
+  const distances: number[] = [];
+  let total = 0;
+  path.forEach((point, i) => {
+    if (i > 0) total += distanceBetweenM(path[i - 1], point);
+    distances.push(total);
+  });
+  return distances;
+};
+
+export const computeBounds = (path: LatLngLiteral[]): LatLngBoundsLiteral => {
+  const bounds: LatLngBoundsLiteral = { north: -90, south: 90, east: -180, west: 180 };
+  for (const point of path) {
+    bounds.north = Math.max(bounds.north, point.lat);
+    bounds.south = Math.min(bounds.south, point.lat);
+    bounds.east = Math.max(bounds.east, point.lng);
+    bounds.west = Math.min(bounds.west, point.lng);
+  }
+  return bounds;
+};
+
+// Linear interpolation between two points; fine for the short segments of a route path.
+export const interpolate = (a: LatLngLiteral, b: LatLngLiteral, fraction: number): LatLngLiteral => ({
+  lat: a.lat + (b.lat - a.lat) * fraction,
+  lng: a.lng + (b.lng - a.lng) * fraction,
+});
+
+// Point `distanceM` along the path, given the distance of each of its points from the start (clamped to the ends).
+export const locationAlongPath = (path: LatLngLiteral[], cumulativeM: number[], distanceM: number): LatLngLiteral | null => {
+  if (path.length === 0) return null;
+  const index = cumulativeM.findIndex((d) => d >= distanceM);
+  if (index <= 0) return index === 0 ? path[0] : path[path.length - 1];
+  const span = cumulativeM[index] - cumulativeM[index - 1];
+  return interpolate(path[index - 1], path[index], span > 0 ? (distanceM - cumulativeM[index - 1]) / span : 0);
+};
+
+// The part of the path from `fromM` to `toM` along it, given the distance of each of its points from the start.
+export const slicePath = (path: LatLngLiteral[], cumulativeM: number[], fromM: number, toM: number): LatLngLiteral[] => {
+  const start = locationAlongPath(path, cumulativeM, fromM);
+  const end = locationAlongPath(path, cumulativeM, toM);
+  if (!start || !end) return [];
+  return [start, ...path.filter((_, i) => cumulativeM[i] > fromM && cumulativeM[i] < toM), end];
+};
+
+// Returns `samples` points evenly spaced by distance along the path, including both ends.
+export const resamplePath = (path: LatLngLiteral[], samples: number): LatLngLiteral[] => {
+  if (path.length === 0 || samples <= 0) return [];
+  if (path.length === 1 || samples === 1) return [path[0]];
+
+  const totalM = pathLengthM(path);
+  const stepM = totalM / (samples - 1);
+  const result: LatLngLiteral[] = [path[0]];
+  let segmentIndex = 1;
+  let distanceToSegmentStartM = 0;
+
+  for (let i = 1; i < samples - 1; i++) {
+    const targetM = stepM * i;
+    let segmentM = distanceBetweenM(path[segmentIndex - 1], path[segmentIndex]);
+    while (distanceToSegmentStartM + segmentM < targetM && segmentIndex < path.length - 1) {
+      distanceToSegmentStartM += segmentM;
+      segmentIndex++;
+      segmentM = distanceBetweenM(path[segmentIndex - 1], path[segmentIndex]);
+    }
+    const fraction = segmentM > 0 ? (targetM - distanceToSegmentStartM) / segmentM : 0;
+    result.push(interpolate(path[segmentIndex - 1], path[segmentIndex], Math.min(1, Math.max(0, fraction))));
+  }
+
+  result.push(path[path.length - 1]);
+  return result;
+};
+
+// Distance in meters from `point` to the segment a-b, on a flat projection around a (fine at street scale).
+const distanceToSegmentM = (point: LatLngLiteral, a: LatLngLiteral, b: LatLngLiteral): number => {
+  const metersPerDegreeLat = toRadians(1) * EARTH_RADIUS_M;
+  const metersPerDegreeLng = metersPerDegreeLat * Math.cos(toRadians(a.lat));
+  const px = (point.lng - a.lng) * metersPerDegreeLng;
+  const py = (point.lat - a.lat) * metersPerDegreeLat;
+  const bx = (b.lng - a.lng) * metersPerDegreeLng;
+  const by = (b.lat - a.lat) * metersPerDegreeLat;
+  const lengthSquared = bx * bx + by * by;
+  const t = lengthSquared > 0 ? Math.min(1, Math.max(0, (px * bx + py * by) / lengthSquared)) : 0;
+  return Math.hypot(px - t * bx, py - t * by);
+};
+
+// Drops points that lie within `toleranceM` of the simplified line (Douglas-Peucker); both ends are kept.
+export const simplifyPath = (path: LatLngLiteral[], toleranceM: number): LatLngLiteral[] => {
+  if (path.length < 3) return path;
+  const keep = new Array<boolean>(path.length).fill(false);
+  keep[0] = keep[path.length - 1] = true;
+  const spans: [number, number][] = [[0, path.length - 1]];
+  while (spans.length > 0) {
+    const [from, to] = spans.pop()!;
+    let farthest = -1;
+    let farthestM = toleranceM;
+    for (let i = from + 1; i < to; i++) {
+      const d = distanceToSegmentM(path[i], path[from], path[to]);
+      if (d > farthestM) {
+        farthestM = d;
+        farthest = i;
+      }
+    }
+    if (farthest < 0) continue;
+    keep[farthest] = true;
+    spans.push([from, farthest], [farthest, to]);
+  }
+  return path.filter((_, i) => keep[i]);
+};
+
+// Encoded polyline algorithm format (as used by Google, OSRM and GraphHopper), for compact URLs.
+// The signed-integer helpers are also used on their own to encode elevation series.
+const encodeSignedValue = (value: number): string => {
+  let bits = value < 0 ? ~(value << 1) : value << 1;
+  let result = '';
+  while (bits >= 0x20) {
+    result += String.fromCharCode((0x20 | (bits & 0x1f)) + 63);
+    bits >>= 5;
+  }
+  return result + String.fromCharCode(bits + 63);
+};
+
+// Reads one value starting at `index`; returns the value and the index after it.
+const decodeSignedValue = (encoded: string, index: number): [number, number] => {
+  let shift = 0;
+  let bits = 0;
+  let byte: number;
+  do {
+    byte = encoded.charCodeAt(index++) - 63;
+    bits |= (byte & 0x1f) << shift;
+    shift += 5;
+  } while (byte >= 0x20 && index < encoded.length);
+  return [bits & 1 ? ~(bits >> 1) : bits >> 1, index];
+};
+
+// Delta-encodes a series of integers.
+export const encodeSignedIntegers = (values: number[]): string => {
+  let previous = 0;
+  return values
+    .map((value) => {
+      const encoded = encodeSignedValue(value - previous);
+      previous = value;
+      return encoded;
+    })
+    .join('');
+};
+
+export const decodeSignedIntegers = (encoded: string): number[] => {
+  const values: number[] = [];
+  let index = 0;
+  let previous = 0;
+  while (index < encoded.length) {
+    const [delta, next] = decodeSignedValue(encoded, index);
+    previous += delta;
+    values.push(previous);
+    index = next;
+  }
+  return values;
+};
+
+export const encodePolyline = (path: LatLngLiteral[], precision = 5): string => {
+  const factor = 10 ** precision;
+  let previousLat = 0;
+  let previousLng = 0;
+  return path
+    .map((point) => {
+      const lat = Math.round(point.lat * factor);
+      const lng = Math.round(point.lng * factor);
+      const encoded = encodeSignedValue(lat - previousLat) + encodeSignedValue(lng - previousLng);
+      previousLat = lat;
+      previousLng = lng;
+      return encoded;
+    })
+    .join('');
+};
+
+export const decodePolyline = (encoded: string, precision = 5): LatLngLiteral[] => {
+  const factor = 10 ** precision;
+  const path: LatLngLiteral[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+  while (index < encoded.length) {
+    const [dLat, afterLat] = decodeSignedValue(encoded, index);
+    if (afterLat >= encoded.length) break; // truncated input: a latitude without its longitude
+    const [dLng, afterLng] = decodeSignedValue(encoded, afterLat);
+    lat += dLat;
+    lng += dLng;
+    path.push({ lat: lat / factor, lng: lng / factor });
+    index = afterLng;
+  }
+  return path;
+};
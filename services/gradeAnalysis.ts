@@ -0,0 +1,115 @@
+import type { ElevationProfile, GradeBand, GradeSection, GradeSegment, RouteGeometry, SteepSectionThresholds } from '../types';
+import { cumulativeDistancesM } from './geo';
+
+// Gradient analysis on top of the elevation profile: per-segment grades for colored rendering
+// and detection of sustained climbs and descents.
+
+export const GRADE_BANDS: GradeBand[] = [
+  { label: '< -8%', minGradePercent: -Infinity, color: '#1E3A8A' },
+  { label: '-8 – -3%', minGradePercent: -8, color: '#60A5FA' },
+  { label: '-3 – 3%', minGradePercent: -3, color: '#22C55E' },
+  { label: '3 – 6%', minGradePercent: 3, color: '#EAB308' },
+  { label: '6 – 10%', minGradePercent: 6, color: '#F97316' },
+  { label: '> 10%', minGradePercent: 10, color: '#DC2626' },
+];
+
+export const gradeBandFor = (gradePercent: number): GradeBand => {
+  let band = GRADE_BANDS[0];
+  for (const candidate of GRADE_BANDS) {
+    if (gradePercent >= candidate.minGradePercent) band = candidate;
+  }
+  return band;
+};
+
+// Grade of every profile segment, as a signed percentage (positive = uphill).
+export const profileGrades = (profile: ElevationProfile): number[] => {
+  const points = profile.points;
+  const grades: number[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const run = points[i].distanceM - points[i - 1].distanceM;
+    grades.push(run > 0 ? ((points[i].elevationM - points[i - 1].elevationM) / run) * 100 : 0);
+  }
+  return grades;
+};
+
+export const maxGradePercent = (profile: ElevationProfile): number =>
+  profileGrades(profile).reduce((max, grade) => Math.max(max, Math.abs(grade)), 0);
+
+const gradeAtDistance = (profile: ElevationProfile, grades: number[], distanceM: number): number => {
+  const points = profile.points;
+  for (let i = 1; i < points.length; i++) {
+    if (distanceM <= points[i].distanceM) return grades[i - 1];
+  }
+  return grades[grades.length - 1] ?? 0;
+};
+
+// Splits the route path into runs of the same grade band, ready to draw as separate polylines.
+export const buildGradeSegments = (route: RouteGeometry, profile: ElevationProfile): GradeSegment[] => {
+  const path = route.path;
+  if (path.length < 2 || profile.points.length < 2) return [];
+  const grades = profileGrades(profile);
+  const distances = cumulativeDistancesM(path);
+  // The profile is indexed by routed distance, which can differ slightly from the polyline length
+  const scale = distances[distances.length - 1] > 0 ? route.distanceMeters / distances[distances.length - 1] : 0;
+
+  const segments: GradeSegment[] = [];
+  for (let i = 1; i < path.length; i++) {
+    const midDistanceM = ((distances[i - 1] + distances[i]) / 2) * scale;
+    const grade = gradeAtDistance(profile, grades, midDistanceM);
+    const band = gradeBandFor(grade);
+    const last = segments[segments.length - 1];
+    if (last && last.color === band.color) {
+      last.path.push(path[i]);
+      last.endDistanceM = distances[i] * scale;
+    } else {
+      segments.push({
+        path: [path[i - 1], path[i]],
+        color: band.color,
+        startDistanceM: distances[i - 1] * scale,
+        endDistanceM: distances[i] * scale,
+      });
+    }
+  }
+  return segments;
+};
+
+// Finds runs of consecutive profile segments steeper than the thresholds in the same direction.
+// Short dips below the threshold are not bridged: the profile is already averaged over ~40 m+ samples.
+export const detectSteepSections = (profile: ElevationProfile, thresholds: SteepSectionThresholds): GradeSection[] => {
+  const points = profile.points;
+  const grades = profileGrades(profile);
+  const sections: GradeSection[] = [];
+
+  const kindOf = (grade: number): GradeSection['kind'] | null =>
+    grade >= thresholds.climbGradePercent ? 'climb' : grade <= -thresholds.descentGradePercent ? 'descent' : null;
+
+  let i = 0;
+  while (i < grades.length) {
+    const kind = kindOf(grades[i]);
+    if (!kind) {
+      i++;
+      continue;
+    }
+    let j = i;
+    let steepest = 0;
+    while (j < grades.length && kindOf(grades[j]) === kind) {
+      steepest = Math.max(steepest, Math.abs(grades[j]));
+      j++;
+    }
+    const startDistanceM = points[i].distanceM;
+    const lengthM = points[j].distanceM - startDistanceM;
+    const elevationChangeM = points[j].elevationM - points[i].elevationM;
+    if (lengthM >= thresholds.minLengthM) {
+      sections.push({
+        kind,
+        startDistanceM,
+        lengthM,
+        elevationChangeM,
+        averageGradePercent: lengthM > 0 ? (elevationChangeM / lengthM) * 100 : 0,
+        maxGradePercent: kind === 'climb' ? steepest : -steepest,
+      });
+    }
+    i = j;
+  }
+  return sections;
+};
@@ -0,0 +1,6 @@
+// Ids for records the app keeps (saved courses, start locations, zones, plan workouts). randomUUID needs a
+// secure context, so plain-HTTP hosts fall back to a time-and-random id.
+export const newId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
@@ -0,0 +1,93 @@
+// Minimal promise wrapper around the app's IndexedDB database.
+// Add new object stores to STORES and bump DB_VERSION; onupgradeneeded creates any that are missing.
+
+const DB_NAME = 'running-course-generator';
+const DB_VERSION = 3;
+
+export const STORES = {
+  courses: 'courses',
+  avoidZones: 'avoidZones',
+  mustPassPoints: 'mustPassPoints',
+  serviceCache: 'serviceCache',
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of Object.values(STORES)) {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: 'id' });
+          }
+        }
+      };
+      // Another tab still has the older version open; the upgrade waits until it closes the database
+      let isBlocked = false;
+      request.onblocked = () => {
+        isBlocked = true;
+        reject(new Error("The course database is being upgraded. Close other tabs of this app and reload the page."));
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        if (isBlocked) {
+          // Opened after the wait was given up on; the next call opens it again
+          db.close();
+          return;
+        }
+        // Let a newer version in another tab upgrade: close this connection and reopen on the next call
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error ?? new Error("Could not open the course database."));
+    });
+    // Allow a retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed."));
+  });
+
+export const getAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(store, 'readonly').objectStore(store).getAll() as IDBRequest<T[]>);
+};
+
+export const get = async <T>(store: StoreName, id: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(store, 'readonly').objectStore(store).get(id) as IDBRequest<T | undefined>);
+};
+
+export const put = async <T>(store: StoreName, value: T): Promise<void> => {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).put(value));
+};
+
+export const remove = async (store: StoreName, id: string): Promise<void> => {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).delete(id));
+};
+
+export const clear = async (store: StoreName): Promise<void> => {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).clear());
+};
@@ -0,0 +1,29 @@
+// Values kept in localStorage (settings and small lists). Callers validate what they read back.
+
+// The stored string, or null when there is none or storage is disabled
+export const readStoredString = (key: string): string | null => {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+export const writeStoredString = (key: string, value: string): void => {
+  try {
+    localStorage.setItem(key, value);
+  } catch {
+    // Storage full or disabled; the value still applies for this session
+  }
+};
+
+// The stored JSON value, or null when there is none or it can't be read (corrupt JSON, storage disabled)
+export const readStoredJson = (key: string): unknown => {
+  try {
+    return JSON.parse(readStoredString(key) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+export const writeStoredJson = (key: string, value: unknown): void => writeStoredString(key, JSON.stringify(value));
@@ -0,0 +1,51 @@
+import type { LatLngLiteral, LoopStrategy } from '../types';
+import { INTERMEDIATE_POINT_RADIUS_FACTOR, LOOP_ROUTE_DETOUR_FACTOR } from '../constants';
+import { computeOffset } from './geo';
+
+// Waypoint placement for the different loop shapes.
+// Polygon strategies put the start on one vertex of a regular polygon whose center lies along
+// `bearingDegrees` from the start, so the route leaves and returns on different streets.
+
+export const LOOP_STRATEGIES: Record<LoopStrategy, { label: string; vertices: number }> = {
+  'single-waypoint': { label: 'Single waypoint', vertices: 2 },
+  triangle: { label: 'Triangle (2 waypoints)', vertices: 3 },
+  square: { label: 'Square (3 waypoints)', vertices: 4 },
+  circle: { label: 'Circle (4 waypoints)', vertices: 5 },
+};
+
+// Straight-line perimeter of the loop shape per meter of circumradius.
+const perimeterPerRadius = (strategy: LoopStrategy): number => {
+  if (strategy === 'circle') return 2 * Math.PI; // waypoints approximate a circle, roads follow it loosely
+  const n = LOOP_STRATEGIES[strategy].vertices;
+  return 2 * n * Math.sin(Math.PI / n);
+};
+
+// Radius (meters) used to place the waypoints so the routed loop is roughly desiredDistanceKm long.
+// For the single-waypoint strategy this is the distance from the start to the turnaround point.
+export const baseWaypointRadiusMeters = (strategy: LoopStrategy, desiredDistanceKm: number): number => {
+  const desiredMeters = desiredDistanceKm * 1000;
+  if (strategy === 'single-waypoint') {
+    return desiredMeters * INTERMEDIATE_POINT_RADIUS_FACTOR;
+  }
+  return desiredMeters / (LOOP_ROUTE_DETOUR_FACTOR * perimeterPerRadius(strategy));
+};
+
+export const buildLoopWaypoints = (
+  startPoint: LatLngLiteral,
+  strategy: LoopStrategy,
+  bearingDegrees: number,
+  radiusMeters: number
+): LatLngLiteral[] => {
+  if (strategy === 'single-waypoint') {
+    return [computeOffset(startPoint, radiusMeters, bearingDegrees)];
+  }
+
+  const n = LOOP_STRATEGIES[strategy].vertices;
+  const center = computeOffset(startPoint, radiusMeters, bearingDegrees);
+  const startBearingFromCenter = bearingDegrees + 180;
+  const waypoints: LatLngLiteral[] = [];
+  for (let k = 1; k < n; k++) {
+    waypoints.push(computeOffset(center, radiusMeters, startBearingFromCenter + (360 / n) * k));
+  }
+  return waypoints;
+};
@@ -1,146 +1,387 @@
+import type {
+  CandidateDiagnostic,
+  CandidateStatus,
+  DistanceTier,
+  ElevationPreference,
+  GenerationControl,
+  GenerationDiagnostics,
+  GenerationError,
+  GenerationOptions,
+  GenerationResult,
+  LatLngLiteral,
+  MapProviders,
+  OptimalRouteData,
+  RankedCandidate,
+  RouteConstraints,
+} from '../types';
+import {
+  NUM_INTERMEDIATE_POINT_CANDIDATES,
+  DISTANCE_TOLERANCE_FACTOR,
+  ELEVATION_SAMPLES,
+  DEFAULT_GENERATION_OPTIONS,
+  REFINEMENT_TARGET_TOLERANCE,
+  REFINEMENT_MAX_CANDIDATES,
+  REFINEMENT_MAX_ITERATIONS,
+  REFINEMENT_REQUEST_BUDGET,
+  REFINEMENT_MAX_SCALE_STEP,
+  OVERLAP_PENALTY_M_PER_PERCENT,
+  U_TURN_PENALTY_M,
+  AVOID_ZONE_PENALTY_M_PER_M,
+} from '../constants';
+import { baseCandidateRadiusMeters, buildCandidateRequest, completeCourseRoute } from './courseModes';
+import { buildElevationProfile } from './elevationProfile';
+import { maxGradePercent } from './gradeAnalysis';
+import { analyzeRouteOverlap } from './routeOverlap';
+import { EMPTY_ROUTE_CONSTRAINTS, avoidZoneIntrusionM, insertMustPassPoints } from './routeConstraints';
+import { ProviderError, RequestBudgetError } from './providers/providerError';
+import { CANDIDATE_STATUS_LABELS, diagnoseFailure, toGenerationError } from './generationDiagnostics';
 
-import type { OptimalRouteData } from '../types';
-import { NUM_INTERMEDIATE_POINT_CANDIDATES, INTERMEDIATE_POINT_RADIUS_FACTOR, DISTANCE_TOLERANCE_FACTOR, ELEVATION_SAMPLES } from '../constants';
-
-// Helper to calculate LatLng for an intermediate point
-function calculateIntermediatePoint(
-  startPoint: google.maps.LatLng,
-  angleDegrees: number,
-  distanceMeters: number
-): google.maps.LatLng | null {
-  if (window.google && window.google.maps && window.google.maps.geometry) {
-    return window.google.maps.geometry.spherical.computeOffset(startPoint, distanceMeters, angleDegrees);
+// Lower is better: how well a route's elevation gain fits the requested objective
+const elevationScore = (route: OptimalRouteData, preference: ElevationPreference): number => {
+  switch (preference.objective) {
+    case 'minimize':
+      return route.elevationGainM;
+    case 'maximize':
+      return -route.elevationGainM;
+    case 'target':
+      return Math.abs(route.elevationGainM - preference.targetGainM);
   }
-  return null; // Should not happen if API is loaded
-}
+};
 
-// Helper to calculate cumulative elevation gain
-function calculateCumulativeElevation(elevations: google.maps.ElevationResult[]): number {
-  let gain = 0;
-  for (let i = 1; i < elevations.length; i++) {
-    const diff = elevations[i].elevation - elevations[i - 1].elevation;
-    if (diff > 0) {
-      gain += diff;
-    }
-  }
-  return gain;
+// Elevation fit plus penalties for retracing and for running through avoidance zones
+const candidateScore = (route: OptimalRouteData, preference: ElevationPreference): number =>
+  elevationScore(route, preference) +
+  route.overlap.overlapPercent * OVERLAP_PENALTY_M_PER_PERCENT +
+  route.overlap.uTurnCount * U_TURN_PENALTY_M +
+  route.avoidZoneIntrusionM * AVOID_ZONE_PENALTY_M_PER_M;
+
+const abortError = (): DOMException => new DOMException("Course generation was cancelled.", 'AbortError');
+
+export const isAbortError = (err: unknown): boolean => err instanceof DOMException && err.name === 'AbortError';
+
+// Rejects as soon as the signal aborts. Providers that can't cancel still complete the request in the
+// background, but the search no longer waits for it.
+const abortable = <T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortError());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+// Everything one generation run shares between its candidate requests. Each request appends a
+// diagnostic to `diagnostics`, whether or not it produced a usable route.
+interface CandidateSearch {
+  startPoint: LatLngLiteral;
+  desiredDistanceKm: number;
+  options: GenerationOptions;
+  providers: MapProviders;
+  constraints: RouteConstraints;
+  control: GenerationControl;
+  diagnostics: CandidateDiagnostic[];
 }
 
-export const findOptimalLoopRoute = async (
-  startPoint: google.maps.LatLng,
-  desiredDistanceKm: number
+// Routes the course for one bearing/radius (see courseModes, with any must-pass points inserted) and
+// fetches its elevation profile. Returns null when the candidate can't be used (no route, zero distance
+// or a failed request); the diagnostic says why. Budget errors and cancellation are rethrown.
+const evaluateCandidate = async (
+  search: CandidateSearch,
+  bearingDegrees: number,
+  radiusMeters: number,
+  refinementIteration: number
 ): Promise<OptimalRouteData | null> => {
-  if (!window.google || !window.google.maps) {
-    throw new Error("Google Maps API not loaded.");
+  const { startPoint, options, constraints } = search;
+  const { routing, elevation } = search.providers;
+  const { signal, onProgress } = search.control;
+  const diagnostic: CandidateDiagnostic = {
+    bearingDegrees,
+    radiusMeters,
+    refinementIteration,
+    status: 'ok',
+    distanceKm: null,
+    providerStatus: null,
+    detail: null,
+  };
+  const reject = (status: CandidateStatus, err?: unknown): null => {
+    diagnostic.status = status;
+    if (err !== undefined) {
+      diagnostic.providerStatus = err instanceof ProviderError ? err.status : null;
+      diagnostic.detail = err instanceof Error ? err.message : String(err);
+    }
+    search.diagnostics.push(diagnostic);
+    onProgress?.({ phase: 'rejected', bearingDegrees, radiusMeters, status, reason: CANDIDATE_STATUS_LABELS[status] });
+    return null;
+  };
+  const request = insertMustPassPoints(
+    buildCandidateRequest(startPoint, bearingDegrees, radiusMeters, options),
+    constraints.mustPassPoints
+  );
+  if (signal?.aborted) throw abortError();
+  onProgress?.({ phase: 'requested', bearingDegrees, radiusMeters });
+  let routed;
+  try {
+    routed = await abortable(routing.route(request, signal), signal);
+  } catch (err) {
+    // An exhausted request budget fails every remaining candidate too, so stop the search
+    if (err instanceof RequestBudgetError || isAbortError(err)) throw err;
+    console.warn(`Directions request failed (${routing.name}):`, err);
+    return reject('directions-failed', err);
   }
+  if (!routed) return reject('no-route');
+  if (routed.distanceMeters === 0) return reject('zero-distance');
+  const route = completeCourseRoute(routed, options.mode);
+  diagnostic.distanceKm = route.distanceMeters / 1000;
+  onProgress?.({ phase: 'routed', bearingDegrees, radiusMeters, distanceKm: diagnostic.distanceKm });
 
-  const directionsService = new window.google.maps.DirectionsService();
-  const elevationService = new window.google.maps.ElevationService();
-  const intermediateDistanceMeters = desiredDistanceKm * INTERMEDIATE_POINT_RADIUS_FACTOR * 1000;
+  const pathForElevation = route.path;
+  if (pathForElevation.length < 2) { // Need at least 2 points for elevation
+    return reject('too-short');
+  }
 
-  const candidatePromises: Promise<OptimalRouteData | null>[] = [];
+  try {
+    const elevationResults = await abortable(
+      elevation.getElevationAlongPath(pathForElevation, Math.min(ELEVATION_SAMPLES, pathForElevation.length), signal),
+      signal
+    );
+    const elevationProfile = buildElevationProfile(elevationResults, route.distanceMeters);
+    search.diagnostics.push(diagnostic);
+    onProgress?.({ phase: 'elevation', bearingDegrees, radiusMeters, elevationGainM: elevationProfile.totalGainM });
+    return {
+      route,
+      waypoints: request.waypoints,
+      bearingDegrees,
+      radiusMeters,
+      turnaroundPoint: options.mode === 'out-and-back' ? routed.path[routed.path.length - 1] : null,
+      refinementIterations: refinementIteration,
+      elevationProfile,
+      distanceKm: route.distanceMeters / 1000,
+      elevationGainM: elevationProfile.totalGainM,
+      maxGradePercent: maxGradePercent(elevationProfile),
+      overlap: analyzeRouteOverlap(route.path),
+      avoidZoneIntrusionM: avoidZoneIntrusionM(route.path, constraints.avoidZones),
+    };
+  } catch (err) {
+    if (err instanceof RequestBudgetError || isAbortError(err)) throw err;
+    console.warn(`Elevation query failed for a route (${elevation.name}):`, err);
+    return reject('elevation-failed', err);
+  }
+};
 
-  for (let i = 0; i < NUM_INTERMEDIATE_POINT_CANDIDATES; i++) {
-    const angle = (360 / NUM_INTERMEDIATE_POINT_CANDIDATES) * i;
-    const intermediateGeoPoint = calculateIntermediatePoint(startPoint, angle, intermediateDistanceMeters);
+const relativeDistanceError = (route: OptimalRouteData, desiredDistanceKm: number): number =>
+  Math.abs(route.distanceKm - desiredDistanceKm) / desiredDistanceKm;
 
-    if (!intermediateGeoPoint) continue;
+// Re-routes one bearing with the radius rescaled by desired/actual distance until the route is within
+// REFINEMENT_TARGET_TOLERANCE, the iteration limit is reached, or the shared request budget runs out.
+// `onImproved` sees each new best route of the bearing.
+const refineCandidate = async (
+  search: CandidateSearch,
+  initial: OptimalRouteData,
+  budget: { remaining: number },
+  onImproved: (route: OptimalRouteData) => void
+): Promise<OptimalRouteData> => {
+  const { desiredDistanceKm } = search;
+  let best = initial;
+  let current = initial;
+  for (let iteration = 1; iteration <= REFINEMENT_MAX_ITERATIONS; iteration++) {
+    if (relativeDistanceError(best, desiredDistanceKm) <= REFINEMENT_TARGET_TOLERANCE || budget.remaining <= 0) {
+      break;
+    }
+    budget.remaining--;
 
-    const request: google.maps.DirectionsRequest = {
-      origin: startPoint,
-      destination: startPoint,
-      waypoints: [{ location: intermediateGeoPoint, stopover: true }],
-      travelMode: google.maps.TravelMode.WALKING,
-      provideRouteAlternatives: false, // Simpler to handle one route per request
-    };
+    const scale = Math.min(REFINEMENT_MAX_SCALE_STEP, Math.max(1 / REFINEMENT_MAX_SCALE_STEP, desiredDistanceKm / current.distanceKm));
+    const next = await evaluateCandidate(search, current.bearingDegrees, current.radiusMeters * scale, iteration);
+    if (!next) break;
 
-    const promise = new Promise<OptimalRouteData | null>((resolve) => {
-      directionsService.route(request, (result, status) => {
-        if (status === google.maps.DirectionsStatus.OK && result && result.routes && result.routes.length > 0) {
-          const route = result.routes[0];
-          const actualDistanceMeters = route.legs.reduce((sum, leg) => sum + (leg.distance?.value || 0), 0);
-          
-          if (actualDistanceMeters === 0) {
-             resolve(null); // Ignore zero distance routes
-             return;
-          }
-
-          const pathForElevation = route.overview_path;
-          if (pathForElevation.length < 2) { // Need at least 2 points for elevation
-             resolve(null);
-             return;
-          }
-          
-          elevationService.getElevationForPath(
-            { path: pathForElevation, samples: Math.min(ELEVATION_SAMPLES, pathForElevation.length) },
-            (elevationResults, elevationStatus) => {
-              if (elevationStatus === google.maps.ElevationStatus.OK && elevationResults) {
-                const elevationGainM = calculateCumulativeElevation(elevationResults);
-                resolve({
-                  route: result, // Store the original DirectionsResult
-                  distanceKm: actualDistanceMeters / 1000,
-                  elevationGainM: elevationGainM,
-                });
-              } else {
-                console.warn(`Elevation query failed for a route: ${elevationStatus}`);
-                resolve(null); // Failed to get elevation
-              }
-            }
-          );
-        } else {
-          if (status !== google.maps.DirectionsStatus.ZERO_RESULTS) {
-             console.warn(`Directions request failed: ${status}`);
-          }
-          resolve(null); // No route found or error
-        }
-      });
-    });
-    candidatePromises.push(promise);
+    current = next;
+    if (relativeDistanceError(current, desiredDistanceKm) < relativeDistanceError(best, desiredDistanceKm)) {
+      best = current;
+      onImproved(best);
+    }
   }
+  return best;
+};
 
-  const results = await Promise.allSettled(candidatePromises);
-  const validRoutes: OptimalRouteData[] = results
-    .filter((result): result is PromiseFulfilledResult<OptimalRouteData | null> => result.status === 'fulfilled' && result.value !== null)
-    .map(result => result.value as OptimalRouteData); // Type assertion after filter
+// Several bearings often snap to the same streets; keep one candidate per distinct route
+const dedupeRoutes = (routes: OptimalRouteData[]): OptimalRouteData[] => {
+  const seen = new Set<string>();
+  return routes.filter((r) => {
+    const { path } = r.route;
+    const probes = [0.25, 0.5, 0.75].map((f) => path[Math.floor((path.length - 1) * f)]);
+    const key = `${Math.round(r.route.distanceMeters)}:${probes.map((p) => `${p.lat.toFixed(5)},${p.lng.toFixed(5)}`).join(';')}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
 
-  if (validRoutes.length === 0) {
-    return null;
-  }
+const distanceTier = (route: OptimalRouteData, desiredDistanceKm: number): DistanceTier => {
+  const error = relativeDistanceError(route, desiredDistanceKm);
+  if (error <= REFINEMENT_TARGET_TOLERANCE) return 'target';
+  return error <= DISTANCE_TOLERANCE_FACTOR ? 'tolerance' : 'outside';
+};
 
-  // Selection logic:
-  // 1. Filter routes within a distance tolerance.
-  // 2. From these, pick the one with the lowest elevation gain.
-  // 3. If none in tolerance, pick the overall closest distance route with reasonable elevation.
+const TIER_ORDER: Record<DistanceTier, number> = { target: 0, tolerance: 1, outside: 2 };
 
-  const minDesiredKm = desiredDistanceKm * (1 - DISTANCE_TOLERANCE_FACTOR);
-  const maxDesiredKm = desiredDistanceKm * (1 + DISTANCE_TOLERANCE_FACTOR);
+// Ranking (the first candidate is the one the generator picks):
+// 1. Routes steeper than the allowed max grade or entering an avoidance zone go last, unless every route does.
+// 2. Then by distance tier: within the tight refinement target, then the wider distance tolerance, then the rest.
+// 3. Within the target and tolerance tiers, by the best fit for the elevation objective (flattest, hilliest or
+//    closest to the target gain), with retraced distance, U-turns and avoidance-zone distance counted against it.
+// 4. Outside the tolerance, closest distance first, then the best score.
+export const rankCandidates = (
+  routes: OptimalRouteData[],
+  desiredDistanceKm: number,
+  preference: ElevationPreference
+): RankedCandidate[] => {
+  const maxGrade = preference.maxGradePercent;
+  const withinGrade = (r: OptimalRouteData) => maxGrade === null || r.maxGradePercent <= maxGrade;
+  const anyWithinGrade = routes.some(withinGrade);
+  const gradeOk = (r: OptimalRouteData) => !anyWithinGrade || withinGrade(r);
+  const anyOutsideZones = routes.some((r) => gradeOk(r) && r.avoidZoneIntrusionM === 0);
+  const zoneOk = (r: OptimalRouteData) => !anyOutsideZones || r.avoidZoneIntrusionM === 0;
 
-  const routesInTolerance = validRoutes.filter(
-    (r) => r.distanceKm >= minDesiredKm && r.distanceKm <= maxDesiredKm
-  );
+  const entries = routes.map((route) => ({
+    route,
+    excluded: (gradeOk(route) ? 0 : 2) + (zoneOk(route) ? 0 : 1),
+    tier: distanceTier(route, desiredDistanceKm),
+    score: candidateScore(route, preference),
+    distanceDiffKm: Math.abs(route.distanceKm - desiredDistanceKm),
+  }));
+
+  entries.sort((a, b) => {
+    if (a.excluded !== b.excluded) return a.excluded - b.excluded;
+    if (a.tier !== b.tier) return TIER_ORDER[a.tier] - TIER_ORDER[b.tier];
+    if (a.tier === 'outside') {
+      return a.distanceDiffKm !== b.distanceDiffKm ? a.distanceDiffKm - b.distanceDiffKm : a.score - b.score;
+    }
+    return a.score !== b.score ? a.score - b.score : a.distanceDiffKm - b.distanceDiffKm;
+  });
+
+  return entries.map(({ route, tier, score }, i) => ({
+    rank: i + 1,
+    route,
+    breakdown: {
+      distanceErrorPercent: ((route.distanceKm - desiredDistanceKm) / desiredDistanceKm) * 100,
+      distanceTier: tier,
+      elevationGainM: route.elevationGainM,
+      elevationFit: elevationScore(route, preference),
+      overlapPercent: route.overlap.overlapPercent,
+      uTurnCount: route.overlap.uTurnCount,
+      avoidZoneIntrusionM: route.avoidZoneIntrusionM,
+      maxGradePercent: route.maxGradePercent,
+      withinMaxGrade: withinGrade(route),
+      totalScore: score,
+    },
+  }));
+};
+
+// Generates candidates for every bearing, refines the most promising ones and returns them all, ranked,
+// or the reason no candidate could be used. Either way the result lists what happened to each candidate
+// request. Rejects with an AbortError when `control.signal` aborts.
+export const findCandidateRoutes = async (
+  startPoint: LatLngLiteral,
+  desiredDistanceKm: number,
+  providers: MapProviders,
+  options: GenerationOptions = DEFAULT_GENERATION_OPTIONS,
+  constraints: RouteConstraints = EMPTY_ROUTE_CONSTRAINTS,
+  control: GenerationControl = {}
+): Promise<GenerationResult> => {
+  if (control.signal?.aborted) throw abortError();
+  const search: CandidateSearch = { startPoint, desiredDistanceKm, options, providers, constraints, control, diagnostics: [] };
+  const diagnostics: GenerationDiagnostics = {
+    desiredDistanceKm,
+    routingProvider: providers.routing.name,
+    elevationProvider: providers.elevation.name,
+    candidates: search.diagnostics,
+  };
+  const radiusMeters = baseCandidateRadiusMeters(startPoint, desiredDistanceKm, options);
+  // Without a detour (radius 0) every bearing gives the same route, so one candidate is enough
+  const bearingCount = radiusMeters > 0 ? NUM_INTERMEDIATE_POINT_CANDIDATES : 1;
+
+  // Best route per bearing so far; the top-ranked one is streamed to onBestSoFar whenever it changes
+  const bestPerBearing = new Map<number, OptimalRouteData>();
+  let bestSoFar: OptimalRouteData | null = null;
+  const offer = (route: OptimalRouteData) => {
+    bestPerBearing.set(route.bearingDegrees, route);
+    const [top] = rankCandidates([...bestPerBearing.values()], desiredDistanceKm, options.elevation);
+    if (top.route !== bestSoFar) {
+      bestSoFar = top.route;
+      control.onBestSoFar?.(top.route);
+    }
+  };
+
+  try {
+    const candidatePromises: Promise<OptimalRouteData | null>[] = [];
 
-  if (routesInTolerance.length > 0) {
-    routesInTolerance.sort((a, b) => {
-      // Prioritize lower elevation gain
-      if (a.elevationGainM !== b.elevationGainM) {
-        return a.elevationGainM - b.elevationGainM;
-      }
-      // Then, closer to desired distance
-      return Math.abs(a.distanceKm - desiredDistanceKm) - Math.abs(b.distanceKm - desiredDistanceKm);
-    });
-    return routesInTolerance[0];
-  } else {
-    // If no routes in tolerance, pick the one closest to the desired distance overall
-    validRoutes.sort((a, b) => {
-       // Prioritize closer to desired distance
-      const distDiffA = Math.abs(a.distanceKm - desiredDistanceKm);
-      const distDiffB = Math.abs(b.distanceKm - desiredDistanceKm);
-      if (distDiffA !== distDiffB) {
-        return distDiffA - distDiffB;
-      }
-       // Then, lower elevation gain
-      return a.elevationGainM - b.elevationGainM;
-    });
-    return validRoutes.length > 0 ? validRoutes[0] : null;
+    for (let i = 0; i < bearingCount; i++) {
+      const bearing = options.rotationDegrees + (360 / bearingCount) * i;
+      candidatePromises.push(
+        evaluateCandidate(search, bearing, radiusMeters, 0).then((route) => {
+          if (route) offer(route);
+          return route;
+        })
+      );
+    }
+
+    const results = await Promise.allSettled(candidatePromises);
+    // Failed requests resolve to null, so a rejection is a budget error or cancellation that ends the search
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) throw failure.reason;
+    const initialRoutes: OptimalRouteData[] = results
+      .filter((result): result is PromiseFulfilledResult<OptimalRouteData | null> => result.status === 'fulfilled' && result.value !== null)
+      .map(result => result.value as OptimalRouteData); // Type assertion after filter
+
+    if (initialRoutes.length === 0) {
+      return { ok: false, error: diagnoseFailure(diagnostics), diagnostics };
+    }
+
+    // Refinement: rescale the radius of the bearings closest to the desired distance (those outside the
+    // target tolerance), sharing one request budget. Refined routes replace their initial candidate.
+    const budget = { remaining: REFINEMENT_REQUEST_BUDGET };
+    const promising = [...initialRoutes]
+      .filter((r) => r.radiusMeters > 0 && relativeDistanceError(r, desiredDistanceKm) > REFINEMENT_TARGET_TOLERANCE)
+      .sort((a, b) => relativeDistanceError(a, desiredDistanceKm) - relativeDistanceError(b, desiredDistanceKm))
+      .slice(0, REFINEMENT_MAX_CANDIDATES);
+    const refined = await Promise.all(promising.map((r) => refineCandidate(search, r, budget, offer)));
+    const refinedRoutes = initialRoutes.map((r) => refined[promising.indexOf(r)] ?? r);
+
+    const uniqueRoutes = dedupeRoutes(refinedRoutes);
+    for (const r of refinedRoutes.filter((route) => !uniqueRoutes.includes(route))) {
+      const diagnostic = search.diagnostics.find(
+        (d) => d.bearingDegrees === r.bearingDegrees && d.refinementIteration === r.refinementIterations
+      );
+      if (diagnostic) diagnostic.status = 'duplicate';
+      control.onProgress?.({
+        phase: 'rejected',
+        bearingDegrees: r.bearingDegrees,
+        radiusMeters: r.radiusMeters,
+        status: 'duplicate',
+        reason: CANDIDATE_STATUS_LABELS.duplicate,
+      });
+    }
+    const ranked = rankCandidates(uniqueRoutes, desiredDistanceKm, options.elevation);
+    control.onProgress?.({ phase: 'selected', route: ranked[0].route, candidateCount: ranked.length });
+    return { ok: true, candidates: ranked, diagnostics };
+  } catch (err) {
+    if (err instanceof RequestBudgetError) return { ok: false, error: toGenerationError(err), diagnostics };
+    throw err;
   }
 };
+
+export type OptimalRouteResult =
+  | { ok: true; route: OptimalRouteData; diagnostics: GenerationDiagnostics }
+  | { ok: false; error: GenerationError; diagnostics: GenerationDiagnostics };
+
+export const findOptimalLoopRoute = async (
+  startPoint: LatLngLiteral,
+  desiredDistanceKm: number,
+  providers: MapProviders,
+  options: GenerationOptions = DEFAULT_GENERATION_OPTIONS,
+  constraints: RouteConstraints = EMPTY_ROUTE_CONSTRAINTS,
+  control: GenerationControl = {}
+): Promise<OptimalRouteResult> => {
+  const result = await findCandidateRoutes(startPoint, desiredDistanceKm, providers, options, constraints, control);
+  return result.ok ? { ok: true, route: result.candidates[0].route, diagnostics: result.diagnostics } : result;
+};
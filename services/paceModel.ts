@@ -0,0 +1,115 @@
+import type { CourseTimeEstimate, ElevationProfile, GeneratedCourse, KmSplit, PaceProfile } from '../types';
+import { DEFAULT_PACE_MIN_PER_KM } from '../constants';
+import { readStoredJson, readStoredString, writeStoredJson, writeStoredString } from './localStore';
+
+// Grade-adjusted pace model. Uphills slow the runner linearly with grade; gentle downhills speed them up,
+// but past DOWNHILL_BREAK_PERCENT the braking effort makes steep descents slower again.
+
+const DOWNHILL_BREAK_PERCENT = 10;
+const STEEP_DOWNHILL_PENALTY_PER_PERCENT = 0.02;
+const MIN_PACE_FACTOR = 0.7; // never faster than 70% of the flat pace
+
+const PACE_PROFILES_STORAGE_KEY = 'rcg.paceProfiles';
+const ACTIVE_PACE_PROFILE_STORAGE_KEY = 'rcg.activePaceProfileId';
+
+export const DEFAULT_PACE_PROFILES: PaceProfile[] = [
+  { id: 'easy', name: 'イージー / Easy', flatPaceMinPerKm: DEFAULT_PACE_MIN_PER_KM, uphillPenaltyPerPercent: 0.033, downhillBenefitPerPercent: 0.018 },
+  { id: 'tempo', name: 'テンポ / Tempo', flatPaceMinPerKm: 4.75, uphillPenaltyPerPercent: 0.035, downhillBenefitPerPercent: 0.015 },
+  { id: 'long-run', name: 'ロング走 / Long run', flatPaceMinPerKm: 6.5, uphillPenaltyPerPercent: 0.033, downhillBenefitPerPercent: 0.018 },
+];
+
+// Pace multiplier for a grade in percent (positive = uphill).
+export const gradePaceFactor = (gradePercent: number, profile: PaceProfile): number => {
+  if (gradePercent >= 0) {
+    return 1 + profile.uphillPenaltyPerPercent * gradePercent;
+  }
+  const gentle = Math.min(-gradePercent, DOWNHILL_BREAK_PERCENT);
+  const steep = Math.max(0, -gradePercent - DOWNHILL_BREAK_PERCENT);
+  return Math.max(MIN_PACE_FACTOR, 1 - profile.downhillBenefitPerPercent * gentle + STEEP_DOWNHILL_PENALTY_PER_PERCENT * steep);
+};
+
+// Walks the elevation profile segment by segment, splitting segments at kilometre boundaries.
+export const estimateCourseTime = (profile: ElevationProfile, totalDistanceM: number, pace: PaceProfile): CourseTimeEstimate => {
+  const points = profile.points;
+  const splits: KmSplit[] = [];
+  const splitFor = (index: number): KmSplit => {
+    while (splits.length <= index) {
+      splits.push({ km: splits.length + 1, distanceM: 0, timeMin: 0, paceMinPerKm: 0, elevationGainM: 0, elevationLossM: 0 });
+    }
+    return splits[index];
+  };
+  const addRun = (fromM: number, toM: number, gradePercent: number) => {
+    let start = fromM;
+    while (start < toM - 1e-6) {
+      const kmIndex = Math.floor(start / 1000 + 1e-9);
+      const end = Math.min(toM, (kmIndex + 1) * 1000);
+      const lengthM = end - start;
+      const split = splitFor(kmIndex);
+      const rise = (gradePercent / 100) * lengthM;
+      split.distanceM += lengthM;
+      split.timeMin += (lengthM / 1000) * pace.flatPaceMinPerKm * gradePaceFactor(gradePercent, pace);
+      if (rise > 0) split.elevationGainM += rise;
+      else split.elevationLossM -= rise;
+      start = end;
+    }
+  };
+
+  if (points.length < 2) {
+    addRun(0, totalDistanceM, 0);
+  } else {
+    for (let i = 1; i < points.length; i++) {
+      const run = points[i].distanceM - points[i - 1].distanceM;
+      if (run <= 0) continue;
+      addRun(points[i - 1].distanceM, points[i].distanceM, ((points[i].elevationM - points[i - 1].elevationM) / run) * 100);
+    }
+  }
+
+  for (const split of splits) {
+    split.paceMinPerKm = split.distanceM > 0 ? split.timeMin / (split.distanceM / 1000) : 0;
+  }
+  return { totalMin: splits.reduce((sum, split) => sum + split.timeMin, 0), splits };
+};
+
+// Recomputes the course's estimated time for a (possibly different) pace profile.
+export const applyPaceProfile = (course: GeneratedCourse, pace: PaceProfile): GeneratedCourse => {
+  const estimate = estimateCourseTime(course.elevationProfile, course.route.distanceMeters, pace);
+  return { ...course, stats: { ...course.stats, estimatedTimeMin: parseFloat(estimate.totalMin.toFixed(0)) } };
+};
+
+// "5:30" style formatting for paces and split times given in minutes.
+export const formatMinutes = (minutes: number): string => {
+  const totalSeconds = Math.round(minutes * 60);
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}` : `${m}:${String(s).padStart(2, '0')}`;
+};
+
+// Parses "5:30" (or plain minutes, "5.5") into minutes. Returns null for invalid input.
+export const parseMinutes = (value: string): number | null => {
+  const match = value.trim().match(/^(\d+)(?::(\d{1,2}))?$/);
+  if (match) {
+    const minutes = parseInt(match[1], 10) + (match[2] ? parseInt(match[2], 10) / 60 : 0);
+    return minutes > 0 ? minutes : null;
+  }
+  const decimal = parseFloat(value);
+  return Number.isFinite(decimal) && decimal > 0 ? decimal : null;
+};
+
+export const loadPaceProfiles = (): { profiles: PaceProfile[]; activeId: string } => {
+  const stored = readStoredJson(PACE_PROFILES_STORAGE_KEY);
+  const valid = Array.isArray(stored)
+    ? stored.filter((p): p is PaceProfile => typeof p?.id === 'string' && typeof p?.flatPaceMinPerKm === 'number')
+    : [];
+  // Nothing usable stored: fall back to the defaults
+  const profiles = valid.length > 0 ? valid : DEFAULT_PACE_PROFILES;
+  // The active id is kept as a plain string, not JSON
+  const storedActiveId = readStoredString(ACTIVE_PACE_PROFILE_STORAGE_KEY);
+  const activeId = profiles.find((p) => p.id === storedActiveId)?.id ?? profiles[0].id;
+  return { profiles, activeId };
+};
+
+export const savePaceProfiles = (profiles: PaceProfile[], activeId: string): void => {
+  writeStoredJson(PACE_PROFILES_STORAGE_KEY, profiles);
+  writeStoredString(ACTIVE_PACE_PROFILE_STORAGE_KEY, activeId);
+};
@@ -0,0 +1,63 @@
+import type { PositionFix, PositionSource, RecordedActivity } from '../types';
+import { DEFAULT_PACE_MIN_PER_KM } from '../constants';
+import { distanceBetweenM } from './geo';
+
+// Position sources for run-along mode: the device's GPS, or a recorded track replayed in (scaled) real time.
+
+export const geolocationPositionSource: PositionSource = {
+  name: 'device',
+  watch: (onFix, onError) => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      onError("Geolocation is not supported by your browser.");
+      return () => {};
+    }
+    const watchId = navigator.geolocation.watchPosition(
+      (position) =>
+        onFix({
+          location: { lat: position.coords.latitude, lng: position.coords.longitude },
+          timestamp: position.timestamp,
+          accuracyM: position.coords.accuracy,
+        }),
+      (err) => onError("Could not get your position: " + err.message),
+      { enableHighAccuracy: true, maximumAge: 0 }
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  },
+};
+
+// Delivers the fixes with the gaps between their timestamps divided by `speed`, keeping the recorded timestamps
+// so elapsed times and paces come out as they were run.
+export const createReplayPositionSource = (fixes: PositionFix[], speed = 1): PositionSource => ({
+  name: 'replay',
+  watch: (onFix, onError) => {
+    if (fixes.length === 0) {
+      onError("The recording has no track points.");
+      return () => {};
+    }
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const deliver = (index: number) => {
+      onFix(fixes[index]);
+      if (index + 1 < fixes.length) {
+        const gapMs = Math.max(0, fixes[index + 1].timestamp - fixes[index].timestamp) / speed;
+        timer = setTimeout(() => deliver(index + 1), gapMs);
+      }
+    };
+    timer = setTimeout(() => deliver(0), 0);
+    return () => {
+      if (timer !== null) clearTimeout(timer);
+    };
+  },
+});
+
+// Fixes for replaying a recorded activity. Points without a time are timed at the default flat pace, so a
+// planned route exported as GPX can be replayed too.
+export const activityFixes = (activity: RecordedActivity): PositionFix[] => {
+  const msPerM = (DEFAULT_PACE_MIN_PER_KM * 60000) / 1000;
+  const fixes: PositionFix[] = [];
+  for (const point of activity.points) {
+    const previous = fixes[fixes.length - 1];
+    const timestamp = point.timestamp ?? (previous ? previous.timestamp + distanceBetweenM(previous.location, point.location) * msPerM : Date.now());
+    fixes.push({ location: point.location, timestamp, accuracyM: null });
+  }
+  return fixes;
+};
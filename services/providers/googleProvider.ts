@@ -0,0 +1,150 @@
+import type { ElevationProvider, GeocodeResult, Geocoder, LatLngLiteral, RouteGeometry, RouteLeg, RoutingProvider } from '../../types';
+import { computeBounds, resamplePath } from '../geo';
+import { ProviderError } from './providerError';
+
+// Providers backed by the Google Maps JavaScript API (DirectionsService / ElevationService).
+// Both require window.google to be loaded before they are created.
+
+const assertGoogleMapsLoaded = (): void => {
+  if (!window.google || !window.google.maps) {
+    throw new ProviderError("Google Maps API not loaded.", 'API_NOT_LOADED', false);
+  }
+};
+
+// Statuses that may succeed when the same request is retried later
+const TRANSIENT_STATUSES = new Set<string>(['OVER_QUERY_LIMIT', 'UNKNOWN_ERROR']);
+
+const toLiteral = (latLng: google.maps.LatLng): LatLngLiteral => ({ lat: latLng.lat(), lng: latLng.lng() });
+
+// Directions step instructions are HTML ("Turn <b>left</b> onto ..."); keep plain text only.
+const stripHtml = (html: string): string => html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+const toRouteGeometry = (route: google.maps.DirectionsRoute): RouteGeometry => {
+  const legs: RouteLeg[] = route.legs.map((leg) => ({
+    startLocation: toLiteral(leg.start_location),
+    endLocation: toLiteral(leg.end_location),
+    distanceMeters: leg.distance?.value || 0,
+    durationSeconds: leg.duration?.value || 0,
+    steps: leg.steps.map((step) => ({
+      instruction: stripHtml(step.instructions),
+      distanceMeters: step.distance?.value || 0,
+      durationSeconds: step.duration?.value || 0,
+      path: step.path.map(toLiteral),
+      maneuver: step.maneuver || undefined,
+    })),
+  }));
+  const path = route.overview_path.map(toLiteral);
+  return {
+    path,
+    legs,
+    bounds: route.bounds ? route.bounds.toJSON() : computeBounds(path),
+    distanceMeters: legs.reduce((sum, leg) => sum + leg.distanceMeters, 0),
+  };
+};
+
+export const createGoogleRoutingProvider = (): RoutingProvider => {
+  assertGoogleMapsLoaded();
+  const directionsService = new window.google.maps.DirectionsService();
+
+  return {
+    name: 'google',
+    route: (request) =>
+      new Promise((resolve, reject) => {
+        directionsService.route(
+          {
+            origin: request.origin,
+            destination: request.destination,
+            waypoints: request.waypoints.map((location) => ({ location, stopover: true })),
+            travelMode: google.maps.TravelMode.WALKING,
+            provideRouteAlternatives: false, // Simpler to handle one route per request
+          },
+          (result, status) => {
+            if (status === google.maps.DirectionsStatus.OK && result && result.routes && result.routes.length > 0) {
+              resolve(toRouteGeometry(result.routes[0]));
+            } else if (status === google.maps.DirectionsStatus.ZERO_RESULTS) {
+              resolve(null);
+            } else {
+              reject(new ProviderError(`Directions request failed: ${status}`, status, TRANSIENT_STATUSES.has(status)));
+            }
+          }
+        );
+      }),
+  };
+};
+
+export const createGoogleElevationProvider = (): ElevationProvider => {
+  assertGoogleMapsLoaded();
+  const elevationService = new window.google.maps.ElevationService();
+
+  return {
+    name: 'google',
+    getElevationAlongPath: (path, samples) =>
+      new Promise((resolve, reject) => {
+        elevationService.getElevationAlongPath({ path, samples }, (results, status) => {
+          if (status === google.maps.ElevationStatus.OK && results) {
+            const sampledPath = resamplePath(path, results.length);
+            resolve(
+              results.map((result, i) => ({
+                location: result.location ? toLiteral(result.location) : sampledPath[i],
+                elevationM: result.elevation,
+              }))
+            );
+          } else {
+            reject(new ProviderError(`Elevation query failed: ${status}`, status, TRANSIENT_STATUSES.has(status)));
+          }
+        });
+      }),
+  };
+};
+
+// Autocomplete suggestions within this distance of the map are preferred
+const SUGGESTION_BIAS_RADIUS_M = 50000;
+
+// Geocoding through the Geocoder and Places AutocompleteService (needs the `places` library).
+export const createGoogleGeocoder = (): Geocoder => {
+  assertGoogleMapsLoaded();
+  const geocoder = new window.google.maps.Geocoder();
+  const autocomplete = new window.google.maps.places.AutocompleteService();
+
+  const geocode = (request: google.maps.GeocoderRequest): Promise<GeocodeResult[]> =>
+    new Promise((resolve, reject) => {
+      geocoder.geocode(request, (results, status) => {
+        if (status === google.maps.GeocoderStatus.OK && results) {
+          resolve(results.map((result) => ({ label: result.formatted_address, location: toLiteral(result.geometry.location) })));
+        } else if (status === google.maps.GeocoderStatus.ZERO_RESULTS) {
+          resolve([]);
+        } else {
+          reject(new ProviderError(`Geocoding failed: ${status}`, status, TRANSIENT_STATUSES.has(status)));
+        }
+      });
+    });
+
+  return {
+    name: 'google',
+    autocomplete: true,
+    geocode: (query) => geocode({ address: query }),
+    suggest: (query, near) =>
+      new Promise((resolve, reject) => {
+        autocomplete.getPlacePredictions(
+          { input: query, locationBias: near ? { center: near, radius: SUGGESTION_BIAS_RADIUS_M } : undefined },
+          (predictions, status) => {
+            if (status === google.maps.places.PlacesServiceStatus.OK && predictions) {
+              resolve(predictions.map((prediction) => ({ id: prediction.place_id, label: prediction.description })));
+            } else if (status === google.maps.places.PlacesServiceStatus.ZERO_RESULTS) {
+              resolve([]);
+            } else {
+              reject(new ProviderError(`Place autocomplete failed: ${status}`, status, TRANSIENT_STATUSES.has(status)));
+            }
+          }
+        );
+      }),
+    resolveSuggestion: async (suggestion) => {
+      const [result] = await geocode({ placeId: suggestion.id });
+      return result ? { ...result, label: suggestion.label } : null;
+    },
+    reverseGeocode: async (location) => {
+      const [result] = await geocode({ location });
+      return result?.label ?? null;
+    },
+  };
+};
@@ -0,0 +1,299 @@
+import type { ElevationProvider, GeocodeResult, Geocoder, LatLngLiteral, RouteGeometry, RouteLeg, RouteStep, RoutingProvider } from '../../types';
+import { computeBounds, resamplePath } from '../geo';
+import { ProviderError } from './providerError';
+
+// Providers for self-hosted HTTP backends:
+// - routing: OSRM (`/route/v1/{profile}/...`) or GraphHopper (`/route?point=...`) compatible servers
+// - elevation: Open-Elevation compatible servers (`POST /api/v1/lookup`)
+// - geocoding: Nominatim compatible servers (`/search?format=jsonv2`)
+
+export type HttpRoutingApi = 'osrm' | 'graphhopper';
+
+export interface HttpRoutingProviderOptions {
+  api: HttpRoutingApi;
+  baseUrl: string;
+  profile?: string; // OSRM: 'foot' (default); GraphHopper: 'foot' (default)
+  apiKey?: string; // GraphHopper only
+  fetchFn?: typeof fetch;
+}
+
+export interface HttpElevationProviderOptions {
+  baseUrl: string;
+  fetchFn?: typeof fetch;
+}
+
+export interface HttpGeocoderOptions {
+  baseUrl: string;
+  userAgent?: string; // Nominatim's usage policy asks for an identifying User-Agent (ignored by browsers)
+  limit?: number;
+  autocomplete?: boolean; // search as the user types (default false); only for servers that allow it
+  minIntervalMs?: number; // space requests at least this far apart (default 0)
+  fetchFn?: typeof fetch;
+}
+
+// The public OpenStreetMap Nominatim server. Its usage policy forbids autocomplete and allows at most one
+// request per second from an identifiable application (User-Agent, or the Referer browsers send).
+export const PUBLIC_NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+export const PUBLIC_NOMINATIM_MIN_INTERVAL_MS = 1000;
+
+const trimTrailingSlash = (url: string): string => url.replace(/\/+$/, '');
+
+const fromLngLat = ([lng, lat]: number[]): LatLngLiteral => ({ lat, lng });
+
+const fetchJson = async (fetchFn: typeof fetch, url: string, init?: RequestInit): Promise<unknown> => {
+  const response = await fetchFn(url, init);
+  if (!response.ok && response.status !== 400) {
+    // OSRM and GraphHopper report "no route" as a 400 with a JSON body, so let those through.
+    // Rate limiting and server errors are worth a retry; other statuses are not
+    const transient = response.status === 429 || response.status >= 500;
+    throw new ProviderError(`HTTP ${response.status} from ${url}`, `HTTP_${response.status}`, transient);
+  }
+  return response.json();
+};
+
+// --- OSRM ---
+
+interface OsrmStep {
+  distance: number;
+  duration: number;
+  name: string;
+  geometry: { coordinates: number[][] };
+  maneuver: { type: string; modifier?: string };
+}
+
+interface OsrmRouteResponse {
+  code: string;
+  message?: string;
+  routes?: {
+    distance: number;
+    geometry: { coordinates: number[][] };
+    legs: { distance: number; duration: number; steps: OsrmStep[] }[];
+  }[];
+}
+
+const describeOsrmStep = (step: OsrmStep): string => {
+  const { type, modifier } = step.maneuver;
+  const onto = step.name ? ` onto ${step.name}` : '';
+  switch (type) {
+    case 'depart':
+      return `Head out${onto}`;
+    case 'arrive':
+      return 'Arrive';
+    case 'turn':
+    case 'end of road':
+    case 'fork':
+      return `Turn ${modifier ?? ''}${onto}`.replace(/\s+/g, ' ');
+    case 'continue':
+    case 'new name':
+      return `Continue${onto}`;
+    default:
+      return `${type}${modifier ? ` ${modifier}` : ''}${onto}`;
+  }
+};
+
+const osrmToRouteGeometry = (route: NonNullable<OsrmRouteResponse['routes']>[number], stops: LatLngLiteral[]): RouteGeometry => {
+  const path = route.geometry.coordinates.map(fromLngLat);
+  const legs: RouteLeg[] = route.legs.map((leg, i) => ({
+    startLocation: stops[i],
+    endLocation: stops[i + 1],
+    distanceMeters: leg.distance,
+    durationSeconds: leg.duration,
+    steps: leg.steps.map((step) => ({
+      instruction: describeOsrmStep(step),
+      distanceMeters: step.distance,
+      durationSeconds: step.duration,
+      path: step.geometry.coordinates.map(fromLngLat),
+      maneuver: step.maneuver.modifier ? `${step.maneuver.type}-${step.maneuver.modifier}` : step.maneuver.type,
+      streetName: step.name || undefined,
+    })),
+  }));
+  return { path, legs, bounds: computeBounds(path), distanceMeters: route.distance };
+};
+
+// --- GraphHopper ---
+
+interface GraphHopperInstruction {
+  distance: number;
+  time: number; // milliseconds
+  text: string;
+  sign: number;
+  street_name?: string;
+  interval: [number, number];
+}
+
+interface GraphHopperRouteResponse {
+  message?: string;
+  paths?: {
+    distance: number;
+    points: { coordinates: number[][] };
+    instructions: GraphHopperInstruction[];
+  }[];
+}
+
+const GRAPHHOPPER_SIGN_VIA_REACHED = 5;
+const GRAPHHOPPER_SIGN_FINISH = 4;
+
+const graphHopperToRouteGeometry = (
+  ghPath: NonNullable<GraphHopperRouteResponse['paths']>[number],
+  stops: LatLngLiteral[]
+): RouteGeometry => {
+  const path = ghPath.points.coordinates.map(fromLngLat);
+  // GraphHopper returns a flat instruction list; "via reached" instructions mark the leg boundaries.
+  const legSteps: RouteStep[][] = [[]];
+  for (const instruction of ghPath.instructions) {
+    const [from, to] = instruction.interval;
+    legSteps[legSteps.length - 1].push({
+      instruction: instruction.text,
+      distanceMeters: instruction.distance,
+      durationSeconds: instruction.time / 1000,
+      path: path.slice(from, to + 1),
+      maneuver: String(instruction.sign),
+      streetName: instruction.street_name || undefined,
+    });
+    if (instruction.sign === GRAPHHOPPER_SIGN_VIA_REACHED) legSteps.push([]);
+    if (instruction.sign === GRAPHHOPPER_SIGN_FINISH) break;
+  }
+  const legs: RouteLeg[] = legSteps.map((steps, i) => ({
+    startLocation: stops[i] ?? path[0],
+    endLocation: stops[i + 1] ?? path[path.length - 1],
+    distanceMeters: steps.reduce((sum, step) => sum + step.distanceMeters, 0),
+    durationSeconds: steps.reduce((sum, step) => sum + step.durationSeconds, 0),
+    steps,
+  }));
+  return { path, legs, bounds: computeBounds(path), distanceMeters: ghPath.distance };
+};
+
+export const createHttpRoutingProvider = (options: HttpRoutingProviderOptions): RoutingProvider => {
+  const baseUrl = trimTrailingSlash(options.baseUrl);
+  const profile = options.profile ?? 'foot';
+  const fetchFn = options.fetchFn ?? fetch;
+
+  return {
+    name: options.api,
+    route: async (request, signal) => {
+      const stops = [request.origin, ...request.waypoints, request.destination];
+
+      if (options.api === 'osrm') {
+        const coordinates = stops.map((p) => `${p.lng},${p.lat}`).join(';');
+        const url = `${baseUrl}/route/v1/${profile}/${coordinates}?overview=full&geometries=geojson&steps=true`;
+        const body = (await fetchJson(fetchFn, url, { signal })) as OsrmRouteResponse;
+        if (body.code === 'NoRoute' || body.code === 'NoSegment') return null;
+        if (body.code !== 'Ok') {
+          throw new ProviderError(`OSRM request failed: ${body.code}${body.message ? ` (${body.message})` : ''}`, body.code, false);
+        }
+        return body.routes && body.routes.length > 0 ? osrmToRouteGeometry(body.routes[0], stops) : null;
+      }
+
+      const params = new URLSearchParams({ profile, points_encoded: 'false', instructions: 'true', locale: 'en' });
+      stops.forEach((p) => params.append('point', `${p.lat},${p.lng}`));
+      if (options.apiKey) params.set('key', options.apiKey);
+      const body = (await fetchJson(fetchFn, `${baseUrl}/route?${params.toString()}`, { signal })) as GraphHopperRouteResponse;
+      if (!body.paths) {
+        if (body.message && /cannot find point|connection between locations not found/i.test(body.message)) return null;
+        throw new ProviderError(`GraphHopper request failed: ${body.message ?? 'unknown error'}`, 'GRAPHHOPPER_ERROR', false);
+      }
+      return body.paths.length > 0 ? graphHopperToRouteGeometry(body.paths[0], stops) : null;
+    },
+  };
+};
+
+interface OpenElevationResponse {
+  results?: { latitude: number; longitude: number; elevation: number }[];
+}
+
+export const createHttpElevationProvider = (options: HttpElevationProviderOptions): ElevationProvider => {
+  const baseUrl = trimTrailingSlash(options.baseUrl);
+  const fetchFn = options.fetchFn ?? fetch;
+
+  return {
+    name: 'open-elevation',
+    getElevationAlongPath: async (path, samples, signal) => {
+      const locations = resamplePath(path, samples);
+      const body = (await fetchJson(fetchFn, `${baseUrl}/api/v1/lookup`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ locations: locations.map((p) => ({ latitude: p.lat, longitude: p.lng })) }),
+        signal,
+      })) as OpenElevationResponse;
+      if (!body.results || body.results.length !== locations.length) {
+        throw new ProviderError('Elevation query failed: malformed response', 'MALFORMED_RESPONSE', true);
+      }
+      return body.results.map((result) => ({
+        location: { lat: result.latitude, lng: result.longitude },
+        elevationM: result.elevation,
+      }));
+    },
+  };
+};
+
+// --- Nominatim ---
+
+interface NominatimPlace {
+  display_name: string;
+  name?: string;
+  lat: string;
+  lon: string;
+}
+
+const toGeocodeResult = (place: NominatimPlace): GeocodeResult => ({
+  label: place.display_name,
+  location: { lat: parseFloat(place.lat), lng: parseFloat(place.lon) },
+});
+
+// Nominatim has no separate autocomplete endpoint, so suggestions are search results whose id carries
+// the location; resolving one needs no further request.
+const suggestionId = (location: LatLngLiteral): string => `${location.lat},${location.lng}`;
+
+// Runs requests in call order, each starting at least `minIntervalMs` after the one before
+const createThrottle = (minIntervalMs: number) => {
+  let nextAt = 0;
+  return <T>(send: () => Promise<T>): Promise<T> => {
+    const startAt = Math.max(nextAt, Date.now());
+    nextAt = startAt + minIntervalMs;
+    const wait = startAt - Date.now();
+    return wait > 0 ? new Promise<void>((resolve) => setTimeout(resolve, wait)).then(send) : send();
+  };
+};
+
+export const createHttpGeocoder = (options: HttpGeocoderOptions): Geocoder => {
+  const baseUrl = trimTrailingSlash(options.baseUrl);
+  const fetchFn = options.fetchFn ?? fetch;
+  // Browsers don't let pages set User-Agent; they identify the app by the Referer (its origin) instead
+  const init: RequestInit = {
+    referrerPolicy: 'strict-origin-when-cross-origin',
+    ...(options.userAgent ? { headers: { 'User-Agent': options.userAgent } } : {}),
+  };
+  const throttle = createThrottle(options.minIntervalMs ?? 0);
+  const get = (url: string) => throttle(() => fetchJson(fetchFn, url, init));
+
+  const search = async (query: string, near?: LatLngLiteral): Promise<GeocodeResult[]> => {
+    const params = new URLSearchParams({ q: query, format: 'jsonv2', limit: String(options.limit ?? 5) });
+    if (near) {
+      // Prefer (without restricting to) a box of roughly 50 km around `near`
+      params.set('viewbox', [near.lng - 0.5, near.lat + 0.5, near.lng + 0.5, near.lat - 0.5].join(','));
+    }
+    const body = (await get(`${baseUrl}/search?${params}`)) as NominatimPlace[];
+    if (!Array.isArray(body)) {
+      throw new ProviderError('Geocoding failed: malformed response', 'MALFORMED_RESPONSE', true);
+    }
+    return body.map(toGeocodeResult);
+  };
+
+  return {
+    name: 'nominatim',
+    autocomplete: options.autocomplete ?? false,
+    geocode: (query) => search(query),
+    suggest: async (query, near) =>
+      (await search(query, near)).map((result) => ({ id: suggestionId(result.location), label: result.label })),
+    resolveSuggestion: async (suggestion) => {
+      const [lat, lng] = suggestion.id.split(',').map(Number);
+      return Number.isFinite(lat) && Number.isFinite(lng) ? { label: suggestion.label, location: { lat, lng } } : null;
+    },
+    reverseGeocode: async (location) => {
+      const params = new URLSearchParams({ lat: String(location.lat), lon: String(location.lng), format: 'jsonv2' });
+      const body = (await get(`${baseUrl}/reverse?${params}`)) as Partial<NominatimPlace> & { error?: string };
+      if (body.error || !body.display_name) return null;
+      return body.name || body.display_name;
+    },
+  };
+};
@@ -0,0 +1,257 @@
+import type { ElevationProvider, GeocodeResult, Geocoder, LatLngLiteral, MapProviders, RouteLeg, RouteStep, RoutingProvider } from '../../types';
+import { computeBounds, computeOffset, distanceBetweenM, resamplePath } from '../geo';
+
+// In-memory stand-in for a routing/elevation backend, backed by a small street graph.
+// Useful for offline development, demos and running the generator without any external service.
+
+export interface GraphNode {
+  id: string;
+  lat: number;
+  lng: number;
+  elevationM: number;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  name?: string;
+}
+
+export interface StreetGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface GridGraphOptions {
+  rows?: number;
+  cols?: number;
+  spacingMeters?: number;
+  // Elevation in meters at a given offset (meters east / north) from the grid center.
+  elevationAt?: (eastM: number, northM: number) => number;
+}
+
+const RUNNING_PACE_SECONDS_PER_METER = 0.36; // 6 min/km, only used to fill in step durations
+const MAX_GEOCODE_RESULTS = 5;
+
+interface Adjacent {
+  node: GraphNode;
+  distanceM: number;
+  name?: string;
+}
+
+// Builds a rectangular street grid centered on `center`. Rows are named "Row n", columns "Column n".
+export const createGridGraph = (center: LatLngLiteral, options: GridGraphOptions = {}): StreetGraph => {
+  const rows = options.rows ?? 21;
+  const cols = options.cols ?? 21;
+  const spacing = options.spacingMeters ?? 250;
+  const elevationAt = options.elevationAt ?? ((eastM: number, northM: number) => 20 + 15 * Math.sin(eastM / 800) + 10 * Math.cos(northM / 600));
+
+  const nodes: GraphNode[] = [];
+  const edges: GraphEdge[] = [];
+  const id = (r: number, c: number) => `${r}:${c}`;
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const northM = (r - (rows - 1) / 2) * spacing;
+      const eastM = (c - (cols - 1) / 2) * spacing;
+      const point = computeOffset(computeOffset(center, northM, 0), eastM, 90);
+      nodes.push({ id: id(r, c), lat: point.lat, lng: point.lng, elevationM: elevationAt(eastM, northM) });
+      if (c > 0) edges.push({ from: id(r, c - 1), to: id(r, c), name: `Row ${r + 1}` });
+      if (r > 0) edges.push({ from: id(r - 1, c), to: id(r, c), name: `Column ${c + 1}` });
+    }
+  }
+  return { nodes, edges };
+};
+
+const buildAdjacency = (graph: StreetGraph): Map<string, Adjacent[]> => {
+  const byId = new Map(graph.nodes.map((node) => [node.id, node]));
+  const adjacency = new Map<string, Adjacent[]>(graph.nodes.map((node) => [node.id, []]));
+  for (const edge of graph.edges) {
+    const from = byId.get(edge.from);
+    const to = byId.get(edge.to);
+    if (!from || !to) continue;
+    const distanceM = distanceBetweenM(from, to);
+    adjacency.get(from.id)!.push({ node: to, distanceM, name: edge.name });
+    adjacency.get(to.id)!.push({ node: from, distanceM, name: edge.name });
+  }
+  return adjacency;
+};
+
+const nearestNode = (graph: StreetGraph, point: LatLngLiteral): GraphNode => {
+  let best = graph.nodes[0];
+  let bestDistance = Infinity;
+  for (const node of graph.nodes) {
+    const d = distanceBetweenM(node, point);
+    if (d < bestDistance) {
+      best = node;
+      bestDistance = d;
+    }
+  }
+  return best;
+};
+
+// Plain Dijkstra; the graphs used here are small enough that a linear-scan queue is fine.
+const shortestPath = (adjacency: Map<string, Adjacent[]>, from: GraphNode, to: GraphNode): Adjacent[] | null => {
+  if (from.id === to.id) return [];
+  const distances = new Map<string, number>([[from.id, 0]]);
+  const previous = new Map<string, { id: string; via: Adjacent }>();
+  const open = new Set<string>([from.id]);
+  const visited = new Set<string>();
+
+  while (open.size > 0) {
+    let currentId = '';
+    let currentDistance = Infinity;
+    for (const id of open) {
+      const d = distances.get(id)!;
+      if (d < currentDistance) {
+        currentId = id;
+        currentDistance = d;
+      }
+    }
+    open.delete(currentId);
+    visited.add(currentId);
+    if (currentId === to.id) break;
+
+    for (const neighbour of adjacency.get(currentId) ?? []) {
+      if (visited.has(neighbour.node.id)) continue;
+      const candidate = currentDistance + neighbour.distanceM;
+      if (candidate < (distances.get(neighbour.node.id) ?? Infinity)) {
+        distances.set(neighbour.node.id, candidate);
+        previous.set(neighbour.node.id, { id: currentId, via: neighbour });
+        open.add(neighbour.node.id);
+      }
+    }
+  }
+
+  if (!previous.has(to.id)) return null;
+  const hops: Adjacent[] = [];
+  for (let id = to.id; id !== from.id; ) {
+    const step = previous.get(id)!;
+    hops.unshift(step.via);
+    id = step.id;
+  }
+  return hops;
+};
+
+// Groups consecutive hops along the same street into a single step.
+const hopsToSteps = (start: GraphNode, hops: Adjacent[]): RouteStep[] => {
+  const steps: RouteStep[] = [];
+  let previous: LatLngLiteral = start;
+  for (const hop of hops) {
+    const last = steps[steps.length - 1];
+    if (last && last.streetName === hop.name) {
+      last.distanceMeters += hop.distanceM;
+      last.durationSeconds += hop.distanceM * RUNNING_PACE_SECONDS_PER_METER;
+      last.path.push({ lat: hop.node.lat, lng: hop.node.lng });
+    } else {
+      steps.push({
+        instruction: steps.length === 0 ? `Head out onto ${hop.name ?? 'the path'}` : `Turn onto ${hop.name ?? 'the path'}`,
+        distanceMeters: hop.distanceM,
+        durationSeconds: hop.distanceM * RUNNING_PACE_SECONDS_PER_METER,
+        path: [previous, { lat: hop.node.lat, lng: hop.node.lng }],
+        maneuver: steps.length === 0 ? 'depart' : 'turn',
+        streetName: hop.name,
+      });
+    }
+    previous = hop.node;
+  }
+  return steps;
+};
+
+export const createInMemoryRoutingProvider = (graph: StreetGraph): RoutingProvider => {
+  const adjacency = buildAdjacency(graph);
+
+  return {
+    name: 'in-memory',
+    route: async (request) => {
+      if (graph.nodes.length === 0) return null;
+      const stops = [request.origin, ...request.waypoints, request.destination].map((p) => nearestNode(graph, p));
+      const legs: RouteLeg[] = [];
+      const path: LatLngLiteral[] = [{ lat: stops[0].lat, lng: stops[0].lng }];
+
+      for (let i = 0; i < stops.length - 1; i++) {
+        const hops = shortestPath(adjacency, stops[i], stops[i + 1]);
+        if (!hops) return null;
+        const steps = hopsToSteps(stops[i], hops);
+        legs.push({
+          startLocation: { lat: stops[i].lat, lng: stops[i].lng },
+          endLocation: { lat: stops[i + 1].lat, lng: stops[i + 1].lng },
+          distanceMeters: steps.reduce((sum, step) => sum + step.distanceMeters, 0),
+          durationSeconds: steps.reduce((sum, step) => sum + step.durationSeconds, 0),
+          steps,
+        });
+        hops.forEach((hop) => path.push({ lat: hop.node.lat, lng: hop.node.lng }));
+      }
+
+      const distanceMeters = legs.reduce((sum, leg) => sum + leg.distanceMeters, 0);
+      return { path, legs, bounds: computeBounds(path), distanceMeters };
+    },
+  };
+};
+
+// Elevation is inverse-distance weighted from the nearest graph nodes.
+export const createInMemoryElevationProvider = (graph: StreetGraph): ElevationProvider => {
+  const elevationAt = (point: LatLngLiteral): number => {
+    const nearest = graph.nodes
+      .map((node) => ({ node, distanceM: distanceBetweenM(node, point) }))
+      .sort((a, b) => a.distanceM - b.distanceM)
+      .slice(0, 4);
+    if (nearest.length === 0) return 0;
+    if (nearest[0].distanceM < 1) return nearest[0].node.elevationM;
+    let weightSum = 0;
+    let weighted = 0;
+    for (const { node, distanceM } of nearest) {
+      const weight = 1 / (distanceM * distanceM);
+      weightSum += weight;
+      weighted += weight * node.elevationM;
+    }
+    return weighted / weightSum;
+  };
+
+  return {
+    name: 'in-memory',
+    getElevationAlongPath: async (path, samples) =>
+      resamplePath(path, samples).map((location) => ({ location, elevationM: elevationAt(location) })),
+  };
+};
+
+// Stand-in geocoder over the graph's intersections, named after the streets that meet there
+// ("Row 3 & Column 5" on the grid). Queries match intersection names case-insensitively.
+export const createInMemoryGeocoder = (graph: StreetGraph): Geocoder => {
+  const streetNames = new Map<string, Set<string>>(graph.nodes.map((node) => [node.id, new Set<string>()]));
+  for (const edge of graph.edges) {
+    if (!edge.name) continue;
+    streetNames.get(edge.from)?.add(edge.name);
+    streetNames.get(edge.to)?.add(edge.name);
+  }
+  const places: GeocodeResult[] = graph.nodes
+    .filter((node) => (streetNames.get(node.id)?.size ?? 0) > 0)
+    .map((node) => ({ label: [...streetNames.get(node.id)!].sort().join(' & '), location: { lat: node.lat, lng: node.lng } }));
+
+  const search = (query: string, near?: LatLngLiteral): GeocodeResult[] => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+    const matches = places.filter((place) => place.label.toLowerCase().includes(needle));
+    if (near) matches.sort((a, b) => distanceBetweenM(a.location, near) - distanceBetweenM(b.location, near));
+    return matches.slice(0, MAX_GEOCODE_RESULTS);
+  };
+
+  return {
+    name: 'in-memory',
+    autocomplete: true,
+    geocode: async (query) => search(query),
+    suggest: async (query, near) => search(query, near).map((place) => ({ id: place.label, label: place.label })),
+    resolveSuggestion: async (suggestion) => places.find((place) => place.label === suggestion.id) ?? null,
+    reverseGeocode: async (location) => {
+      if (places.length === 0) return null;
+      return places.reduce((best, place) =>
+        distanceBetweenM(place.location, location) < distanceBetweenM(best.location, location) ? place : best
+      ).label;
+    },
+  };
+};
+
+export const createInMemoryProviders = (graph: StreetGraph): MapProviders => ({
+  routing: createInMemoryRoutingProvider(graph),
+  elevation: createInMemoryElevationProvider(graph),
+});
@@ -0,0 +1,103 @@
+import type { Geocoder, MapProviders } from '../../types';
+import { DEFAULT_LATITUDE, DEFAULT_LONGITUDE } from '../../constants';
+import { createGoogleElevationProvider, createGoogleGeocoder, createGoogleRoutingProvider } from './googleProvider';
+import {
+  createHttpElevationProvider,
+  createHttpGeocoder,
+  createHttpRoutingProvider,
+  PUBLIC_NOMINATIM_MIN_INTERVAL_MS,
+  PUBLIC_NOMINATIM_URL,
+  type HttpRoutingApi,
+} from './httpProvider';
+import { createGridGraph, createInMemoryGeocoder, createInMemoryProviders, type StreetGraph } from './inMemoryProvider';
+
+export { createGoogleElevationProvider, createGoogleGeocoder, createGoogleRoutingProvider } from './googleProvider';
+export {
+  createHttpElevationProvider,
+  createHttpGeocoder,
+  createHttpRoutingProvider,
+  PUBLIC_NOMINATIM_MIN_INTERVAL_MS,
+  PUBLIC_NOMINATIM_URL,
+} from './httpProvider';
+export type { HttpRoutingApi, HttpRoutingProviderOptions, HttpElevationProviderOptions, HttpGeocoderOptions } from './httpProvider';
+export {
+  createGridGraph,
+  createInMemoryElevationProvider,
+  createInMemoryGeocoder,
+  createInMemoryProviders,
+  createInMemoryRoutingProvider,
+} from './inMemoryProvider';
+export type { GraphEdge, GraphNode, GridGraphOptions, StreetGraph } from './inMemoryProvider';
+export { createManagedProviders, DEFAULT_MANAGED_PROVIDER_OPTIONS, indexedDbCacheStore } from './managedProvider';
+export type { CacheEntry, CacheStore, ManagedProviderOptions, ManagedProviders } from './managedProvider';
+export { isTransientError, ProviderError, RequestBudgetError } from './providerError';
+
+export type ProviderConfig =
+  | { kind: 'google' }
+  | {
+      kind: 'http';
+      api: HttpRoutingApi;
+      routingBaseUrl: string;
+      elevationBaseUrl: string;
+      geocoderBaseUrl?: string; // Nominatim compatible; defaults to the public Nominatim server
+      profile?: string;
+      apiKey?: string;
+    }
+  | { kind: 'in-memory'; graph: StreetGraph };
+
+export const createProviders = (config: ProviderConfig): MapProviders => {
+  switch (config.kind) {
+    case 'google':
+      return { routing: createGoogleRoutingProvider(), elevation: createGoogleElevationProvider() };
+    case 'http':
+      return {
+        routing: createHttpRoutingProvider({
+          api: config.api,
+          baseUrl: config.routingBaseUrl,
+          profile: config.profile,
+          apiKey: config.apiKey,
+        }),
+        elevation: createHttpElevationProvider({ baseUrl: config.elevationBaseUrl }),
+      };
+    case 'in-memory':
+      return createInMemoryProviders(config.graph);
+  }
+};
+
+// The geocoder that goes with a backend: Google's, Nominatim for self-hosted backends, or the graph's intersections.
+// Without GEOCODER_URL the public Nominatim server is used within its usage policy: no autocomplete, 1 request/s.
+export const createGeocoder = (config: ProviderConfig): Geocoder => {
+  switch (config.kind) {
+    case 'google':
+      return createGoogleGeocoder();
+    case 'http':
+      return config.geocoderBaseUrl
+        ? createHttpGeocoder({ baseUrl: config.geocoderBaseUrl, autocomplete: true })
+        : createHttpGeocoder({ baseUrl: PUBLIC_NOMINATIM_URL, minIntervalMs: PUBLIC_NOMINATIM_MIN_INTERVAL_MS });
+    case 'in-memory':
+      return createInMemoryGeocoder(config.graph);
+  }
+};
+
+// Reads the backend selection injected by vite.config.ts (ROUTING_PROVIDER, ROUTING_URL, ELEVATION_URL, GEOCODER_URL).
+// Defaults to Google when nothing is configured.
+export const providerConfigFromEnv = (): ProviderConfig => {
+  const kind = process.env.ROUTING_PROVIDER;
+  if (kind === 'osrm' || kind === 'graphhopper') {
+    if (!process.env.ROUTING_URL || !process.env.ELEVATION_URL) {
+      throw new Error(`ROUTING_PROVIDER=${kind} requires ROUTING_URL and ELEVATION_URL to be set.`);
+    }
+    return {
+      kind: 'http',
+      api: kind,
+      routingBaseUrl: process.env.ROUTING_URL,
+      elevationBaseUrl: process.env.ELEVATION_URL,
+      geocoderBaseUrl: process.env.GEOCODER_URL || undefined,
+      apiKey: process.env.ROUTING_API_KEY || undefined,
+    };
+  }
+  if (kind === 'in-memory') {
+    return { kind: 'in-memory', graph: createGridGraph({ lat: DEFAULT_LATITUDE, lng: DEFAULT_LONGITUDE }) };
+  }
+  return { kind: 'google' };
+};
@@ -0,0 +1,310 @@
+import type {
+  ElevationSample,
+  LatLngLiteral,
+  MapProviders,
+  RouteGeometry,
+  RouteRequest,
+  ServiceDiagnostics,
+} from '../../types';
+import {
+  CACHE_COORDINATE_PRECISION,
+  SERVICE_CACHE_TTL_MS,
+  SERVICE_DAILY_REQUEST_BUDGET,
+  SERVICE_MAX_CONCURRENT_REQUESTS,
+  SERVICE_MAX_RETRIES,
+  SERVICE_RETRY_BASE_DELAY_MS,
+  SERVICE_SESSION_REQUEST_BUDGET,
+} from '../../constants';
+import * as db from '../indexedDb';
+import { readStoredJson, writeStoredJson } from '../localStore';
+import { isTransientError, RequestBudgetError } from './providerError';
+
+// Wraps any routing/elevation providers with the behaviour every paid or rate-limited backend needs:
+// a persistent response cache, de-duplication of identical in-flight requests, session and daily
+// request budgets, a concurrency limit and exponential backoff retries for transient failures.
+
+export interface CacheEntry {
+  id: string;
+  value: unknown;
+  storedAt: number;
+}
+
+// Persistent storage behind the in-memory cache
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  put(entry: CacheEntry): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface ManagedProviderOptions {
+  cacheTtlMs: number;
+  sessionBudget: number;
+  dailyBudget: number;
+  maxConcurrentRequests: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  // null keeps the cache in memory only
+  store: CacheStore | null;
+}
+
+export interface ManagedProviders extends MapProviders {
+  getDiagnostics(): ServiceDiagnostics;
+  // Called with the new counters after every change; returns an unsubscribe function
+  subscribe(listener: (diagnostics: ServiceDiagnostics) => void): () => void;
+  clearCache(): Promise<void>;
+}
+
+const DAILY_USAGE_STORAGE_KEY = 'rcg.serviceUsage';
+
+// The cache is best-effort: storage errors (private browsing, quota, no IndexedDB in Node) are ignored
+export const indexedDbCacheStore: CacheStore = {
+  get: (key) => db.get<CacheEntry>(db.STORES.serviceCache, key).catch(() => undefined),
+  put: (entry) => db.put(db.STORES.serviceCache, entry).catch(() => undefined),
+  clear: () => db.clear(db.STORES.serviceCache).catch(() => undefined),
+};
+
+export const DEFAULT_MANAGED_PROVIDER_OPTIONS: ManagedProviderOptions = {
+  cacheTtlMs: SERVICE_CACHE_TTL_MS,
+  sessionBudget: SERVICE_SESSION_REQUEST_BUDGET,
+  dailyBudget: SERVICE_DAILY_REQUEST_BUDGET,
+  maxConcurrentRequests: SERVICE_MAX_CONCURRENT_REQUESTS,
+  maxRetries: SERVICE_MAX_RETRIES,
+  retryBaseDelayMs: SERVICE_RETRY_BASE_DELAY_MS,
+  store: indexedDbCacheStore,
+};
+
+const roundCoordinate = (value: number): string => value.toFixed(CACHE_COORDINATE_PRECISION);
+
+const pointKey = (point: LatLngLiteral): string => `${roundCoordinate(point.lat)},${roundCoordinate(point.lng)}`;
+
+// FNV-1a, enough to keep elevation keys short for long paths
+const hashString = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const routeCacheKey = (providerName: string, request: RouteRequest): string =>
+  `route:${providerName}:${[request.origin, ...request.waypoints, request.destination].map(pointKey).join('|')}`;
+
+const elevationCacheKey = (providerName: string, path: LatLngLiteral[], samples: number): string =>
+  `elevation:${providerName}:${samples}:${path.length}:${hashString(path.map(pointKey).join('|'))}`;
+
+const todayKey = (): string => new Date().toISOString().slice(0, 10);
+
+const loadDailyCount = (): number => {
+  const stored = readStoredJson(DAILY_USAGE_STORAGE_KEY) as { date?: unknown; count?: unknown } | null;
+  return stored?.date === todayKey() && typeof stored.count === 'number' ? stored.count : 0;
+};
+
+// Without storage the daily budget only lasts for this session
+const saveDailyCount = (count: number): void => writeStoredJson(DAILY_USAGE_STORAGE_KEY, { date: todayKey(), count });
+
+const cancelledError = (): DOMException => new DOMException("The map service request was cancelled.", 'AbortError');
+
+// Waits `ms`, or rejects as soon as `signal` aborts
+const sleep = (ms: number, signal: AbortSignal | undefined): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const createManagedProviders = (
+  inner: MapProviders,
+  options: Partial<ManagedProviderOptions> = {}
+): ManagedProviders => {
+  const settings = { ...DEFAULT_MANAGED_PROVIDER_OPTIONS, ...options };
+  const memoryCache = new Map<string, CacheEntry>();
+  const inFlight = new Map<string, Promise<unknown>>();
+  const listeners = new Set<(diagnostics: ServiceDiagnostics) => void>();
+  const waiting: Array<() => void> = [];
+  let active = 0;
+  let dailyDate = todayKey();
+  const counters = {
+    cacheHits: 0,
+    cacheMisses: 0,
+    deduplicated: 0,
+    retries: 0,
+    failures: 0,
+    sessionRequests: 0,
+    dailyRequests: loadDailyCount(),
+  };
+
+  const getDiagnostics = (): ServiceDiagnostics => ({
+    ...counters,
+    sessionBudget: settings.sessionBudget,
+    dailyBudget: settings.dailyBudget,
+  });
+
+  const notify = () => {
+    const diagnostics = getDiagnostics();
+    listeners.forEach((listener) => listener(diagnostics));
+  };
+
+  const acquireSlot = async (): Promise<void> => {
+    if (active < settings.maxConcurrentRequests) {
+      active++;
+      return;
+    }
+    // The releasing request hands its slot straight to the next waiter
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  };
+
+  const releaseSlot = () => {
+    const next = waiting.shift();
+    if (next) next();
+    else active--;
+  };
+
+  // Counts one request against both budgets, or throws when either is used up
+  const chargeBudget = () => {
+    if (dailyDate !== todayKey()) {
+      dailyDate = todayKey();
+      counters.dailyRequests = 0;
+    }
+    if (counters.sessionRequests >= settings.sessionBudget) {
+      throw new RequestBudgetError(
+        `The session limit of ${settings.sessionBudget} map service requests was reached. Reload the page to continue.`
+      );
+    }
+    if (counters.dailyRequests >= settings.dailyBudget) {
+      throw new RequestBudgetError(
+        `The daily limit of ${settings.dailyBudget} map service requests was reached. Please try again tomorrow.`
+      );
+    }
+    counters.sessionRequests++;
+    counters.dailyRequests++;
+    saveDailyCount(counters.dailyRequests);
+    notify();
+  };
+
+  // A request is charged once it has a slot, just before it is sent. Once `signal` aborts nothing more is
+  // sent or charged: the backoff wait ends early and the cancelled request isn't retried or counted as a failure.
+  const sendWithRetries = async <T>(send: (signal?: AbortSignal) => Promise<T>, signal: AbortSignal | undefined): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      await acquireSlot();
+      try {
+        if (signal?.aborted) throw cancelledError();
+        chargeBudget();
+      } catch (err) {
+        releaseSlot();
+        throw err;
+      }
+      try {
+        return await send(signal);
+      } catch (err) {
+        if (signal?.aborted) throw err;
+        if (attempt >= settings.maxRetries || !isTransientError(err)) {
+          counters.failures++;
+          notify();
+          throw err;
+        }
+      } finally {
+        releaseSlot();
+      }
+      counters.retries++;
+      notify();
+      const delay = settings.retryBaseDelayMs * 2 ** attempt;
+      await sleep(delay + Math.random() * delay * 0.5, signal);
+    }
+  };
+
+  const readCache = async (key: string): Promise<CacheEntry | undefined> => {
+    const entry = memoryCache.get(key) ?? (await settings.store?.get(key));
+    if (!entry) return undefined;
+    if (Date.now() - entry.storedAt > settings.cacheTtlMs) {
+      memoryCache.delete(key);
+      return undefined;
+    }
+    memoryCache.set(key, entry);
+    return entry;
+  };
+
+  const writeCache = (key: string, value: unknown) => {
+    const entry: CacheEntry = { id: key, value, storedAt: Date.now() };
+    memoryCache.set(key, entry);
+    void settings.store?.put(entry);
+  };
+
+  // Cache, then in-flight requests, then the network. Failures are not cached. A shared in-flight request
+  // runs under the signal of the caller that started it; if that caller cancels, the others send their own.
+  const cached = <T>(key: string, send: (signal?: AbortSignal) => Promise<T>, signal: AbortSignal | undefined): Promise<T> => {
+    const pending = inFlight.get(key);
+    if (pending) {
+      counters.deduplicated++;
+      notify();
+      return (pending as Promise<T>).catch((err) => {
+        if (err instanceof DOMException && err.name === 'AbortError' && !signal?.aborted) return cached(key, send, signal);
+        throw err;
+      });
+    }
+    const request = (async () => {
+      const entry = await readCache(key);
+      if (entry) {
+        counters.cacheHits++;
+        notify();
+        return entry.value as T;
+      }
+      counters.cacheMisses++;
+      notify();
+      const value = await sendWithRetries(send, signal);
+      writeCache(key, value);
+      return value;
+    })();
+    inFlight.set(key, request);
+    const cleanUp = () => inFlight.delete(key);
+    request.then(cleanUp, cleanUp);
+    return request;
+  };
+
+  return {
+    routing: {
+      name: inner.routing.name,
+      // "No route" results are cached too, so known dead ends aren't requested again
+      route: (request, signal) =>
+        cached<RouteGeometry | null>(
+          routeCacheKey(inner.routing.name, request),
+          (sendSignal) => inner.routing.route(request, sendSignal),
+          signal
+        ),
+    },
+    elevation: {
+      name: inner.elevation.name,
+      getElevationAlongPath: (path, samples, signal) =>
+        cached<ElevationSample[]>(
+          elevationCacheKey(inner.elevation.name, path, samples),
+          (sendSignal) => inner.elevation.getElevationAlongPath(path, samples, sendSignal),
+          signal
+        ),
+    },
+    getDiagnostics,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    clearCache: async () => {
+      memoryCache.clear();
+      await settings.store?.clear();
+      counters.cacheHits = 0;
+      counters.cacheMisses = 0;
+      counters.deduplicated = 0;
+      notify();
+    },
+  };
+};
@@ -0,0 +1,25 @@
+// Error thrown by providers for failed requests. `transient` marks failures worth retrying
+// (rate limits, server errors, network hiccups) as opposed to bad requests or invalid keys.
+export class ProviderError extends Error {
+  readonly status: string;
+  readonly transient: boolean;
+
+  constructor(message: string, status: string, transient: boolean) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+    this.transient = transient;
+  }
+}
+
+// fetch() rejects with a TypeError when the network request itself fails
+export const isTransientError = (err: unknown): boolean =>
+  err instanceof ProviderError ? err.transient : err instanceof TypeError;
+
+// Thrown by the managed providers instead of sending a request once the session or daily budget is used up
+export class RequestBudgetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RequestBudgetError';
+  }
+}
@@ -0,0 +1,115 @@
+import type { AvoidZone, LatLngLiteral, MustPassPoint, RouteConstraints, RouteRequest } from '../types';
+import { STORES, getAll, put, remove } from './indexedDb';
+import { distanceBetweenM, pathLengthM, resamplePath } from './geo';
+import { newId } from './ids';
+
+// Avoidance zones and must-pass points: geometry used by the generator, plus IndexedDB persistence.
+
+export const EMPTY_ROUTE_CONSTRAINTS: RouteConstraints = { avoidZones: [], mustPassPoints: [] };
+
+const INTRUSION_SAMPLE_SPACING_M = 10;
+const MAX_INTRUSION_SAMPLES = 5000;
+// A must-pass point counts as visited when the path comes this close to it
+const MUST_PASS_REACHED_M = 50;
+
+export const createAvoidZone = (polygon: LatLngLiteral[], name: string): AvoidZone => ({ id: newId(), name, polygon, enabled: true });
+
+export const createMustPassPoint = (location: LatLngLiteral, name: string): MustPassPoint => ({ id: newId(), name, location, enabled: true });
+
+// Ray casting in lat/lng space; zones are small enough for the planar approximation.
+export const isPointInPolygon = (point: LatLngLiteral, polygon: LatLngLiteral[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.lat > point.lat) !== (b.lat > point.lat) &&
+        point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Distance (m) of the path that lies inside any enabled zone, measured on an evenly resampled path.
+export const avoidZoneIntrusionM = (path: LatLngLiteral[], zones: AvoidZone[]): number => {
+  const active = zones.filter((zone) => zone.enabled && zone.polygon.length >= 3);
+  const totalM = pathLengthM(path);
+  if (active.length === 0 || path.length < 2 || totalM === 0) return 0;
+
+  const samples = resamplePath(path, Math.min(MAX_INTRUSION_SAMPLES, Math.ceil(totalM / INTRUSION_SAMPLE_SPACING_M) + 1));
+  const stepM = totalM / (samples.length - 1);
+  const boxes = active.map((zone) => ({
+    zone,
+    minLat: Math.min(...zone.polygon.map((p) => p.lat)),
+    maxLat: Math.max(...zone.polygon.map((p) => p.lat)),
+    minLng: Math.min(...zone.polygon.map((p) => p.lng)),
+    maxLng: Math.max(...zone.polygon.map((p) => p.lng)),
+  }));
+
+  let insideSamples = 0;
+  for (const point of samples) {
+    const inside = boxes.some((box) =>
+      point.lat >= box.minLat && point.lat <= box.maxLat && point.lng >= box.minLng && point.lng <= box.maxLng &&
+      isPointInPolygon(point, box.zone.polygon)
+    );
+    if (inside) insideSamples++;
+  }
+  return insideSamples * stepM;
+};
+
+// Enabled must-pass points the path doesn't come within MUST_PASS_REACHED_M of
+export const missedMustPassPoints = (path: LatLngLiteral[], points: MustPassPoint[]): MustPassPoint[] => {
+  const active = points.filter((p) => p.enabled);
+  if (active.length === 0) return [];
+  const totalM = pathLengthM(path);
+  const samples = path.length < 2 || totalM === 0
+    ? path
+    : resamplePath(path, Math.min(MAX_INTRUSION_SAMPLES, Math.ceil(totalM / INTRUSION_SAMPLE_SPACING_M) + 1));
+  return active.filter((point) => !samples.some((sample) => distanceBetweenM(sample, point.location) <= MUST_PASS_REACHED_M));
+};
+
+// How a path breaks the enabled constraints, as phrases following "The course"; empty when it doesn't
+export const constraintWarnings = (path: LatLngLiteral[], constraints: RouteConstraints): string[] => {
+  const intrusionM = avoidZoneIntrusionM(path, constraints.avoidZones);
+  const missed = missedMustPassPoints(path, constraints.mustPassPoints);
+  return [
+    ...(intrusionM > 0 ? [`runs ${intrusionM.toFixed(0)} m inside avoidance zones`] : []),
+    ...(missed.length > 0 ? [`misses ${missed.map((p) => p.name).join(', ')}`] : []),
+  ];
+};
+
+// Adds enabled must-pass points to a candidate request by cheapest insertion: each point goes where it
+// lengthens the straight-line origin → waypoints → destination chain the least, so pins are visited in
+// the order they naturally fall along the candidate's shape.
+export const insertMustPassPoints = (request: RouteRequest, points: MustPassPoint[]): RouteRequest => {
+  const stops = [request.origin, ...request.waypoints, request.destination];
+  for (const { location } of points.filter((p) => p.enabled)) {
+    let bestIndex = 1;
+    let bestCost = Infinity;
+    for (let i = 1; i < stops.length; i++) {
+      const cost = distanceBetweenM(stops[i - 1], location) + distanceBetweenM(location, stops[i]) - distanceBetweenM(stops[i - 1], stops[i]);
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestIndex = i;
+      }
+    }
+    stops.splice(bestIndex, 0, location);
+  }
+  return { origin: stops[0], destination: stops[stops.length - 1], waypoints: stops.slice(1, -1) };
+};
+
+export const hasActiveConstraints = (constraints: RouteConstraints): boolean =>
+  constraints.avoidZones.some((zone) => zone.enabled) || constraints.mustPassPoints.some((point) => point.enabled);
+
+export const loadRouteConstraints = async (): Promise<RouteConstraints> => {
+  const [avoidZones, mustPassPoints] = await Promise.all([
+    getAll<AvoidZone>(STORES.avoidZones),
+    getAll<MustPassPoint>(STORES.mustPassPoints),
+  ]);
+  return { avoidZones, mustPassPoints };
+};
+
+export const saveAvoidZone = (zone: AvoidZone): Promise<void> => put(STORES.avoidZones, zone);
+export const deleteAvoidZone = (id: string): Promise<void> => remove(STORES.avoidZones, id);
+export const saveMustPassPoint = (point: MustPassPoint): Promise<void> => put(STORES.mustPassPoints, point);
+export const deleteMustPassPoint = (id: string): Promise<void> => remove(STORES.mustPassPoints, id);
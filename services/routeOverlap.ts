@@ -0,0 +1,76 @@
+import type { LatLngLiteral, RouteOverlap } from '../types';
+import { OVERLAP_DISTANCE_M } from '../constants';
+import { computeHeading, pathLengthM, resamplePath } from './geo';
+
+// Measures how much of a path retraces itself and how many times it doubles back.
+
+const SAMPLE_SPACING_M = 20;
+const MAX_SAMPLES = 2000;
+// Segments this close along the path are neighbours, not a retrace
+const MIN_GAP_SEGMENTS = 3;
+// Heading reversal (degrees) over U_TURN_WINDOW samples either side that counts as a U-turn
+const U_TURN_ANGLE_DEGREES = 150;
+const U_TURN_WINDOW = 2;
+
+const headingDifference = (a: number, b: number): number => {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+};
+
+export const analyzeRouteOverlap = (path: LatLngLiteral[]): RouteOverlap => {
+  const totalM = pathLengthM(path);
+  if (path.length < 2 || totalM === 0) return { overlapPercent: 0, uTurnCount: 0 };
+
+  const samples = resamplePath(path, Math.min(MAX_SAMPLES, Math.ceil(totalM / SAMPLE_SPACING_M) + 1));
+  const stepM = totalM / (samples.length - 1);
+
+  // Local equirectangular projection (meters) around the first sample, bucketed into a grid for neighbour lookups
+  const origin = samples[0];
+  const metersPerDegLat = 111_320;
+  const metersPerDegLng = metersPerDegLat * Math.cos((origin.lat * Math.PI) / 180);
+  const midpoints = samples.slice(1).map((p, i) => ({
+    x: (((p.lng + samples[i].lng) / 2) - origin.lng) * metersPerDegLng,
+    y: (((p.lat + samples[i].lat) / 2) - origin.lat) * metersPerDegLat,
+  }));
+  const cellKey = (cx: number, cy: number) => `${cx},${cy}`;
+  const grid = new Map<string, number[]>();
+
+  let overlapSegments = 0;
+  for (let i = 0; i < midpoints.length; i++) {
+    // Only segments at least MIN_GAP_SEGMENTS back are candidates for a retrace
+    const earlier = i - MIN_GAP_SEGMENTS;
+    if (earlier >= 0) {
+      const m = midpoints[earlier];
+      const key = cellKey(Math.floor(m.x / OVERLAP_DISTANCE_M), Math.floor(m.y / OVERLAP_DISTANCE_M));
+      grid.set(key, [...(grid.get(key) ?? []), earlier]);
+    }
+
+    const { x, y } = midpoints[i];
+    const cx = Math.floor(x / OVERLAP_DISTANCE_M);
+    const cy = Math.floor(y / OVERLAP_DISTANCE_M);
+    let retraced = false;
+    for (let dx = -1; dx <= 1 && !retraced; dx++) {
+      for (let dy = -1; dy <= 1 && !retraced; dy++) {
+        retraced = (grid.get(cellKey(cx + dx, cy + dy)) ?? []).some(
+          (j) => Math.hypot(midpoints[j].x - x, midpoints[j].y - y) <= OVERLAP_DISTANCE_M
+        );
+      }
+    }
+    if (retraced) overlapSegments++;
+  }
+
+  let uTurnCount = 0;
+  for (let i = U_TURN_WINDOW; i < samples.length - U_TURN_WINDOW; i++) {
+    const incoming = computeHeading(samples[i - U_TURN_WINDOW], samples[i]);
+    const outgoing = computeHeading(samples[i], samples[i + U_TURN_WINDOW]);
+    if (headingDifference(incoming, outgoing) >= U_TURN_ANGLE_DEGREES) {
+      uTurnCount++;
+      i += U_TURN_WINDOW * 2; // don't count the same reversal from neighbouring samples
+    }
+  }
+
+  return {
+    overlapPercent: Math.min(100, ((overlapSegments * stepM) / totalM) * 100),
+    uTurnCount,
+  };
+};
@@ -0,0 +1,161 @@
+import type { CourseTurn, GeneratedCourse, KmSplit, LatLngLiteral, PaceProfile, PositionFix, RunProgress, RunState } from '../types';
+import {
+  RUN_BACK_ON_COURSE_M,
+  RUN_OFF_COURSE_M,
+  RUN_SNAP_LOOKAHEAD_M,
+  RUN_SNAP_LOOKBACK_M,
+  RUN_UPCOMING_TURNS,
+} from '../constants';
+import { cumulativeDistancesM, interpolate, locationAlongPath } from './geo';
+import { estimateCourseTime } from './paceModel';
+import { buildCueSheet } from './cueSheet';
+
+// Run-along tracking: each position fix is snapped onto the course polyline to advance the runner's
+// distance, and the state is compared with the planned splits. Everything here is pure so a recorded
+// track can be replayed through it.
+
+// The course prepared for tracking. Distances are course distances (route.distanceMeters), so they line up
+// with the elevation profile and the planned splits even where the path length differs slightly.
+export interface RunCourse {
+  path: LatLngLiteral[];
+  cumulativeM: number[];
+  totalM: number;
+  turns: CourseTurn[];
+  plannedSplits: KmSplit[];
+}
+
+interface Snap {
+  distanceM: number;
+  location: LatLngLiteral;
+  offsetM: number; // distance from the fix to the course
+}
+
+const METERS_PER_DEGREE_LAT = 110540;
+const METERS_PER_DEGREE_LNG_AT_EQUATOR = 111320;
+const MIN_SPLIT_DISTANCE_M = 100; // the current split's pace is shown once this much of the km is run
+
+export const prepareRunCourse = (course: GeneratedCourse, pace: PaceProfile): RunCourse => {
+  const path = course.route.path;
+  const pathM = cumulativeDistancesM(path);
+  const pathTotalM = pathM[pathM.length - 1] ?? 0;
+  const scale = pathTotalM > 0 ? course.route.distanceMeters / pathTotalM : 1;
+  return {
+    path,
+    cumulativeM: pathM.map((d) => d * scale),
+    totalM: course.route.distanceMeters,
+    // The start cue is behind the runner from the first step
+    turns: buildCueSheet(course).filter((cue) => cue.kind !== 'start'),
+    plannedSplits: estimateCourseTime(course.elevationProfile, course.route.distanceMeters, pace).splits,
+  };
+};
+
+// Nearest point to `location` on the path segments that overlap [fromM, toM] of the course
+const snapToCourse = (course: RunCourse, location: LatLngLiteral, fromM = -Infinity, toM = Infinity): Snap | null => {
+  const { path, cumulativeM } = course;
+  // Flat projection around the fix; accurate enough over a course's segments
+  const lngScale = METERS_PER_DEGREE_LNG_AT_EQUATOR * Math.cos((location.lat * Math.PI) / 180);
+  const project = (p: LatLngLiteral) => ({ x: (p.lng - location.lng) * lngScale, y: (p.lat - location.lat) * METERS_PER_DEGREE_LAT });
+  let best: Snap | null = null;
+  for (let i = 1; i < path.length; i++) {
+    if (cumulativeM[i] < fromM || cumulativeM[i - 1] > toM) continue;
+    const a = project(path[i - 1]);
+    const b = project(path[i]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0 ? Math.min(1, Math.max(0, -(a.x * dx + a.y * dy) / lengthSquared)) : 0;
+    const offsetM = Math.hypot(a.x + dx * t, a.y + dy * t);
+    if (!best || offsetM < best.offsetM) {
+      best = {
+        distanceM: cumulativeM[i - 1] + (cumulativeM[i] - cumulativeM[i - 1]) * t,
+        location: interpolate(path[i - 1], path[i], t),
+        offsetM,
+      };
+    }
+  }
+  if (!best && path.length === 1) {
+    const { x, y } = project(path[0]);
+    best = { distanceM: 0, location: path[0], offsetM: Math.hypot(x, y) };
+  }
+  return best;
+};
+
+export const INITIAL_RUN_STATE: RunState = {
+  startedAt: 0,
+  lastFix: null,
+  snappedLocation: null,
+  distanceCoveredM: 0,
+  offCourseM: 0,
+  isOffCourse: false,
+  kmReachedAt: [],
+};
+
+export const advanceRun = (state: RunState, fix: PositionFix, course: RunCourse): RunState => {
+  const startedAt = state.lastFix ? state.startedAt : fix.timestamp;
+  const covered = state.distanceCoveredM;
+  let snap = snapToCourse(course, fix.location, covered - RUN_SNAP_LOOKBACK_M, covered + RUN_SNAP_LOOKAHEAD_M);
+  if (!snap || snap.offsetM > RUN_OFF_COURSE_M) {
+    // Not near the expected stretch: the runner may have rejoined further along (a shortcut or a gap in the fixes)
+    const anywhere = snapToCourse(course, fix.location);
+    if (anywhere && (!snap || (anywhere.offsetM <= RUN_BACK_ON_COURSE_M && anywhere.distanceM > covered))) snap = anywhere;
+  }
+  if (!snap) return { ...state, startedAt, lastFix: fix };
+
+  // Hysteresis keeps a fix hovering around the threshold from toggling the alert
+  const isOffCourse = state.isOffCourse ? snap.offsetM > RUN_BACK_ON_COURSE_M : snap.offsetM > RUN_OFF_COURSE_M;
+  const distanceCoveredM = isOffCourse ? covered : Math.max(covered, snap.distanceM);
+  const kmReachedAt = [...state.kmReachedAt];
+  while (Math.floor(distanceCoveredM / 1000) > kmReachedAt.length) {
+    kmReachedAt.push(fix.timestamp - startedAt);
+  }
+  return {
+    startedAt,
+    lastFix: fix,
+    snappedLocation: isOffCourse ? state.snappedLocation : snap.location,
+    distanceCoveredM,
+    offCourseM: snap.offsetM,
+    isOffCourse,
+    kmReachedAt,
+  };
+};
+
+// Planned time from the start to `distanceM`, from the grade-adjusted splits
+const plannedMinutesTo = (splits: KmSplit[], distanceM: number): number => {
+  let minutes = 0;
+  let remainingM = distanceM;
+  for (const split of splits) {
+    if (remainingM <= 0) break;
+    const runM = Math.min(remainingM, split.distanceM);
+    minutes += split.distanceM > 0 ? split.timeMin * (runM / split.distanceM) : 0;
+    remainingM -= runM;
+  }
+  return minutes;
+};
+
+export const describeRun = (state: RunState, course: RunCourse): RunProgress => {
+  const elapsedMs = state.lastFix ? state.lastFix.timestamp - state.startedAt : 0;
+  const covered = state.distanceCoveredM;
+  const kmIndex = Math.max(0, Math.min(Math.floor(covered / 1000), course.plannedSplits.length - 1));
+  const splitRunM = covered - kmIndex * 1000;
+  const splitStartMs = kmIndex > 0 ? state.kmReachedAt[kmIndex - 1] ?? 0 : 0;
+  return {
+    distanceCoveredM: covered,
+    distanceRemainingM: Math.max(0, course.totalM - covered),
+    elapsedMin: elapsedMs / 60000,
+    plannedElapsedMin: plannedMinutesTo(course.plannedSplits, covered),
+    currentKm: kmIndex + 1,
+    splitPaceMinPerKm: splitRunM >= MIN_SPLIT_DISTANCE_M ? (elapsedMs - splitStartMs) / 60000 / (splitRunM / 1000) : null,
+    plannedSplitPaceMinPerKm: course.plannedSplits[kmIndex]?.paceMinPerKm ?? null,
+    upcomingTurns: course.turns
+      .filter((turn) => turn.distanceM > covered)
+      .slice(0, RUN_UPCOMING_TURNS)
+      .map((turn) => ({ instruction: turn.instruction, inM: turn.distanceM - covered })),
+    isOffCourse: state.isOffCourse,
+    offCourseM: state.offCourseM,
+    isFinished: course.totalM - covered <= RUN_BACK_ON_COURSE_M,
+  };
+};
+
+// Where a route back to the course should lead: a little ahead of where the runner left it
+export const rejoinPoint = (state: RunState, course: RunCourse): LatLngLiteral | null =>
+  locationAlongPath(course.path, course.cumulativeM, Math.min(course.totalM, state.distanceCoveredM + RUN_OFF_COURSE_M));
@@ -0,0 +1,281 @@
+import type { CourseMode, CourseSource, ElevationObjective, GeneratedCourse, GenerationOptions, LatLngLiteral, LoopStrategy, RouteLeg, RouteStep } from '../types';
+import { DEFAULT_GENERATION_OPTIONS } from '../constants';
+import {
+  computeBounds,
+  cumulativeDistancesM,
+  decodePolyline,
+  decodeSignedIntegers,
+  encodePolyline,
+  encodeSignedIntegers,
+  pathLengthM,
+  resamplePath,
+  simplifyPath,
+} from './geo';
+import { buildElevationProfile } from './elevationProfile';
+import { maxGradePercent } from './gradeAnalysis';
+import { buildGeneratedCourse } from './courseBuilder';
+import { analyzeRouteOverlap } from './routeOverlap';
+import { COURSE_MODES, completeCourseRoute } from './courseModes';
+import { nearestIndex, outboundLegs, outboundPath } from './courseEditor';
+import { streetOf } from './cueSheet';
+import { LOOP_STRATEGIES } from './loopStrategies';
+
+// Shareable URLs: the query string carries the start point, distance and generation settings, plus
+// the chosen route as an encoded polyline, its step boundaries and elevation series so the course can be shown as-is.
+
+export interface ShareState {
+  startPoint: LatLngLiteral;
+  desiredDistanceKm: number;
+  generationOptions: GenerationOptions;
+  course: GeneratedCourse | null; // null when the link has no geometry; regenerate from the settings
+}
+
+const ELEVATION_PRECISION = 10; // elevations are encoded in decimeters
+
+const COURSE_SOURCES: Record<CourseSource, true> = { generated: true, edited: true, imported: true };
+
+const formatPoint = (point: LatLngLiteral): string => `${point.lat.toFixed(6)},${point.lng.toFixed(6)}`;
+
+const parsePoint = (value: string | null): LatLngLiteral | null => {
+  if (!value) return null;
+  const [lat, lng] = value.split(',').map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng };
+};
+
+const parseNumber = (value: string | null, fallback: number): number => {
+  const parsed = value === null ? NaN : Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+// Missing, empty or malformed values read as null (not set)
+const parseOptionalNumber = (value: string | null): number | null => {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Own keys only, so inherited names such as "constructor" fall back too
+const oneOf = <T extends string>(value: string | null, allowed: Record<T, unknown>, fallback: T): T =>
+  value !== null && Object.prototype.hasOwnProperty.call(allowed, value) ? (value as T) : fallback;
+
+// Links longer than this are cut down: the path is simplified harder, then the street names and finally the
+// whole route are left out, so the link regenerates the course from its settings.
+const MAX_SHARE_SEARCH_LENGTH = 8000;
+const PATH_TOLERANCES_M = [2, 5, 10, 20];
+const STREET_SEPARATOR = '|';
+
+// The outbound route with step boundaries as indices into its (simplified) path; out-and-back courses are
+// mirrored again on restore, as when they were generated.
+interface EncodedRoute {
+  path: LatLngLiteral[];
+  stepStarts: number[]; // index of the first path point of each step
+  legStarts: number[]; // index of the first step of each leg
+  streets: string[]; // street of each step, '' when unknown
+}
+
+// First path index at or after `fromIndex` whose distance from the start is closest to `distanceM`
+const indexAtDistance = (cumulativeM: number[], distanceM: number, fromIndex: number): number => {
+  let i = fromIndex;
+  while (i < cumulativeM.length - 1 && cumulativeM[i + 1] <= distanceM) i++;
+  return i < cumulativeM.length - 1 && cumulativeM[i + 1] - distanceM < distanceM - cumulativeM[i] ? i + 1 : i;
+};
+
+// Step boundaries are placed on the path by their share of the step distances (as on the cue sheet), and each
+// step's part of the path is simplified on its own so the boundaries survive.
+const encodeRoute = (course: GeneratedCourse, toleranceM: number): EncodedRoute => {
+  const path = outboundPath(course);
+  const legs = outboundLegs(course);
+  const steps = legs.flatMap((leg) => leg.steps);
+  if (steps.length === 0) return { path: simplifyPath(path, toleranceM), stepStarts: [], legStarts: [], streets: [] };
+
+  const cumulativeM = cumulativeDistancesM(path);
+  const stepTotalM = steps.reduce((sum, step) => sum + step.distanceMeters, 0);
+  const scale = stepTotalM > 0 ? (cumulativeM[cumulativeM.length - 1] ?? 0) / stepTotalM : 0;
+  let stepStartM = 0;
+  let previous = 0;
+  const starts = steps.map((step, i) => {
+    previous = i === 0 ? 0 : indexAtDistance(cumulativeM, stepStartM * scale, previous);
+    stepStartM += step.distanceMeters;
+    return previous;
+  });
+
+  const simplified: LatLngLiteral[] = [path[0]];
+  const stepStarts = starts.map((start, i) => {
+    const at = simplified.length - 1;
+    const end = i + 1 < starts.length ? starts[i + 1] : path.length - 1;
+    simplified.push(...simplifyPath(path.slice(start, end + 1), toleranceM).slice(1));
+    return at;
+  });
+  let stepCount = 0;
+  const legStarts = legs.map((leg) => {
+    const at = stepCount;
+    stepCount += leg.steps.length;
+    return at;
+  });
+  const streets = steps.map((step) => (streetOf(step) ?? '').split(STREET_SEPARATOR).join(' '));
+  return { path: simplified, stepStarts, legStarts, streets };
+};
+
+const setCourseParams = (params: URLSearchParams, course: GeneratedCourse, toleranceM: number, withStreets: boolean): void => {
+  const encoded = encodeRoute(course, toleranceM);
+  const path = completeCourseRoute({ path: encoded.path, legs: [], bounds: course.route.bounds, distanceMeters: 0 }, course.mode).path;
+  params.set('r', encodePolyline(path));
+  params.set('e', encodeSignedIntegers(course.elevationProfile.points.map((p) => Math.round(p.elevationM * ELEVATION_PRECISION))));
+  if (encoded.stepStarts.length > 0) {
+    params.set('st', encodeSignedIntegers(encoded.stepStarts));
+    params.set('lg', encodeSignedIntegers(encoded.legStarts));
+    if (withStreets && encoded.streets.some(Boolean)) params.set('sn', encoded.streets.join(STREET_SEPARATOR));
+  }
+  if (course.viaPoints.length > 0) params.set('v', encodePolyline(course.viaPoints));
+  if (course.source !== 'generated') params.set('src', course.source);
+};
+
+export const buildShareSearch = (
+  startPoint: LatLngLiteral,
+  desiredDistanceKm: number,
+  options: GenerationOptions,
+  course: GeneratedCourse | null
+): string => {
+  const params = new URLSearchParams();
+  params.set('s', formatPoint(startPoint));
+  params.set('d', String(desiredDistanceKm));
+  params.set('m', options.mode);
+  if (options.mode === 'loop') params.set('sh', options.strategy);
+  if (options.mode === 'point-to-point' && options.finishPoint) params.set('f', formatPoint(options.finishPoint));
+  if (options.rotationDegrees !== 0) params.set('rot', String(options.rotationDegrees));
+  if (options.radiusScale !== 1) params.set('rs', String(options.radiusScale));
+  params.set('el', options.elevation.objective);
+  if (options.elevation.objective === 'target') params.set('tg', String(options.elevation.targetGainM));
+  if (options.elevation.maxGradePercent !== null) params.set('mg', String(options.elevation.maxGradePercent));
+  if (course) {
+    const attempts = [
+      ...PATH_TOLERANCES_M.map((toleranceM) => ({ toleranceM, withStreets: true })),
+      { toleranceM: PATH_TOLERANCES_M[PATH_TOLERANCES_M.length - 1], withStreets: false },
+    ];
+    for (const { toleranceM, withStreets } of attempts) {
+      const withCourse = new URLSearchParams(params);
+      setCourseParams(withCourse, course, toleranceM, withStreets);
+      if (withCourse.toString().length <= MAX_SHARE_SEARCH_LENGTH) return `?${withCourse.toString()}`;
+    }
+  }
+  return `?${params.toString()}`;
+};
+
+// Step boundaries from the link, or null when they are missing or don't fit the path
+const decodeBoundaries = (params: URLSearchParams, pathLength: number): { stepStarts: number[]; legStarts: number[] } | null => {
+  const encodedSteps = params.get('st');
+  const encodedLegs = params.get('lg');
+  if (!encodedSteps || !encodedLegs) return null;
+  const stepStarts = decodeSignedIntegers(encodedSteps);
+  const legStarts = decodeSignedIntegers(encodedLegs);
+  // Steps may be a single point (zero length), but every leg needs a step
+  const isValid = (values: number[], limit: number, minGap: number) =>
+    values[0] === 0 && values.every((value, i) => value < limit && (i === 0 || value - values[i - 1] >= minGap));
+  return isValid(stepStarts, pathLength, 0) && isValid(legStarts, stepStarts.length, 1) ? { stepStarts, legStarts } : null;
+};
+
+// Links without step boundaries (older ones) get one step per leg, split at the via points as the editor does.
+const boundariesAtViaPoints = (path: LatLngLiteral[], viaPoints: LatLngLiteral[]): { stepStarts: number[]; legStarts: number[] } => {
+  let previous = 0;
+  const stepStarts = [0, ...viaPoints.map((via) => (previous = nearestIndex(path, via, previous)))];
+  return { stepStarts, legStarts: stepStarts.map((_, i) => i) };
+};
+
+const restoreLegs = (path: LatLngLiteral[], stepStarts: number[], legStarts: number[], streets: string[]): RouteLeg[] => {
+  const steps = stepStarts.map((start, i): RouteStep => {
+    const stepPath = path.slice(start, (i + 1 < stepStarts.length ? stepStarts[i + 1] : path.length - 1) + 1);
+    return { instruction: '', distanceMeters: pathLengthM(stepPath), durationSeconds: 0, path: stepPath, streetName: streets[i] || undefined };
+  });
+  return legStarts.map((start, i) => {
+    const legSteps = steps.slice(start, i + 1 < legStarts.length ? legStarts[i + 1] : steps.length);
+    const lastPath = legSteps[legSteps.length - 1].path;
+    return {
+      startLocation: legSteps[0].path[0],
+      endLocation: lastPath[lastPath.length - 1],
+      distanceMeters: legSteps.reduce((sum, step) => sum + step.distanceMeters, 0),
+      durationSeconds: 0,
+      steps: legSteps,
+    };
+  });
+};
+
+// Rebuilds the course from the encoded geometry and step boundaries. Step instructions are not part of the
+// link (the cue sheet words its own from the geometry and street names); everything else is recomputed.
+const restoreCourse = (
+  params: URLSearchParams,
+  encodedPath: string,
+  startPoint: LatLngLiteral,
+  desiredDistanceKm: number,
+  options: GenerationOptions
+): GeneratedCourse | null => {
+  const fullPath = decodePolyline(encodedPath);
+  if (fullPath.length < 2) return null;
+  // The way out, split off as the editor does; out-and-back links carry the mirrored path
+  const path = options.mode === 'out-and-back' ? fullPath.slice(0, Math.ceil(fullPath.length / 2)) : fullPath;
+  const encodedViaPoints = params.get('v');
+  const viaPoints = encodedViaPoints ? decodePolyline(encodedViaPoints) : [];
+  const { stepStarts, legStarts } = decodeBoundaries(params, path.length) ?? boundariesAtViaPoints(path, viaPoints);
+  const streets = params.get('sn')?.split(STREET_SEPARATOR) ?? [];
+  const legs = restoreLegs(path, stepStarts, legStarts, streets.length === stepStarts.length ? streets : []);
+  const route = completeCourseRoute(
+    { path, legs, bounds: computeBounds(path), distanceMeters: legs.reduce((sum, leg) => sum + leg.distanceMeters, 0) },
+    options.mode
+  );
+
+  const encodedElevations = params.get('e');
+  const elevations = encodedElevations ? decodeSignedIntegers(encodedElevations).map((e) => e / ELEVATION_PRECISION) : [];
+  const locations = resamplePath(route.path, elevations.length);
+  const elevationProfile = buildElevationProfile(
+    elevations.map((elevationM, i) => ({ location: locations[i], elevationM })),
+    route.distanceMeters
+  );
+
+  const course = buildGeneratedCourse(
+    {
+      route,
+      waypoints: viaPoints,
+      elevationProfile,
+      distanceKm: route.distanceMeters / 1000,
+      elevationGainM: elevationProfile.totalGainM,
+      maxGradePercent: maxGradePercent(elevationProfile),
+      overlap: analyzeRouteOverlap(route.path),
+      turnaroundPoint: options.mode === 'out-and-back' ? path[path.length - 1] : null,
+    },
+    startPoint,
+    desiredDistanceKm,
+    options
+  );
+  return { ...course, source: oneOf<CourseSource>(params.get('src'), COURSE_SOURCES, 'generated') };
+};
+
+export const parseShareSearch = (search: string): ShareState | null => {
+  const params = new URLSearchParams(search);
+  const startPoint = parsePoint(params.get('s'));
+  const desiredDistanceKm = parseNumber(params.get('d'), 0);
+  if (!startPoint || desiredDistanceKm <= 0) return null;
+
+  const defaults = DEFAULT_GENERATION_OPTIONS;
+  const mode = oneOf<CourseMode>(params.get('m'), COURSE_MODES, defaults.mode);
+  const generationOptions: GenerationOptions = {
+    ...defaults,
+    mode,
+    finishPoint: mode === 'point-to-point' ? parsePoint(params.get('f')) : null,
+    strategy: oneOf<LoopStrategy>(params.get('sh'), LOOP_STRATEGIES, defaults.strategy),
+    rotationDegrees: parseNumber(params.get('rot'), defaults.rotationDegrees),
+    radiusScale: Math.max(0.1, parseNumber(params.get('rs'), defaults.radiusScale)),
+    elevation: {
+      objective: oneOf<ElevationObjective>(params.get('el'), { minimize: 1, maximize: 1, target: 1 }, defaults.elevation.objective),
+      targetGainM: parseNumber(params.get('tg'), defaults.elevation.targetGainM),
+      maxGradePercent: parseOptionalNumber(params.get('mg')),
+    },
+  };
+  if (mode === 'point-to-point' && !generationOptions.finishPoint) return null;
+
+  const encodedPath = params.get('r');
+  return {
+    startPoint,
+    desiredDistanceKm,
+    generationOptions,
+    course: encodedPath ? restoreCourse(params, encodedPath, startPoint, desiredDistanceKm, generationOptions) : null,
+  };
+};
@@ -0,0 +1,71 @@
+import type { LatLngLiteral, StartLocation } from '../types';
+import { distanceBetweenM } from './geo';
+import { newId } from './ids';
+import { readStoredJson, writeStoredJson } from './localStore';
+
+// Recent and favourite start points, kept in localStorage. Favourites stay until removed; other entries
+// are recent starts, newest first, limited to MAX_RECENT_STARTS.
+
+const START_LOCATIONS_STORAGE_KEY = 'rcg.startLocations';
+const MAX_RECENT_STARTS = 8;
+// Starts closer than this to a listed one update that entry instead of adding another
+const SAME_START_DISTANCE_M = 50;
+
+export const formatCoordinates = (location: LatLngLiteral): string => `${location.lat.toFixed(5)}, ${location.lng.toFixed(5)}`;
+
+// Favourites first (by name), then recent starts (newest first)
+const sortStartLocations = (locations: StartLocation[]): StartLocation[] =>
+  [...locations].sort((a, b) =>
+    a.favourite !== b.favourite ? (a.favourite ? -1 : 1) : a.favourite ? a.label.localeCompare(b.label) : b.lastUsedAt - a.lastUsedAt
+  );
+
+const pruneRecent = (locations: StartLocation[]): StartLocation[] => {
+  let recent = 0;
+  return sortStartLocations(locations).filter((l) => l.favourite || ++recent <= MAX_RECENT_STARTS);
+};
+
+export const loadStartLocations = (): StartLocation[] => {
+  const stored = readStoredJson(START_LOCATIONS_STORAGE_KEY);
+  return Array.isArray(stored)
+    ? sortStartLocations(stored.filter((l): l is StartLocation => typeof l?.id === 'string' && typeof l?.location?.lat === 'number'))
+    : [];
+};
+
+export const saveStartLocations = (locations: StartLocation[]): void => writeStoredJson(START_LOCATIONS_STORAGE_KEY, locations);
+
+const findSameStart = (locations: StartLocation[], location: LatLngLiteral): StartLocation | undefined =>
+  locations.find((l) => distanceBetweenM(l.location, location) < SAME_START_DISTANCE_M);
+
+// Records a start the user generated a course from. A listed start nearby is moved to the top of the recent
+// starts instead (favourites keep their own name).
+export const recordRecentStart = (locations: StartLocation[], location: LatLngLiteral, label: string | null): StartLocation[] => {
+  const existing = findSameStart(locations, location);
+  const now = Date.now();
+  const updated = existing
+    ? locations.map((l) =>
+        l === existing ? { ...l, location, label: l.favourite ? l.label : label ?? l.label, lastUsedAt: now } : l
+      )
+    : [...locations, { id: newId(), label: label ?? formatCoordinates(location), location, favourite: false, lastUsedAt: now }];
+  return pruneRecent(updated);
+};
+
+// Marks the start at `location` as a favourite, or un-marks it when it already is one
+export const toggleFavouriteStart = (locations: StartLocation[], location: LatLngLiteral, label: string | null): StartLocation[] => {
+  const existing = findSameStart(locations, location);
+  if (existing) {
+    return pruneRecent(locations.map((l) => (l === existing ? { ...l, favourite: !l.favourite } : l)));
+  }
+  const favourite: StartLocation = {
+    id: newId(),
+    label: label ?? formatCoordinates(location),
+    location,
+    favourite: true,
+    lastUsedAt: Date.now(),
+  };
+  return sortStartLocations([...locations, favourite]);
+};
+
+export const isFavouriteStart = (locations: StartLocation[], location: LatLngLiteral): boolean =>
+  findSameStart(locations, location)?.favourite ?? false;
+
+export const removeStartLocation = (locations: StartLocation[], id: string): StartLocation[] => locations.filter((l) => l.id !== id);
@@ -0,0 +1,219 @@
+import type {
+  ElevationPreference,
+  GenerationOptions,
+  LatLngLiteral,
+  MapProviders,
+  PaceProfile,
+  PlanTerrain,
+  PlanTotals,
+  PlannedWorkout,
+  PlanWorkout,
+  RankedCandidate,
+  RouteConstraints,
+  Weekday,
+} from '../types';
+import {
+  DEFAULT_GENERATION_OPTIONS,
+  PLAN_MAX_SHARED_PERCENT,
+  PLAN_ROLLING_GAIN_M_PER_KM,
+  PLAN_SHARED_DISTANCE_M,
+} from '../constants';
+import { findCandidateRoutes, isAbortError } from './mapService';
+import { buildGeneratedCourse } from './courseBuilder';
+import { toGenerationError } from './generationDiagnostics';
+import { EMPTY_ROUTE_CONSTRAINTS } from './routeConstraints';
+import { pathLengthM, resamplePath } from './geo';
+import { newId } from './ids';
+import { readStoredJson, writeStoredJson } from './localStore';
+
+// Weekly training plans: a list of workouts (day, distance, terrain, start), each generated as a loop from its
+// start. Courses already planned for the week count against later workouts, so the week doesn't repeat a route.
+
+const TRAINING_PLAN_STORAGE_KEY = 'rcg.trainingPlan';
+const SHARED_SAMPLE_SPACING_M = 20;
+
+// `name` is used in file and course names
+export const WEEKDAYS: { id: Weekday; label: string; name: string }[] = [
+  { id: 'mon', label: '月 / Mon', name: 'Mon' },
+  { id: 'tue', label: '火 / Tue', name: 'Tue' },
+  { id: 'wed', label: '水 / Wed', name: 'Wed' },
+  { id: 'thu', label: '木 / Thu', name: 'Thu' },
+  { id: 'fri', label: '金 / Fri', name: 'Fri' },
+  { id: 'sat', label: '土 / Sat', name: 'Sat' },
+  { id: 'sun', label: '日 / Sun', name: 'Sun' },
+];
+
+export const PLAN_TERRAINS: Record<PlanTerrain, { label: string; name: string }> = {
+  flat: { label: '平坦 / Flat', name: 'Flat' },
+  rolling: { label: '起伏 / Rolling', name: 'Rolling' },
+  hilly: { label: '坂 / Hilly', name: 'Hilly' },
+};
+
+const dayIndex = (day: Weekday): number => WEEKDAYS.findIndex((d) => d.id === day);
+
+export const createWorkout = (day: Weekday, start: PlanWorkout['start']): PlanWorkout => ({
+  id: newId(),
+  day,
+  label: '',
+  desiredDistanceKm: 5,
+  terrain: 'flat',
+  start,
+});
+
+// Monday first; workouts on the same day keep their order
+export const sortWorkouts = (workouts: PlanWorkout[]): PlanWorkout[] =>
+  [...workouts].sort((a, b) => dayIndex(a.day) - dayIndex(b.day));
+
+export const loadTrainingPlan = (): PlanWorkout[] => {
+  const stored = readStoredJson(TRAINING_PLAN_STORAGE_KEY);
+  return Array.isArray(stored)
+    ? sortWorkouts(stored.filter((w): w is PlanWorkout => typeof w?.id === 'string' && dayIndex(w.day) >= 0 && typeof w?.start?.location?.lat === 'number'))
+    : [];
+};
+
+export const saveTrainingPlan = (workouts: PlanWorkout[]): void => writeStoredJson(TRAINING_PLAN_STORAGE_KEY, workouts);
+
+// The elevation objective for a workout's terrain; the max grade setting is kept as it is
+const terrainElevation = (terrain: PlanTerrain, distanceKm: number, base: ElevationPreference): ElevationPreference => {
+  switch (terrain) {
+    case 'flat':
+      return { ...base, objective: 'minimize' };
+    case 'hilly':
+      return { ...base, objective: 'maximize' };
+    case 'rolling':
+      return { ...base, objective: 'target', targetGainM: Math.round(distanceKm * PLAN_ROLLING_GAIN_M_PER_KM) };
+  }
+};
+
+// Workouts are loops from their start; the loop strategy and max grade come from the base options
+export const workoutOptions = (workout: PlanWorkout, baseOptions: GenerationOptions): GenerationOptions => ({
+  ...baseOptions,
+  mode: 'loop',
+  finishPoint: null,
+  elevation: terrainElevation(workout.terrain, workout.desiredDistanceKm, baseOptions.elevation),
+});
+
+// e.g. "Wed 8 km Hilly", or "Sun 18 km Long run" with the workout's own label
+export const workoutTitle = (workout: PlanWorkout): string =>
+  `${WEEKDAYS[dayIndex(workout.day)].name} ${workout.desiredDistanceKm} km ${workout.label.trim() || PLAN_TERRAINS[workout.terrain].name}`;
+
+interface PathIndex {
+  add: (path: LatLngLiteral[]) => void;
+  sharedPercent: (path: LatLngLiteral[]) => number; // 0-100, within PLAN_SHARED_DISTANCE_M of a path added before
+}
+
+// Paths of the courses planned so far, sampled every SHARED_SAMPLE_SPACING_M into a grid of
+// PLAN_SHARED_DISTANCE_M cells around a fixed origin (plans stay within a city, so a flat projection will do)
+const createPathIndex = (): PathIndex => {
+  const cells = new Map<string, { x: number; y: number }[]>();
+  let origin: LatLngLiteral | null = null;
+  const metersPerDegLat = 111_320;
+  const cellKey = (cx: number, cy: number) => `${cx},${cy}`;
+  const cellOf = (value: number) => Math.floor(value / PLAN_SHARED_DISTANCE_M);
+
+  const samples = (path: LatLngLiteral[]): { x: number; y: number }[] => {
+    const lengthM = pathLengthM(path);
+    if (path.length < 2 || lengthM === 0) return [];
+    const from = (origin ??= path[0]);
+    const metersPerDegLng = metersPerDegLat * Math.cos((from.lat * Math.PI) / 180);
+    return resamplePath(path, Math.ceil(lengthM / SHARED_SAMPLE_SPACING_M) + 1).map((p) => ({
+      x: (p.lng - from.lng) * metersPerDegLng,
+      y: (p.lat - from.lat) * metersPerDegLat,
+    }));
+  };
+
+  const isShared = ({ x, y }: { x: number; y: number }): boolean => {
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const nearby = cells.get(cellKey(cellOf(x) + dx, cellOf(y) + dy)) ?? [];
+        if (nearby.some((p) => Math.hypot(p.x - x, p.y - y) <= PLAN_SHARED_DISTANCE_M)) return true;
+      }
+    }
+    return false;
+  };
+
+  return {
+    add: (path) => {
+      for (const sample of samples(path)) {
+        const key = cellKey(cellOf(sample.x), cellOf(sample.y));
+        cells.set(key, [...(cells.get(key) ?? []), sample]);
+      }
+    },
+    sharedPercent: (path) => {
+      if (cells.size === 0) return 0;
+      const pathSamples = samples(path);
+      return pathSamples.length > 0 ? (pathSamples.filter(isShared).length / pathSamples.length) * 100 : 0;
+    },
+  };
+};
+
+// The best-ranked usable candidate that shares at most PLAN_MAX_SHARED_PERCENT with the week so far, or else
+// the usable one sharing the least. Usable means within the distance tolerance and max grade, when any are.
+const pickCandidate = (candidates: RankedCandidate[], index: PathIndex): { candidate: RankedCandidate; sharedPercent: number } => {
+  const usable = candidates.filter((c) => c.breakdown.distanceTier !== 'outside' && c.breakdown.withinMaxGrade);
+  const scored = (usable.length > 0 ? usable : candidates).map((candidate) => ({
+    candidate,
+    sharedPercent: index.sharedPercent(candidate.route.route.path),
+  }));
+  return (
+    scored.find((s) => s.sharedPercent <= PLAN_MAX_SHARED_PERCENT) ??
+    scored.reduce((best, s) => (s.sharedPercent < best.sharedPercent ? s : best))
+  );
+};
+
+export interface TrainingPlanControl {
+  signal?: AbortSignal;
+  onWorkoutPlanned?: (planned: PlannedWorkout, index: number) => void;
+}
+
+// Generates the workouts one after another, in week order, so each can avoid the courses before it. A workout
+// that can't be generated gets an error and the rest of the week carries on. Rejects with an AbortError when
+// `control.signal` aborts.
+export const generateTrainingPlan = async (
+  workouts: PlanWorkout[],
+  providers: MapProviders,
+  pace: PaceProfile,
+  baseOptions: GenerationOptions = DEFAULT_GENERATION_OPTIONS,
+  constraints: RouteConstraints = EMPTY_ROUTE_CONSTRAINTS,
+  control: TrainingPlanControl = {}
+): Promise<PlannedWorkout[]> => {
+  const index = createPathIndex();
+  const planned: PlannedWorkout[] = [];
+  for (const workout of sortWorkouts(workouts)) {
+    const options = workoutOptions(workout, baseOptions);
+    let result: PlannedWorkout;
+    try {
+      const generation = await findCandidateRoutes(workout.start.location, workout.desiredDistanceKm, providers, options, constraints, {
+        signal: control.signal,
+      });
+      if (generation.ok) {
+        const { candidate, sharedPercent } = pickCandidate(generation.candidates, index);
+        const course = buildGeneratedCourse(candidate.route, workout.start.location, workout.desiredDistanceKm, options, pace);
+        index.add(course.route.path);
+        result = { workout, course, sharedPercent, error: null };
+      } else {
+        result = { workout, course: null, sharedPercent: 0, error: generation.error.message };
+      }
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      result = { workout, course: null, sharedPercent: 0, error: toGenerationError(err).message };
+    }
+    planned.push(result);
+    control.onWorkoutPlanned?.(result, planned.length - 1);
+  }
+  return planned;
+};
+
+export const planTotals = (planned: PlannedWorkout[]): PlanTotals =>
+  planned.reduce(
+    (totals, { course }) =>
+      course
+        ? {
+            distanceKm: totals.distanceKm + course.stats.totalDistanceKm,
+            gainM: totals.gainM + course.stats.cumulativeElevationGainM,
+            timeMin: totals.timeMin + course.stats.estimatedTimeMin,
+            courseCount: totals.courseCount + 1,
+          }
+        : totals,
+    { distanceKm: 0, gainM: 0, timeMin: 0, courseCount: 0 }
+  );
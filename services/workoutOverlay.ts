@@ -0,0 +1,148 @@
+import type {
+  ElevationProfile,
+  GeneratedCourse,
+  WorkoutMarker,
+  WorkoutOverlay,
+  WorkoutSegment,
+  WorkoutSegmentKind,
+  WorkoutStructure,
+} from '../types';
+import { DEFAULT_WORKOUT_STRUCTURE, WORKOUT_MIN_GRADE_GAIN_PERCENT, WORKOUT_OFFSET_STEP_M } from '../constants';
+import { cumulativeDistancesM, locationAlongPath, slicePath } from './geo';
+import { elevationAtDistance } from './elevationProfile';
+import { profileGrades } from './gradeAnalysis';
+import { readStoredJson, writeStoredJson } from './localStore';
+
+// Interval workouts laid onto a course by distance: warm-up, reps with recoveries between them, cool-down.
+// The reps start as soon as the warm-up is done, unless starting them later puts them on flatter ground.
+
+const WORKOUT_STRUCTURE_STORAGE_KEY = 'rcg.workoutStructure';
+
+export const WORKOUT_SEGMENT_KINDS: Record<WorkoutSegmentKind, { label: string; name: string; color: string }> = {
+  'warm-up': { label: 'ウォームアップ / Warm-up', name: 'Warm-up', color: '#0EA5E9' },
+  rep: { label: 'レップ / Rep', name: 'Rep', color: '#DC2626' },
+  recovery: { label: 'リカバリー / Recovery', name: 'Recovery', color: '#22C55E' },
+  'cool-down': { label: 'クールダウン / Cool-down', name: 'Cool-down', color: '#6366F1' },
+};
+
+export const loadWorkoutStructure = (): WorkoutStructure => {
+  const stored = readStoredJson(WORKOUT_STRUCTURE_STORAGE_KEY) as Partial<WorkoutStructure> | null;
+  return stored && typeof stored.repCount === 'number' ? { ...DEFAULT_WORKOUT_STRUCTURE, ...stored } : DEFAULT_WORKOUT_STRUCTURE;
+};
+
+export const saveWorkoutStructure = (structure: WorkoutStructure): void =>
+  writeStoredJson(WORKOUT_STRUCTURE_STORAGE_KEY, structure);
+
+// Reps and the recoveries between them (none after the last rep: that is the cool-down)
+const repBlockM = (structure: WorkoutStructure): number =>
+  structure.repCount * structure.repM + Math.max(0, structure.repCount - 1) * structure.recoveryM;
+
+export const workoutTotalM = (structure: WorkoutStructure): number =>
+  structure.warmUpM + repBlockM(structure) + structure.coolDownM;
+
+interface GradeStats {
+  absGradeM: number; // |grade| (%) integrated over the distance, for comparing stretches
+  maxGradePercent: number;
+}
+
+const gradeStats = (profile: ElevationProfile, grades: number[], fromM: number, toM: number): GradeStats => {
+  const points = profile.points;
+  let absGradeM = 0;
+  let maxGradePercent = 0;
+  for (let i = 1; i < points.length; i++) {
+    const overlapM = Math.min(toM, points[i].distanceM) - Math.max(fromM, points[i - 1].distanceM);
+    if (overlapM <= 0) continue;
+    absGradeM += Math.abs(grades[i - 1]) * overlapM;
+    maxGradePercent = Math.max(maxGradePercent, Math.abs(grades[i - 1]));
+  }
+  return { absGradeM, maxGradePercent };
+};
+
+// Where each part of the workout runs when the first rep starts at `repStartM`
+const layOut = (structure: WorkoutStructure, repStartM: number, courseM: number) => {
+  const parts: { kind: WorkoutSegmentKind; repNumber: number | null; startM: number; endM: number }[] = [
+    { kind: 'warm-up', repNumber: null, startM: 0, endM: repStartM },
+  ];
+  let position = repStartM;
+  for (let rep = 1; rep <= structure.repCount; rep++) {
+    parts.push({ kind: 'rep', repNumber: rep, startM: position, endM: position + structure.repM });
+    position += structure.repM;
+    if (rep < structure.repCount && structure.recoveryM > 0) {
+      parts.push({ kind: 'recovery', repNumber: rep, startM: position, endM: position + structure.recoveryM });
+      position += structure.recoveryM;
+    }
+  }
+  parts.push({ kind: 'cool-down', repNumber: null, startM: position, endM: Math.max(courseM, position + structure.coolDownM) });
+  return parts;
+};
+
+// Mean absolute grade of the reps when the first one starts at `repStartM`
+const repGrade = (structure: WorkoutStructure, profile: ElevationProfile, grades: number[], repStartM: number): number => {
+  const reps = layOut(structure, repStartM, 0).filter((part) => part.kind === 'rep');
+  const totalM = structure.repCount * structure.repM;
+  return totalM > 0 ? reps.reduce((sum, rep) => sum + gradeStats(profile, grades, rep.startM, rep.endM).absGradeM, 0) / totalM : 0;
+};
+
+// The first rep's start: right after the warm-up, or later where the reps run flatter by a clear margin
+const flattestRepStart = (structure: WorkoutStructure, profile: ElevationProfile, grades: number[], courseM: number): number => {
+  const latestM = courseM - structure.coolDownM - repBlockM(structure);
+  let bestM = structure.warmUpM;
+  let bestGrade = repGrade(structure, profile, grades, bestM);
+  const earliestGrade = bestGrade;
+  for (let startM = structure.warmUpM + WORKOUT_OFFSET_STEP_M; startM <= latestM; startM += WORKOUT_OFFSET_STEP_M) {
+    const grade = repGrade(structure, profile, grades, startM);
+    if (grade < bestGrade) {
+      bestM = startM;
+      bestGrade = grade;
+    }
+  }
+  return earliestGrade - bestGrade >= WORKOUT_MIN_GRADE_GAIN_PERCENT ? bestM : structure.warmUpM;
+};
+
+export const buildWorkoutOverlay = (course: GeneratedCourse, structure: WorkoutStructure): WorkoutOverlay => {
+  const { route, elevationProfile: profile } = course;
+  const courseM = route.distanceMeters;
+  // The profile is indexed by routed distance, which can differ slightly from the polyline length
+  const polylineM = cumulativeDistancesM(route.path);
+  const scale = polylineM[polylineM.length - 1] > 0 ? courseM / polylineM[polylineM.length - 1] : 0;
+  const cumulativeM = polylineM.map((d) => d * scale);
+  const grades = profileGrades(profile);
+
+  const repStartM = flattestRepStart(structure, profile, grades, courseM);
+  const segments: WorkoutSegment[] = layOut(structure, repStartM, courseM)
+    .filter((part) => part.startM < courseM && part.endM > part.startM)
+    .map(({ kind, repNumber, startM, endM: plannedEndM }) => {
+      const endM = Math.min(plannedEndM, courseM);
+      const lengthM = endM - startM;
+      return {
+        kind,
+        repNumber,
+        startDistanceM: startM,
+        endDistanceM: endM,
+        path: slicePath(route.path, cumulativeM, startM, endM),
+        color: WORKOUT_SEGMENT_KINDS[kind].color,
+        avgGradePercent: lengthM > 0 ? ((elevationAtDistance(profile, endM) - elevationAtDistance(profile, startM)) / lengthM) * 100 : 0,
+        maxGradePercent: gradeStats(profile, grades, startM, endM).maxGradePercent,
+      };
+    });
+
+  const markers: WorkoutMarker[] = [];
+  for (let km = 1; km * 1000 < courseM; km++) {
+    const location = locationAlongPath(route.path, cumulativeM, km * 1000);
+    if (location) markers.push({ kind: 'km', location, label: String(km) });
+  }
+  for (const rep of segments.filter((s) => s.kind === 'rep')) {
+    markers.push({ kind: 'rep-start', location: rep.path[0], label: String(rep.repNumber) });
+    // A rep cut short by the end of the course has no end on it
+    if (rep.endDistanceM - rep.startDistanceM >= structure.repM) {
+      markers.push({ kind: 'rep-end', location: rep.path[rep.path.length - 1], label: String(rep.repNumber) });
+    }
+  }
+
+  return {
+    segments,
+    markers,
+    extraWarmUpM: repStartM - structure.warmUpM,
+    shortfallM: Math.max(0, workoutTotalM(structure) - courseM),
+  };
+};
@@ -0,0 +1,95 @@
+// A minimal ZIP writer (files stored uncompressed), enough to hand over several exported courses as one
+// download. Course files are small text, so compression isn't worth a dependency.
+
+export interface ZipEntry {
+  name: string;
+  content: string;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time fields, as ZIP headers store them
+const dosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const createZip = (entries: ZipEntry[], modified: Date = new Date()): Uint8Array => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const files = entries.map((entry) => {
+    const name = encoder.encode(entry.name);
+    const data = encoder.encode(entry.content);
+    return { name, data, crc: crc32(data) };
+  });
+
+  const localSize = files.reduce((sum, f) => sum + 30 + f.name.length + f.data.length, 0);
+  const centralSize = files.reduce((sum, f) => sum + 46 + f.name.length, 0);
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  const u16 = (value: number) => {
+    view.setUint16(offset, value, true);
+    offset += 2;
+  };
+  const u32 = (value: number) => {
+    view.setUint32(offset, value, true);
+    offset += 4;
+  };
+  const raw = (value: Uint8Array) => {
+    bytes.set(value, offset);
+    offset += value.length;
+  };
+  // Version 2.0, UTF-8 names (flag bit 11), stored
+  const common = (f: (typeof files)[number]) => {
+    u16(20);
+    u16(0x0800);
+    u16(0);
+    u16(time);
+    u16(date);
+    u32(f.crc);
+    u32(f.data.length);
+    u32(f.data.length);
+    u16(f.name.length);
+    u16(0);
+  };
+
+  const localOffsets: number[] = [];
+  for (const f of files) {
+    localOffsets.push(offset);
+    u32(0x04034b50);
+    common(f);
+    raw(f.name);
+    raw(f.data);
+  }
+  files.forEach((f, i) => {
+    u32(0x02014b50);
+    u16(20); // made by
+    common(f);
+    u16(0); // comment length
+    u16(0); // disk number
+    u16(0); // internal attributes
+    u32(0); // external attributes
+    u32(localOffsets[i]);
+    raw(f.name);
+  });
+  u32(0x06054b50);
+  u16(0);
+  u16(0);
+  u16(files.length);
+  u16(files.length);
+  u32(centralSize);
+  u32(localSize); // the central directory follows the local entries
+  u16(0);
+  return bytes;
+};
@@ -1,24 +1,547 @@
-// This file will now rely on global.d.ts for Google Maps types.
+// Google Maps types are only needed by the Google provider and the map UI (see global.d.ts).
+// Everything the generator itself deals in is provider-neutral and plain-JSON serialisable.
 
 export interface RouteStats {
   totalDistanceKm: number;
   cumulativeElevationGainM: number;
   estimatedTimeMin: number;
+  distanceErrorPercent: number; // signed difference from the requested distance
+  maxGradePercent: number;
+  elevationPreference: ElevationPreference;
+  elevationTargetDeltaM: number | null; // achieved minus target gain, for the 'target' objective only
+  overlapPercent: number; // share of the distance that runs along an earlier part of the course
+  uTurnCount: number;
 }
 
+export interface LatLngLiteral {
+  lat: number;
+  lng: number;
+}
+
+export interface LatLngBoundsLiteral {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+// A single instruction along a leg, e.g. "Turn left onto Main St".
+export interface RouteStep {
+  instruction: string;
+  distanceMeters: number;
+  durationSeconds: number;
+  path: LatLngLiteral[];
+  maneuver?: string;
+  streetName?: string;
+}
+
+// The part of a route between two consecutive stops (origin, waypoints, destination).
+export interface RouteLeg {
+  startLocation: LatLngLiteral;
+  endLocation: LatLngLiteral;
+  distanceMeters: number;
+  durationSeconds: number;
+  steps: RouteStep[];
+}
+
+// Provider-neutral route geometry returned by every RoutingProvider.
+export interface RouteGeometry {
+  path: LatLngLiteral[];
+  legs: RouteLeg[];
+  bounds: LatLngBoundsLiteral;
+  distanceMeters: number;
+}
+
+export interface ElevationSample {
+  location: LatLngLiteral;
+  elevationM: number;
+}
+
+export interface ElevationProfilePoint {
+  distanceM: number; // from the start of the course
+  elevationM: number;
+  location: LatLngLiteral;
+}
+
+export interface ElevationProfile {
+  points: ElevationProfilePoint[];
+  minElevationM: number;
+  maxElevationM: number;
+  totalGainM: number;
+  totalLossM: number;
+}
+
+export interface GradeBand {
+  label: string;
+  minGradePercent: number; // inclusive lower bound; bands are ordered by it
+  color: string;
+}
+
+// A run of the route path drawn in one grade color
+export interface GradeSegment {
+  path: LatLngLiteral[];
+  color: string;
+  startDistanceM: number;
+  endDistanceM: number;
+}
+
+export interface SteepSectionThresholds {
+  climbGradePercent: number;
+  descentGradePercent: number; // positive number, applied to downhill grades
+  minLengthM: number;
+}
+
+// A sustained climb or descent
+export interface GradeSection {
+  kind: 'climb' | 'descent';
+  startDistanceM: number;
+  lengthM: number;
+  elevationChangeM: number;
+  averageGradePercent: number;
+  maxGradePercent: number; // signed like averageGradePercent
+}
+
+export interface RouteRequest {
+  origin: LatLngLiteral;
+  destination: LatLngLiteral;
+  waypoints: LatLngLiteral[];
+}
+
+// Computes a walking/running route through the requested points.
+// Resolves to null when the backend finds no route; rejects on transport or API errors.
+// Providers that can cancel a request stop when `signal` aborts; others finish it and the caller moves on.
+export interface RoutingProvider {
+  readonly name: string;
+  route(request: RouteRequest, signal?: AbortSignal): Promise<RouteGeometry | null>;
+}
+
+// Returns `samples` evenly spaced elevation samples along the given path. `signal` as for routing.
+export interface ElevationProvider {
+  readonly name: string;
+  getElevationAlongPath(path: LatLngLiteral[], samples: number, signal?: AbortSignal): Promise<ElevationSample[]>;
+}
+
+export interface GeocodeResult {
+  label: string;
+  location: LatLngLiteral;
+}
+
+// An autocomplete entry; resolve it to a location with Geocoder.resolveSuggestion
+export interface PlaceSuggestion {
+  id: string;
+  label: string;
+}
+
+// Looks up places by address or name. Lists are best match first and empty when nothing matches.
+export interface Geocoder {
+  readonly name: string;
+  // Whether suggest() may be called as the user types; when false, search only on an explicit submit
+  readonly autocomplete: boolean;
+  geocode(query: string): Promise<GeocodeResult[]>;
+  // Autocomplete for a partial query, biased toward `near` when given
+  suggest(query: string, near?: LatLngLiteral): Promise<PlaceSuggestion[]>;
+  resolveSuggestion(suggestion: PlaceSuggestion): Promise<GeocodeResult | null>;
+  // A short name for the place at `location`, or null when there is none
+  reverseGeocode(location: LatLngLiteral): Promise<string | null>;
+}
+
+// A start point the user ran from recently or marked as a favourite
+export interface StartLocation {
+  id: string;
+  label: string;
+  location: LatLngLiteral;
+  favourite: boolean;
+  lastUsedAt: number; // epoch ms
+}
+
+export interface MapProviders {
+  routing: RoutingProvider;
+  elevation: ElevationProvider;
+}
+
+// Counters of the managed service layer for the diagnostics view
+export interface ServiceDiagnostics {
+  cacheHits: number;
+  cacheMisses: number;
+  deduplicated: number; // calls that joined an identical request already in flight
+  retries: number;
+  failures: number;
+  sessionRequests: number;
+  sessionBudget: number;
+  dailyRequests: number;
+  dailyBudget: number;
+}
+
+export type CourseMode = 'loop' | 'out-and-back' | 'point-to-point';
+
+// How waypoints are placed around the start point to form a loop.
+export type LoopStrategy = 'single-waypoint' | 'triangle' | 'square' | 'circle';
+
+export type ElevationObjective = 'minimize' | 'maximize' | 'target';
+
+export interface ElevationPreference {
+  objective: ElevationObjective;
+  targetGainM: number; // used by the 'target' objective
+  maxGradePercent: number | null; // routes steeper than this are avoided when possible
+}
+
+export interface GenerationOptions {
+  mode: CourseMode;
+  finishPoint: LatLngLiteral | null; // required for point-to-point courses
+  strategy: LoopStrategy; // loop courses only
+  rotationDegrees: number; // offset applied to every candidate bearing
+  radiusScale: number; // multiplier on the computed waypoint radius
+  elevation: ElevationPreference;
+}
+
+// User-drawn routing constraints, persisted across sessions
+export interface AvoidZone {
+  id: string;
+  name: string;
+  polygon: LatLngLiteral[];
+  enabled: boolean;
+}
+
+export interface MustPassPoint {
+  id: string;
+  name: string;
+  location: LatLngLiteral;
+  enabled: boolean;
+}
+
+export interface RouteConstraints {
+  avoidZones: AvoidZone[];
+  mustPassPoints: MustPassPoint[];
+}
+
+export type CourseSource = 'generated' | 'edited' | 'imported';
+
 export interface GeneratedCourse {
-  directionsResult: google.maps.DirectionsResult;
+  mode: CourseMode;
+  source: CourseSource; // 'edited' once the user has reshaped the generated route, 'imported' for a recorded run
+  startPoint: LatLngLiteral;
+  finishPoint: LatLngLiteral; // same as startPoint for loops and out-and-back courses
+  turnaroundPoint: LatLngLiteral | null; // out-and-back courses only
+  viaPoints: LatLngLiteral[]; // intermediate stops the route was routed through, in order
+  route: RouteGeometry;
+  elevationProfile: ElevationProfile;
   stats: RouteStats;
 }
 
 // Result from mapService containing the core route data
 export interface OptimalRouteData {
-  route: google.maps.DirectionsResult;
+  route: RouteGeometry;
+  waypoints: LatLngLiteral[];
+  bearingDegrees: number;
+  radiusMeters: number; // waypoint radius that produced this route
+  turnaroundPoint: LatLngLiteral | null;
+  refinementIterations: number;
+  elevationProfile: ElevationProfile;
   distanceKm: number;
   elevationGainM: number;
+  maxGradePercent: number;
+  overlap: RouteOverlap;
+  avoidZoneIntrusionM: number; // distance run inside enabled avoidance zones
 }
 
-export interface LatLngLiteral {
-  lat: number;
-  lng: number;
-}
\ No newline at end of file
+export type DistanceTier = 'target' | 'tolerance' | 'outside'; // within the refinement target, the wider tolerance, or neither
+
+// Why a candidate ranked where it did (lower totalScore is better within a distance tier)
+export interface CandidateScoreBreakdown {
+  distanceErrorPercent: number; // signed
+  distanceTier: DistanceTier;
+  elevationGainM: number;
+  elevationFit: number; // elevation objective score
+  overlapPercent: number;
+  uTurnCount: number;
+  avoidZoneIntrusionM: number;
+  maxGradePercent: number;
+  withinMaxGrade: boolean;
+  totalScore: number;
+}
+
+export interface RankedCandidate {
+  rank: number; // 1 = the route the generator would pick
+  route: OptimalRouteData;
+  breakdown: CandidateScoreBreakdown;
+}
+
+// Reported for each candidate while a course is generated. Candidates are identified by their bearing and
+// radius; a bearing is requested again with other radii while its distance is refined.
+export type GenerationProgressEvent =
+  | { phase: 'requested'; bearingDegrees: number; radiusMeters: number }
+  | { phase: 'routed'; bearingDegrees: number; radiusMeters: number; distanceKm: number }
+  | { phase: 'elevation'; bearingDegrees: number; radiusMeters: number; elevationGainM: number }
+  | { phase: 'rejected'; bearingDegrees: number; radiusMeters: number; status: CandidateStatus; reason: string }
+  | { phase: 'selected'; route: OptimalRouteData; candidateCount: number };
+
+// What happened to one candidate request
+export type CandidateStatus =
+  | 'ok'
+  | 'no-route'
+  | 'zero-distance'
+  | 'too-short'
+  | 'directions-failed'
+  | 'elevation-failed'
+  | 'duplicate'; // routed fine, but the same route as another bearing
+
+export interface CandidateDiagnostic {
+  bearingDegrees: number;
+  radiusMeters: number;
+  refinementIteration: number; // 0 for the first request of a bearing
+  status: CandidateStatus;
+  distanceKm: number | null; // null when nothing was routed
+  providerStatus: string | null; // status of a failed request (e.g. OVER_QUERY_LIMIT, HTTP_503)
+  detail: string | null;
+}
+
+export interface GenerationDiagnostics {
+  desiredDistanceKm: number;
+  routingProvider: string;
+  elevationProvider: string;
+  candidates: CandidateDiagnostic[]; // in the order they finished
+}
+
+export type GenerationErrorKind =
+  | 'api-not-loaded'
+  | 'access-denied'
+  | 'quota-exceeded'
+  | 'budget-exceeded'
+  | 'no-route'
+  | 'elevation-failed'
+  | 'request-failed';
+
+export interface GenerationError {
+  kind: GenerationErrorKind;
+  message: string; // what went wrong and what to try
+}
+
+export type GenerationResult =
+  | { ok: true; candidates: RankedCandidate[]; diagnostics: GenerationDiagnostics }
+  | { ok: false; error: GenerationError; diagnostics: GenerationDiagnostics };
+
+// Optional hooks for a generation run
+export interface GenerationControl {
+  signal?: AbortSignal;
+  onProgress?: (event: GenerationProgressEvent) => void;
+  // Called whenever the best-ranked route so far changes, before every candidate has finished
+  onBestSoFar?: (route: OptimalRouteData) => void;
+}
+
+// Running totals of the progress events, for the progress display
+export interface GenerationProgress {
+  requested: number;
+  routed: number;
+  elevationFetched: number;
+  rejected: number;
+  recentRejections: string[]; // newest first
+}
+
+export interface RouteOverlap {
+  overlapPercent: number;
+  uTurnCount: number;
+}
+
+export type ExportFormat = 'gpx-track' | 'gpx-route' | 'tcx' | 'kml' | 'geojson';
+
+export interface PaceProfile {
+  id: string;
+  name: string;
+  flatPaceMinPerKm: number;
+  uphillPenaltyPerPercent: number; // fractional slowdown per +1% grade, e.g. 0.033
+  downhillBenefitPerPercent: number; // fractional speedup per -1% grade on gentle descents
+}
+
+export interface KmSplit {
+  km: number; // 1-based
+  distanceM: number; // shorter than 1000 for the final partial km
+  timeMin: number;
+  paceMinPerKm: number;
+  elevationGainM: number;
+  elevationLossM: number;
+}
+
+export interface CourseTimeEstimate {
+  totalMin: number;
+  splits: KmSplit[];
+}
+
+// A course stored in the local library. Everything in it is plain JSON; schemaVersion lets older
+// records be migrated when GeneratedCourse changes shape.
+export interface SavedCourse {
+  id: string;
+  schemaVersion: number;
+  name: string;
+  tags: string[];
+  notes: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string;
+  desiredDistanceKm: number;
+  generationOptions: GenerationOptions;
+  course: GeneratedCourse;
+}
+
+export type CourseSortKey = 'newest' | 'name' | 'distance' | 'gain';
+
+export interface CourseLibraryQuery {
+  search: string; // matches name, tags and notes
+  sortBy: CourseSortKey;
+  minDistanceKm: number | null;
+  maxDistanceKm: number | null;
+  maxGainM: number | null;
+  near: { point: LatLngLiteral; radiusKm: number } | null; // start area filter
+}
+
+// One position reading during a run, from the device or a replayed recording
+export interface PositionFix {
+  location: LatLngLiteral;
+  timestamp: number; // ms since the epoch
+  accuracyM: number | null;
+}
+
+// Where run-along mode gets positions from. `watch` starts delivering fixes and returns a function that stops it.
+export interface PositionSource {
+  readonly name: string;
+  watch(onFix: (fix: PositionFix) => void, onError: (message: string) => void): () => void;
+}
+
+// A turn instruction placed at its distance along the course
+export interface CourseTurn {
+  distanceM: number;
+  instruction: string;
+  location: LatLngLiteral;
+}
+
+// One line of the cue sheet, e.g. "Turn left onto Main St" at 2.3 km
+export interface Cue extends CourseTurn {
+  kind: 'start' | 'turn' | 'finish';
+  elevationM: number;
+}
+
+// Live state of a run along the course, advanced one fix at a time
+export interface RunState {
+  startedAt: number; // timestamp of the first fix
+  lastFix: PositionFix | null;
+  snappedLocation: LatLngLiteral | null; // last fix moved onto the course
+  distanceCoveredM: number; // along the course; never goes back
+  offCourseM: number; // distance of the last fix from the course
+  isOffCourse: boolean;
+  kmReachedAt: number[]; // elapsed ms when each whole km was passed
+}
+
+// What the run-along panel shows, derived from the run state, the course and the planned splits
+export interface RunProgress {
+  distanceCoveredM: number;
+  distanceRemainingM: number;
+  elapsedMin: number;
+  plannedElapsedMin: number; // planned time to reach the distance covered
+  currentKm: number; // 1-based km being run
+  splitPaceMinPerKm: number | null; // null until enough of the km is run to tell
+  plannedSplitPaceMinPerKm: number | null;
+  upcomingTurns: { instruction: string; inM: number }[];
+  isOffCourse: boolean;
+  offCourseM: number;
+  isFinished: boolean;
+}
+
+export type ActivityFormat = 'gpx' | 'tcx' | 'fit';
+
+export interface ActivityPoint {
+  location: LatLngLiteral;
+  timestamp: number | null; // ms since the epoch; null when the file has no times
+  elevationM: number | null; // as recorded by the device
+}
+
+// A run recorded by a watch or app, read from a GPX, TCX or FIT file
+export interface RecordedActivity {
+  name: string;
+  format: ActivityFormat;
+  points: ActivityPoint[];
+}
+
+// One km of a recorded run against the grade-adjusted prediction for the same km of the course
+export interface ActivitySplit {
+  km: number; // 1-based
+  distanceM: number; // shorter than 1000 for the final partial km
+  actualMin: number | null; // null without recorded times
+  plannedMin: number | null; // null past the end of the course
+}
+
+// A recorded run compared with the planned course
+export interface ActivityComparison {
+  actualDistanceKm: number;
+  plannedDistanceKm: number;
+  actualGainM: number | null; // null without recorded elevations
+  plannedGainM: number;
+  actualTimeMin: number | null;
+  plannedTimeMin: number;
+  meanDeviationM: number; // distance of the recorded points from the course
+  maxDeviationM: number;
+  offCoursePercent: number; // share of the recorded points off the course
+  splits: ActivitySplit[];
+}
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+// How hilly a planned workout should be; mapped onto an elevation objective when it is generated
+export type PlanTerrain = 'flat' | 'rolling' | 'hilly';
+
+// One run of a weekly training plan, e.g. "Wed 8 km hilly" from a favourite start
+export interface PlanWorkout {
+  id: string;
+  day: Weekday;
+  label: string; // the coach's name for the session, e.g. "Easy" or "Long run"
+  desiredDistanceKm: number;
+  terrain: PlanTerrain;
+  start: { label: string; location: LatLngLiteral };
+}
+
+export interface PlannedWorkout {
+  workout: PlanWorkout;
+  course: GeneratedCourse | null; // null when no course could be generated
+  sharedPercent: number; // share of the course that runs along a course planned earlier in the week
+  error: string | null;
+}
+
+export interface PlanTotals {
+  distanceKm: number;
+  gainM: number;
+  timeMin: number;
+  courseCount: number;
+}
+
+// A structured interval session: warm-up, repCount × repM with recoveryM between reps, then cool-down
+export interface WorkoutStructure {
+  warmUpM: number; // minimum; the warm-up is lengthened to put the reps on flatter ground
+  repCount: number;
+  repM: number;
+  recoveryM: number;
+  coolDownM: number; // minimum; whatever is left of the course after the last rep is cool-down too
+}
+
+export type WorkoutSegmentKind = 'warm-up' | 'rep' | 'recovery' | 'cool-down';
+
+// One part of the workout laid onto the course, by distance along it
+export interface WorkoutSegment {
+  kind: WorkoutSegmentKind;
+  repNumber: number | null; // 1-based, for reps and the recovery after them
+  startDistanceM: number;
+  endDistanceM: number;
+  path: LatLngLiteral[];
+  color: string;
+  avgGradePercent: number; // net climb over the length, signed
+  maxGradePercent: number; // steepest profile segment within, either way
+}
+
+export interface WorkoutMarker {
+  kind: 'km' | 'rep-start' | 'rep-end';
+  location: LatLngLiteral;
+  label: string;
+}
+
+export interface WorkoutOverlay {
+  segments: WorkoutSegment[];
+  markers: WorkoutMarker[];
+  extraWarmUpM: number; // added to the warm-up to reach flatter ground for the reps
+  shortfallM: number; // how much longer the workout is than the course; the rest doesn't fit
+}
@@ -6,7 +6,12 @@ export default defineConfig(({ mode }) => {
     return {
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.ROUTING_PROVIDER': JSON.stringify(env.ROUTING_PROVIDER),
+        'process.env.ROUTING_URL': JSON.stringify(env.ROUTING_URL),
+        'process.env.ROUTING_API_KEY': JSON.stringify(env.ROUTING_API_KEY),
+        'process.env.ELEVATION_URL': JSON.stringify(env.ELEVATION_URL),
+        'process.env.GEOCODER_URL': JSON.stringify(env.GEOCODER_URL)
       },
       resolve: {
         alias: {